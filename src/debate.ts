@@ -0,0 +1,71 @@
+import type { Debate, DebateResponse, DebateTurn, DebateVerdict } from "./index";
+import { isDevilsAdvocate } from "./presets";
+import { MAX_CONTEXT_LENGTH, truncateText } from "./utils";
+
+// ============================================================================
+// DEBATE
+// ============================================================================
+
+const DEBATE_RESPONSE_PATTERN = /^\s*[-*]\s*\**@?([\w.-]+)\**\s*:\s*\**(agree|partial|disagree)(?![a-z])\**\s*[-–—:]?\s*(.*)$/i;
+
+// 답변 끝의 POSITION / 응답 목록 파싱. 형식을 지키지 않으면 답변 앞부분을 입장으로 사용
+export function parseDebateTurn(agent: string, round: number, text: string, members: string[]): DebateTurn {
+  const lines = text.split("\n");
+  let positionIndex = -1;
+  lines.forEach((line, index) => {
+    if (/^\s*\**POSITION\**\s*:/i.test(line)) positionIndex = index;
+  });
+  const position = positionIndex >= 0
+    ? lines[positionIndex].replace(/^\s*\**POSITION\**\s*:\**\s*/i, "").trim()
+    : truncateText(text.trim().replace(/\s+/g, " "), MAX_CONTEXT_LENGTH);
+
+  const responses: DebateResponse[] = [];
+  for (const line of lines.slice(positionIndex + 1)) {
+    const match = line.match(DEBATE_RESPONSE_PATTERN);
+    if (!match || match[1] === agent || !members.includes(match[1])) continue;
+    if (responses.some(r => r.to === match[1])) continue;
+    responses.push({ to: match[1], verdict: match[2].toLowerCase() as DebateVerdict, reason: match[3].trim() });
+  }
+
+  return { agent, round, position, responses, text };
+}
+
+// 참가자별 가장 최근에 성공한 발언
+export function latestPositions(debate: Debate): Map<string, DebateTurn> {
+  const latest = new Map<string, DebateTurn>();
+  for (const round of debate.rounds) {
+    for (const turn of round) {
+      if (!turn.error) latest.set(turn.agent, turn);
+    }
+  }
+  return latest;
+}
+
+// DA는 합의를 공격하는 역할이므로 제외 (DA 외 참가자가 한 명뿐이면 전원 기준)
+// 모든 참가자가 이번 라운드에 발언에 성공하고, 다른 참가자 전원에게 agree로 응답해야 수렴
+// (실패했거나 응답 형식을 지키지 않았거나 일부에게만 응답한 참가자가 있으면 수렴 아님)
+export function debateConverged(turns: DebateTurn[], members: string[]): boolean {
+  const nonDevils = members.filter(name => !isDevilsAdvocate(name));
+  const participants = nonDevils.length >= 2 ? nonDevils : members;
+  if (participants.length < 2) return false;
+
+  return participants.every(name => {
+    const turn = turns.find(t => t.agent === name);
+    if (!turn || turn.error) return false;
+    return participants.every(other =>
+      other === name || turn.responses.some(r => r.to === other && r.verdict === "agree")
+    );
+  });
+}
+
+export function formatDebateRound(turns: DebateTurn[]): string {
+  let response = `| Agent | Position | Responses |\n`;
+  response += `|-------|----------|-----------|\n`;
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n+/g, " ");
+  for (const turn of turns) {
+    const position = turn.error ? `[FAIL] ${turn.error}` : turn.position;
+    const responses = turn.responses.map(r => `${r.to}: ${r.verdict}`).join(", ") || "-";
+    response += `| ${turn.agent} | ${cell(truncateText(position, MAX_CONTEXT_LENGTH))} | ${responses} |\n`;
+  }
+  return response;
+}
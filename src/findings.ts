@@ -0,0 +1,203 @@
+import type { Team } from "./index";
+
+// ============================================================================
+// FINDINGS
+// ============================================================================
+
+export const SEVERITIES = ["critical", "high", "medium", "low", "info"] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+
+// 저장 타입(Team → store.ts)에서 참조하므로 스키마에서 추론하지 않고 직접 선언 (파싱 결과를 넘기는 곳에서 일치 확인)
+export interface FindingInput {
+  file: string;
+  startLine?: number;
+  endLine?: number;
+  severity: Severity;
+  category: string;
+  cwe?: string;
+  title: string;
+  description: string;
+  suggestedFix?: string;
+}
+
+export interface Finding extends FindingInput {
+  reportedBy: string[];
+  taskId?: string;
+}
+
+// GitHub code scanning이 정렬/필터에 쓰는 security-severity 점수
+const SARIF_SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: "9.5",
+  high: "8.0",
+  medium: "5.5",
+  low: "3.0",
+  info: "0.0",
+};
+
+const SARIF_LEVELS: Record<Severity, "error" | "warning" | "note"> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "note",
+  info: "note",
+};
+
+const normalizeCwe = (cwe: string | undefined): string | undefined =>
+  cwe ? `CWE-${cwe.replace(/^CWE-/i, "")}` : undefined;
+
+export function toFinding(input: FindingInput, agent: string, taskId?: string): Finding {
+  const endLine = input.endLine && input.startLine && input.endLine < input.startLine ? input.startLine : input.endLine;
+  return { ...input, endLine, cwe: normalizeCwe(input.cwe), reportedBy: [agent], taskId };
+}
+
+export const severityRank = (severity: Severity): number => SEVERITIES.indexOf(severity);
+
+const normalizeFindingPath = (file: string): string => file.replace(/\\/g, "/").replace(/^\.\//, "");
+
+function findingsOverlap(a: Finding, b: Finding): boolean {
+  if (normalizeFindingPath(a.file) !== normalizeFindingPath(b.file)) return false;
+  if ((a.cwe ?? a.category.toLowerCase()) !== (b.cwe ?? b.category.toLowerCase())) return false;
+  // 줄 정보가 없으면 같은 파일/분류면 같은 발견으로 간주
+  if (!a.startLine || !b.startLine) return true;
+  return a.startLine <= (b.endLine ?? b.startLine) && b.startLine <= (a.endLine ?? a.startLine);
+}
+
+// 같은 파일 + 같은 CWE(없으면 category) + 겹치는 줄 범위는 하나로 합침 (가장 높은 심각도, 가장 자세한 설명)
+export function dedupeFindings(findings: Finding[]): Finding[] {
+  const merged: Finding[] = [];
+  for (const finding of findings) {
+    const existing = merged.find(m => findingsOverlap(m, finding));
+    if (!existing) {
+      merged.push({ ...finding, reportedBy: [...finding.reportedBy] });
+      continue;
+    }
+    if (severityRank(finding.severity) < severityRank(existing.severity)) existing.severity = finding.severity;
+    if (finding.description.length > existing.description.length) {
+      existing.title = finding.title;
+      existing.description = finding.description;
+    }
+    existing.suggestedFix = existing.suggestedFix ?? finding.suggestedFix;
+    if (finding.startLine) {
+      existing.startLine = Math.min(existing.startLine ?? finding.startLine, finding.startLine);
+      existing.endLine = Math.max(existing.endLine ?? existing.startLine, finding.endLine ?? finding.startLine);
+    }
+    for (const agent of finding.reportedBy) {
+      if (!existing.reportedBy.includes(agent)) existing.reportedBy.push(agent);
+    }
+  }
+
+  return merged.sort((a, b) =>
+    severityRank(a.severity) - severityRank(b.severity) ||
+    a.file.localeCompare(b.file) ||
+    (a.startLine ?? 0) - (b.startLine ?? 0)
+  );
+}
+
+export function teamFindings(team: Team): Finding[] {
+  const all: Finding[] = [];
+  for (const agent of team.agents.values()) all.push(...(agent.findings ?? []));
+  for (const task of team.tasks.values()) all.push(...(task.findings ?? []));
+  return dedupeFindings(all);
+}
+
+export const findingLocation = (finding: Finding): string => {
+  if (!finding.startLine) return finding.file;
+  const end = finding.endLine && finding.endLine !== finding.startLine ? `-${finding.endLine}` : "";
+  return `${finding.file}:${finding.startLine}${end}`;
+};
+
+export function formatFindingsTable(findings: Finding[]): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n+/g, " ");
+  let response = `| Severity | Location | Category | CWE | Finding | Reported by |\n`;
+  response += `|----------|----------|----------|-----|---------|-------------|\n`;
+  for (const f of findings) {
+    response += `| ${f.severity} | ${cell(findingLocation(f))} | ${cell(f.category)} | ${f.cwe ?? "-"} | ${cell(f.title)} | ${f.reportedBy.join(", ")} |\n`;
+  }
+  return response;
+}
+
+export function formatFindingDetails(findings: Finding[]): string {
+  return findings.map(f => {
+    let text = `#### [${f.severity.toUpperCase()}] ${f.title}\n`;
+    text += `${findingLocation(f)} · ${f.category}${f.cwe ? ` · ${f.cwe}` : ""} · ${f.reportedBy.join(", ")}\n\n`;
+    text += `${f.description}\n`;
+    if (f.suggestedFix) {
+      text += `\n**Suggested fix**: ${f.suggestedFix}\n`;
+    }
+    return text;
+  }).join("\n");
+}
+
+// SARIF 2.1.0 (규칙 ID는 CWE, 없으면 category)
+export function toSarif(findings: Finding[]): object {
+  const rules = new Map<string, object>();
+  const results = findings.map(f => {
+    const ruleId = f.cwe ?? f.category.toLowerCase().replace(/[^\w]+/g, "-");
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, {
+        id: ruleId,
+        name: f.category,
+        shortDescription: { text: f.cwe ? `${f.cwe}: ${f.category}` : f.category },
+        ...(f.cwe && { helpUri: `https://cwe.mitre.org/data/definitions/${f.cwe.slice(4)}.html` }),
+        properties: {
+          tags: f.cwe ? [f.category, "security", f.cwe] : [f.category],
+          "security-severity": SARIF_SECURITY_SEVERITY[f.severity],
+        },
+      });
+    }
+
+    return {
+      ruleId,
+      level: SARIF_LEVELS[f.severity],
+      message: { text: f.suggestedFix ? `${f.title}: ${f.description}\n\nSuggested fix: ${f.suggestedFix}` : `${f.title}: ${f.description}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: normalizeFindingPath(f.file) },
+          ...(f.startLine && { region: { startLine: f.startLine, endLine: f.endLine ?? f.startLine } }),
+        },
+      }],
+      properties: { severity: f.severity, category: f.category, reportedBy: f.reportedBy },
+    };
+  });
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: { driver: { name: "opencode-squad", rules: Array.from(rules.values()) } },
+      results,
+    }],
+  };
+}
+
+// ============================================================================
+// RERUN
+// ============================================================================
+
+// 같은 위치(findingsOverlap)를 먼저 짝짓고, 수정으로 줄이 밀린 경우를 위해 같은 파일 + 같은 분류로 한 번 더
+export function matchFindings(before: Finding[], after: Finding[]): { resolved: Finding[]; added: Finding[]; unchanged: Finding[] } {
+  const remaining = [...after];
+  const unchanged: Finding[] = [];
+  const unmatched: Finding[] = [];
+  for (const finding of before) {
+    const index = remaining.findIndex(f => findingsOverlap(f, finding));
+    if (index === -1) {
+      unmatched.push(finding);
+    } else {
+      unchanged.push(remaining.splice(index, 1)[0]);
+    }
+  }
+
+  const resolved: Finding[] = [];
+  for (const finding of unmatched) {
+    const index = remaining.findIndex(f => findingsOverlap({ ...f, startLine: undefined }, finding));
+    if (index === -1) {
+      resolved.push(finding);
+    } else {
+      unchanged.push(remaining.splice(index, 1)[0]);
+    }
+  }
+
+  return { resolved, added: remaining, unchanged };
+}
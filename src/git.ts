@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import type { GitFile } from "./index";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_GIT_DIFF_LENGTH = 500000; // 팀에 저장하는 diff 최대 길이
+
+// ============================================================================
+// GIT TARGETS
+// ============================================================================
+
+// "base..head" / "base...head" (빈 쪽은 HEAD), 단일 ref는 ref...HEAD (분기 이후 변경)
+export function parseGitRange(spec: string): { base: string; head: string; mergeBase: boolean } {
+  const match = spec.match(/^(.*?)(\.{2,3})(.*)$/);
+  if (!match) return { base: spec, head: "HEAD", mergeBase: true };
+  return { base: match[1] || "HEAD", head: match[3] || "HEAD", mergeBase: match[2] === "..." };
+}
+
+// --name-status 출력: "M\tpath", "R100\told\tnew" (이름 변경은 새 경로)
+export function parseNameStatus(output: string): GitFile[] {
+  return output.split("\n").filter(Boolean).map(line => {
+    const fields = line.split("\t");
+    return { status: fields[0].charAt(0), path: fields[fields.length - 1] };
+  });
+}
+
+// paths 대상: 파일 내용을 MAX_GIT_DIFF_LENGTH까지만 읽음 (남은 한도보다 큰 파일은 건너뛰고, 한도에 닿으면 중단)
+export async function readPathContents(root: string, files: GitFile[]): Promise<{ content: string; truncated: boolean }> {
+  const parts: string[] = [];
+  let length = 0;
+  let truncated = false;
+  for (const file of files) {
+    if (length >= MAX_GIT_DIFF_LENGTH) {
+      truncated = true;
+      break;
+    }
+    const filePath = path.join(root, file.path);
+    const { size } = await fs.promises.stat(filePath);
+    let part: string;
+    if (size > MAX_GIT_DIFF_LENGTH - length) {
+      truncated = true;
+      part = `=== ${file.path} ===\n(skipped: ${size} bytes)\n`;
+    } else {
+      const content = await fs.promises.readFile(filePath, "utf-8");
+      part = `=== ${file.path} ===\n${content.includes("\0") ? "(binary file)\n" : content}`;
+    }
+    parts.push(part);
+    length += part.length + 1;
+  }
+  return { content: parts.join("\n"), truncated };
+}
+
+// 파일별 diff 조각 ("diff --git ..." 또는 paths 대상의 "=== path ===")
+export const splitDiffFiles = (diff: string): string[] =>
+  diff.split(/^(?=diff --git |=== .* ===$)/m).filter(chunk => chunk.trim());
+
+// 작은 파일부터 남은 예산을 균등 분배: 작은 파일은 온전히, 큰 파일은 앞부분만 (원래 순서 유지)
+export function budgetDiff(diff: string, budget: number): string {
+  if (diff.length <= budget) return diff;
+
+  const chunks = splitDiffFiles(diff);
+  const allowed = new Map<number, number>();
+  let remaining = budget;
+  const bySize = chunks.map((chunk, index) => ({ index, length: chunk.length })).sort((a, b) => a.length - b.length);
+  bySize.forEach((chunk, position) => {
+    const share = Math.floor(remaining / (bySize.length - position));
+    allowed.set(chunk.index, Math.min(chunk.length, share));
+    remaining -= Math.min(chunk.length, share);
+  });
+
+  return chunks.map((chunk, index) => {
+    const length = allowed.get(index)!;
+    if (length >= chunk.length) return chunk;
+    const kept = chunk.slice(0, length);
+    return `${kept.slice(0, kept.lastIndexOf("\n") + 1)}... (${chunk.length - length} more chars of this file omitted)\n`;
+  }).join("");
+}
@@ -0,0 +1,217 @@
+import type { Task, TaskStatus, Team } from "./index";
+import { findCyclicDependencies } from "./tasks";
+
+// ============================================================================
+// TASK GRAPH
+// ============================================================================
+
+// blockedBy와 다른 태스크의 blocks 양쪽에서 선행 태스크 수집
+export function dependenciesOf(team: Team, task: Task): Task[] {
+  const ids = new Set(task.blockedBy);
+  for (const other of team.tasks.values()) {
+    if (other.blocks.includes(task.id)) ids.add(other.id);
+  }
+  return Array.from(ids).map(id => team.tasks.get(id)).filter((t): t is Task => t !== undefined);
+}
+
+export type GraphFormat = "mermaid" | "dot" | "ascii";
+
+const TASK_STATUS_COLORS: Record<TaskStatus, string> = {
+  pending: "#e5e7eb",
+  in_progress: "#bfdbfe",
+  completed: "#bbf7d0",
+  blocked: "#fed7aa",
+  error: "#fecaca",
+  cancelled: "#d1d5db",
+};
+
+export const TASK_STATUS_ICONS: Record<TaskStatus, string> = {
+  pending: "[ ]",
+  in_progress: "[>]",
+  completed: "[OK]",
+  blocked: "[!]",
+  error: "[X]",
+  cancelled: "[-]",
+};
+
+const CRITICAL_COLOR = "#dc2626";
+
+export interface TaskGraph {
+  tasks: Task[];
+  edges: Array<[string, string]>; // [선행 태스크, 후속 태스크]
+  critical: string[];
+  cyclic: Set<string>;
+}
+
+export const taskDurationMs = (task: Task): number | undefined =>
+  task.startedAt && task.completedAt ? task.completedAt.getTime() - task.startedAt.getTime() : undefined;
+
+// 가장 긴 의존성 경로. 가중치는 실측 소요 시간, 없으면 실측 평균(둘 다 없으면 태스크 수)
+function findCriticalPath(team: Team, cyclic: Set<string>): string[] {
+  const tasks = Array.from(team.tasks.values()).filter(t => !cyclic.has(t.id));
+  const measured = tasks.map(taskDurationMs).filter((d): d is number => d !== undefined);
+  const fallback = measured.length > 0 ? measured.reduce((a, b) => a + b, 0) / measured.length : 1;
+
+  const longest = new Map<string, { length: number; previous?: string }>();
+  const visit = (task: Task): number => {
+    const known = longest.get(task.id);
+    if (known) return known.length;
+    let best: { length: number; previous?: string } = { length: 0 };
+    for (const dep of dependenciesOf(team, task)) {
+      if (cyclic.has(dep.id)) continue;
+      const length = visit(dep);
+      if (length > best.length) best = { length, previous: dep.id };
+    }
+    const entry = { length: best.length + (taskDurationMs(task) ?? fallback), previous: best.previous };
+    longest.set(task.id, entry);
+    return entry.length;
+  };
+
+  let end: string | undefined;
+  let endLength = 0;
+  for (const task of tasks) {
+    const length = visit(task);
+    if (length > endLength) {
+      end = task.id;
+      endLength = length;
+    }
+  }
+
+  const path: string[] = [];
+  for (let id = end; id; id = longest.get(id)?.previous) path.unshift(id);
+  return path;
+}
+
+export function buildTaskGraph(team: Team): TaskGraph {
+  const tasks = Array.from(team.tasks.values());
+  const edges: Array<[string, string]> = [];
+  for (const task of tasks) {
+    for (const dep of dependenciesOf(team, task)) edges.push([dep.id, task.id]);
+  }
+  const cyclic = new Set(findCyclicDependencies(team));
+  return { tasks, edges, critical: findCriticalPath(team, cyclic), cyclic };
+}
+
+const isCriticalEdge = (graph: TaskGraph, [from, to]: [string, string]): boolean => {
+  const index = graph.critical.indexOf(from);
+  return index >= 0 && graph.critical[index + 1] === to;
+};
+
+export const graphLabel = (task: Task): string => task.key ?? task.subject;
+
+export function renderMermaid(graph: TaskGraph): string {
+  const ids = new Map(graph.tasks.map((t, i) => [t.id, `t${i + 1}`]));
+  const escape = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart TD"];
+
+  for (const task of graph.tasks) {
+    const owner = task.owner ? `<br/>@${escape(task.owner)}` : "";
+    const cycle = graph.cyclic.has(task.id) ? "⟳ " : "";
+    lines.push(`  ${ids.get(task.id)}["${cycle}${escape(graphLabel(task))}${owner}"]:::${task.status}`);
+  }
+
+  const criticalEdges: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    lines.push(`  ${ids.get(edge[0])} --> ${ids.get(edge[1])}`);
+    if (isCriticalEdge(graph, edge)) criticalEdges.push(index);
+  });
+
+  for (const [status, color] of Object.entries(TASK_STATUS_COLORS)) {
+    lines.push(`  classDef ${status} fill:${color},stroke:#6b7280`);
+  }
+  lines.push(`  classDef critical stroke:${CRITICAL_COLOR},stroke-width:3px`);
+  lines.push(`  classDef cyclic stroke:${CRITICAL_COLOR},stroke-dasharray:5 5`);
+
+  if (graph.critical.length > 0) {
+    lines.push(`  class ${graph.critical.map(id => ids.get(id)).join(",")} critical`);
+  }
+  if (graph.cyclic.size > 0) {
+    lines.push(`  class ${Array.from(graph.cyclic, id => ids.get(id)).join(",")} cyclic`);
+  }
+  if (criticalEdges.length > 0) {
+    lines.push(`  linkStyle ${criticalEdges.join(",")} stroke:${CRITICAL_COLOR},stroke-width:3px`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function renderDot(graph: TaskGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = [
+    "digraph tasks {",
+    "  rankdir=TB;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+
+  for (const task of graph.tasks) {
+    const label = task.owner ? `${graphLabel(task)}\n@${task.owner}` : graphLabel(task);
+    const attrs = [`label=${quote(label)}`, `fillcolor=${quote(TASK_STATUS_COLORS[task.status])}`];
+    if (graph.critical.includes(task.id)) attrs.push(`color=${quote(CRITICAL_COLOR)}`, "penwidth=3");
+    if (graph.cyclic.has(task.id)) attrs.push(`color=${quote(CRITICAL_COLOR)}`, 'style="rounded,filled,dashed"');
+    lines.push(`  ${quote(task.id)} [${attrs.join(", ")}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attrs = isCriticalEdge(graph, edge) ? ` [color=${quote(CRITICAL_COLOR)}, penwidth=3]` : "";
+    lines.push(`  ${quote(edge[0])} -> ${quote(edge[1])}${attrs};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+// 선행 태스크가 없는 태스크부터 트리로 출력. 여러 선행 태스크를 가진 태스크는 처음 한 번만 펼침
+export function renderAscii(graph: TaskGraph): string {
+  const byId = new Map(graph.tasks.map(t => [t.id, t]));
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  for (const [from, to] of graph.edges) {
+    children.set(from, [...(children.get(from) ?? []), to]);
+    hasParent.add(to);
+  }
+
+  const lines: string[] = [];
+  const printed = new Set<string>();
+  const render = (id: string, prefix: string, connector: string, childPrefix: string) => {
+    const task = byId.get(id)!;
+    const marks = [
+      graph.critical.includes(id) ? "*" : "",
+      graph.cyclic.has(id) ? "(cycle)" : "",
+    ].filter(Boolean).join(" ");
+    const owner = task.owner ? ` @${task.owner}` : "";
+    const label = `${TASK_STATUS_ICONS[task.status]} ${graphLabel(task)} (${task.id})${owner}${marks ? ` ${marks}` : ""}`;
+
+    if (printed.has(id)) {
+      lines.push(`${prefix}${connector}${label} ↑`);
+      return;
+    }
+    printed.add(id);
+    lines.push(`${prefix}${connector}${label}`);
+
+    const next = children.get(id) ?? [];
+    next.forEach((child, index) => {
+      const last = index === next.length - 1;
+      render(child, prefix + childPrefix, last ? "└── " : "├── ", last ? "    " : "│   ");
+    });
+  };
+
+  for (const task of graph.tasks) {
+    if (!hasParent.has(task.id)) render(task.id, "", "", "");
+  }
+  // 순환에만 속한 태스크는 루트가 없으므로 따로 출력
+  for (const task of graph.tasks) {
+    if (!printed.has(task.id)) render(task.id, "", "", "");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function renderTaskGraph(team: Team, format: GraphFormat): { graph: TaskGraph; content: string } {
+  const graph = buildTaskGraph(team);
+  const renderers: Record<GraphFormat, (graph: TaskGraph) => string> = {
+    mermaid: renderMermaid,
+    dot: renderDot,
+    ascii: renderAscii,
+  };
+  return { graph, content: renderers[format](graph) };
+}
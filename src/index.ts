@@ -1,9 +1,127 @@
-import { tool, type Plugin, type PluginInput } from "@opencode-ai/plugin";
-import type { OpencodeClient, Part } from "@opencode-ai/sdk";
+import { tool, type Plugin, type PluginInput, type ToolContext } from "@opencode-ai/plugin";
+import type { Event as OpencodeEvent, OpencodeClient } from "@opencode-ai/sdk";
 import fs from "fs";
 import path from "path";
 import os from "os";
 import { randomUUID } from "crypto";
+import { spawn } from "child_process";
+import {
+  createFileRecords,
+  createMemoryRecords,
+  createSqliteRecords,
+  createTeamStore,
+  ensureStorageDir,
+  writeFileAtomic,
+  type HistoryFilter,
+  type MessageLog,
+  type StorageBackend,
+  type TeamStore,
+} from "./store";
+import {
+  COMBINE_SCORE_RATIO,
+  DEFAULT_PRESET,
+  DEVILS_ADVOCATE_AGENT,
+  PRESET_KEYWORDS,
+  detectPreset,
+  escapeRegExp,
+  isDevilsAdvocate,
+  presetAgents,
+  type PresetDetection,
+} from "./presets";
+import {
+  debateConverged,
+  formatDebateRound,
+  latestPositions,
+  parseDebateTurn,
+} from "./debate";
+import {
+  SEVERITIES,
+  dedupeFindings,
+  findingLocation,
+  formatFindingDetails,
+  formatFindingsTable,
+  matchFindings,
+  severityRank,
+  teamFindings,
+  toFinding,
+  toSarif,
+  type Finding,
+} from "./findings";
+import {
+  MAX_GIT_DIFF_LENGTH,
+  budgetDiff,
+  parseGitRange,
+  parseNameStatus,
+  readPathContents,
+} from "./git";
+import {
+  TASK_STATUS_ICONS,
+  dependenciesOf,
+  graphLabel,
+  renderTaskGraph,
+  taskDurationMs,
+} from "./graph";
+import {
+  finalAssistantTurn,
+  getMessages,
+  isTextPart,
+  messageQueue,
+  sendMessage,
+} from "./messages";
+import {
+  MARKDOWN_PLAN_OPTIONS,
+  detectPlanFormat,
+  extractJson,
+  parseMarkdownPlan,
+  planNeeds,
+  planStages,
+  type PlanFormat,
+  type PlanTask,
+} from "./plans";
+import {
+  MAX_RESULT_LENGTH,
+  diffResultLines,
+  formatProgressLine,
+  formatResultText,
+  parseHistoryDate,
+  resultSources,
+  searchTeamResults,
+  tailLines,
+  type ResultMode,
+} from "./results";
+import {
+  DEFAULT_RETRY_BACKOFF_SECONDS,
+  MAX_RETRY_ATTEMPTS,
+  blockDependents,
+  buildRetryPolicy,
+  findCyclicDependencies,
+  getExecutableTasks,
+  newTask,
+  resetSubtree,
+  shouldRetry,
+} from "./tasks";
+import {
+  addUsage,
+  budgetExceededBy,
+  buildBudget,
+  emptyUsage,
+  formatCost,
+  formatDuration,
+  formatTokenCount,
+  formatUsage,
+  summarizeUsage,
+  teamUsage,
+  teamWallClockMs,
+  totalTokens,
+  weekStart,
+  type BudgetUsage,
+} from "./usage";
+import {
+  MAX_CONTEXT_LENGTH,
+  abortableSleep,
+  extractRoleFromDescription,
+  truncateText,
+} from "./utils";
 
 const z = tool.schema;
 
@@ -11,19 +129,87 @@ const z = tool.schema;
 // TYPES
 // ============================================================================
 
-type AgentStatus = "idle" | "thinking" | "responding" | "completed" | "error";
-type TaskStatus = "pending" | "in_progress" | "completed" | "blocked" | "error";
+type AgentStatus = "idle" | "thinking" | "responding" | "completed" | "error" | "cancelled";
+export type TaskStatus = "pending" | "in_progress" | "completed" | "blocked" | "error" | "cancelled";
+export type RetryOn = "any" | "timeout";
 
-interface Agent {
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  retryOn: RetryOn;
+}
+
+// 에이전트가 task-complete로 보고한 결과
+interface TaskReport {
+  summary: string;
+  details?: string;
+  artifacts?: string[];
+  reportedBy: string;
+  reportedAt: Date;
+}
+
+// 에이전트 세션이 호출한 도구를 자기 팀/태스크로 한정하기 위한 정보
+interface SessionScope {
+  teamId: string;
+  agent: string;
+  taskId?: string;
+  handoffs: number;
+}
+
+// 실행 중인 에이전트가 shutdown-respond로 보낸 종료 요청 응답
+interface ShutdownAnswer {
+  approved: boolean;
+  reason?: string;
+}
+
+// 세션 실행에 든 토큰/비용/시간 (여러 번 실행하면 누적)
+export interface Usage {
+  input: number;
+  output: number;
+  reasoning: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+  durationMs: number;
+}
+
+// 팀 단위 한도 (미지정 항목은 무제한)
+export interface Budget {
+  maxTokens?: number;
+  maxCost?: number;
+  maxWallClockSeconds?: number;
+}
+
+// 팀의 진행 중인 실행 (동시에 여러 도구가 같은 팀을 실행하면 공유)
+interface TeamRun {
+  controller: AbortController;
+  startedAt: number;
+  active: number;
+  warned: boolean;
+}
+
+export interface UsageSummary {
+  runs: number;
+  usage: Usage;
+  wallClockMs: number;
+  errors: number;
+}
+
+export interface Agent {
   name: string;
   sessionID: string | null;
   role: string;
   status: AgentStatus;
   result?: string;
   error?: string;
+  inboxReadAt?: Date;
+  startedAt?: Date;
+  endedAt?: Date;
+  usage?: Usage;
+  findings?: Finding[]; // finding-report로 보고된 발견 사항 (태스크 실행 중이면 Task에 저장)
 }
 
-interface Task {
+export interface Task {
   id: string;
   subject: string;
   description: string;
@@ -32,12 +218,24 @@ interface Task {
   blockedBy: string[];
   blocks: string[];
   result?: string;
+  resultSummary?: string;
   error?: string;
+  includeUpstream?: boolean;
+  retry?: RetryPolicy;
+  attempts?: number;
+  blockedReason?: string;
+  key?: string; // 계획 파일의 심볼릭 키
+  createdBy?: string; // task-handoff로 만든 에이전트
+  claimable?: boolean; // 담당자 없이 task-claim을 기다리는 태스크 (자동 완료하지 않음)
+  report?: TaskReport;
+  findings?: Finding[];
   createdAt: Date;
+  startedAt?: Date;
   completedAt?: Date;
+  usage?: Usage;
 }
 
-interface Team {
+export interface Team {
   id: string;
   name: string;
   preset: string;
@@ -46,6 +244,96 @@ interface Team {
   createdAt: Date;
   task: string;
   results?: Map<string, string>;
+  timeout?: number;
+  synthesis?: Synthesis;
+  shutdownAt?: Date;
+  budget?: Budget;
+  elapsedMs?: number;
+  plan?: TeamPlan;
+  debate?: Debate;
+  findings?: boolean; // 에이전트에게 구조화된 발견 사항 보고 요청
+  revision?: number; // 마지막으로 읽거나 쓴 파일의 리비전 (다른 인스턴스의 덮어쓰기 감지)
+  archivedAt?: Date; // MAX_TEAMS를 넘어 활성 목록에서 빠진 시점 (team-history로 조회)
+  parentId?: string; // team-rerun으로 만든 팀의 원본 팀
+  git?: GitTarget; // 검토 대상 diff (스폰 시 수집, 재실행 시 그대로 사용)
+}
+
+export interface GitFile {
+  status: string; // --name-status 첫 글자 (A/M/D/R...), ? = 추적되지 않는 새 파일, paths 대상은 빈 문자열
+  path: string;
+}
+
+interface GitTarget {
+  kind: "working" | "staged" | "range" | "paths";
+  spec: string; // 사용자가 준 대상 ("working", "main...HEAD", ...)
+  paths: string[];
+  base?: string; // range: 비교한 커밋 SHA
+  head?: string;
+  files: GitFile[];
+  stat: string;
+  diffFile: string; // teamsDir 안의 diff 파일 (팀 레코드와 따로 저장, 재실행 팀은 원본 팀 파일을 공유)
+  truncated: boolean; // MAX_GIT_DIFF_LENGTH를 넘어 잘림
+  budget: number; // 에이전트 프롬프트에 넣는 diff 최대 길이
+  capturedAt: Date;
+}
+
+interface Synthesis {
+  synthesizer: string;
+  content: string;
+  sources: string[];
+  createdAt: Date;
+  usage?: Usage;
+}
+
+export type DebateVerdict = "agree" | "disagree" | "partial";
+
+export interface DebateResponse {
+  to: string;
+  verdict: DebateVerdict;
+  reason: string;
+}
+
+export interface DebateTurn {
+  agent: string;
+  round: number;
+  position: string;
+  responses: DebateResponse[];
+  text?: string;
+  error?: string;
+}
+
+export interface Debate {
+  topic: string;
+  rounds: DebateTurn[][];
+  converged: boolean;
+  moderator: string;
+  summary?: string;
+  createdAt: Date;
+  usage?: Usage; // 사회자 세션 (참가자 사용량은 각 Agent에 집계)
+}
+
+// team-plan이 만든 계획 (승인 전까지 태스크를 만들지 않음)
+interface TeamPlan {
+  planner: string;
+  goal: string;
+  tasks: PlanTask[];
+  createdAt: Date;
+  approvedAt?: Date;
+  errors?: string[]; // 검증 실패한 계획은 승인 불가
+  usage?: Usage;
+}
+
+interface PresetDefinition {
+  name: string;
+  agents: string[];
+  roles: Record<string, string>;
+  timeout?: number;
+  budget?: Budget;
+  keywords: string[];
+  devilsAdvocate: boolean;
+  findings: boolean;
+  description?: string;
+  source: string;
 }
 
 interface OpenCodeAgent {
@@ -60,10 +348,53 @@ interface ExecutionResult {
   success: boolean;
   result?: string;
   error?: string;
+  usage?: Usage;
+  skipped?: boolean;
+}
+
+// 이벤트 스트림으로 추적하는 세션 상태
+interface SessionWatch {
+  busy: boolean;
+  idle: boolean;
+  error?: string;
+  waiters: Array<() => void>;
+  partial?: string;
+  onPartial?: (text: string) => void;
+  liveUsage?: Map<string, Usage>;
+  onUsage?: () => void;
+}
+
+export interface ProgressEntry {
+  at: Date;
+  agent: string;
+  status: AgentStatus;
+  detail?: string;
+}
+
+type ProgressListener = (entry: ProgressEntry | null) => void;
+
+interface SchedulerOptions {
+  timeout: number;
+  maxConcurrency: number;
+  upstreamBudget: number;
+  summarizeUpstream: boolean;
+  scope?: Set<string>;
+  signal?: AbortSignal;
 }
 
-interface Message {
+interface TaskRunSummary {
+  completed: number;
+  failed: number;
+  blocked: number;
+  cancelled: number;
+  skipped: Task[];
+  stopReason?: string;
+  log: string;
+}
+
+export interface Message {
   type: "message" | "broadcast" | "shutdown_request" | "shutdown_response";
+  teamId: string;
   sender: string;
   recipient?: string;
   content: string;
@@ -79,13 +410,44 @@ interface Message {
 const MAX_TEAMS = 50;
 const MAX_TASKS = 200;
 const DEFAULT_TIMEOUT_MS = 90000;
-const POLL_INTERVAL_MS = 1500;
-const MAX_RESULT_LENGTH = 2000;
+const POLL_INTERVAL_MS = 5000; // 이벤트 훅이 없을 때의 폴백 폴링 간격
+const EVENT_FALLBACK_POLL_MS = 30000; // 이벤트 수신 중일 때 idle 누락 대비 확인 간격
+const RESULT_PAGE_LENGTH = 10000; // team-result 한 페이지
+const DEFAULT_HISTORY_LIMIT = 20;
+const DEFAULT_SEARCH_LIMIT = 20;
+const HISTORY_PREVIEW_LENGTH = 200;
+const DEFAULT_GIT_CONTEXT_BUDGET = 20000; // 에이전트 프롬프트당 diff 길이
+const MAX_GIT_FILES_LISTED = 200;
+const GIT_TIMEOUT_MS = 30000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+const MAX_DIFF_LINES = 20; // team-rerun 텍스트 비교에서 에이전트별로 보여주는 삭제/추가 줄 수
+const DEFAULT_DEBATE_ROUNDS = 4;
+const MAX_DEBATE_ROUNDS = 10;
 const MAX_DISCUSSION_RESULT_LENGTH = 1000;
-const MAX_CONTEXT_LENGTH = 500;
-const DEFAULT_PRESET = "review";
+const MAX_INBOX_MESSAGES = 20;
+const MAX_UPSTREAM_CONTEXT_LENGTH = 6000;
+const MIN_UPSTREAM_SHARE_LENGTH = 500;
+const MAX_SYNTHESIS_INPUT_LENGTH = 12000;
+const SHUTDOWN_TIMEOUT_SECONDS = 60;
+const LEAD_AGENT = "lead"; // 리드(오케스트레이터): 메시지 발신/수신자, 기본 종합/사회/계획 담당
 const DEFAULT_TIMEOUT_SECONDS = 120;
-const TEAMS_DIR = path.join(os.homedir(), ".opencode", "teams");
+const DEFAULT_MAX_CONCURRENCY = 4;
+const LEGACY_TEAMS_DIR = path.join(os.homedir(), ".opencode", "teams");
+const DEFAULT_STORAGE_DIR = path.join(".opencode", "squad"); // 워크트리 기준
+const STORAGE_BACKENDS: StorageBackend[] = ["fs", "sqlite", "memory"];
+const SQLITE_FILE = "teams.db";
+const USER_PRESETS_DIR = path.join(os.homedir(), ".opencode", "squad", "presets");
+const MIN_DETECTION_MARGIN = 0.25; // 1위와 2위 점수 차이 비율이 이보다 작으면 분류기 호출
+const CLASSIFIER_TIMEOUT_SECONDS = 30;
+const PLANNER_AGENT = "planner";
+const MAX_HANDOFFS_PER_SESSION = 10; // 에이전트가 작업을 끝없이 만들어내지 않도록
+const PLANNER_MAX_ATTEMPTS = 2; // 형식/검증 오류 시 오류를 알려주고 한 번 더 요청
+const PROGRESS_UPDATE_INTERVAL_MS = 1000; // 부분 응답으로 인한 metadata 갱신 최소 간격
+const PROGRESS_TAIL_LINES = 10;
+const MAX_PARTIAL_PREVIEW_LENGTH = 200;
+const BUDGET_CHECK_INTERVAL_MS = 2000; // 벽시계 한도 확인 간격 (토큰/비용은 이벤트마다 확인)
+const BUDGET_WARNING_RATIO = 0.8;
+const BUDGET_EXCEEDED_PREFIX = "Budget exceeded";
 
 // ============================================================================
 // DEVIL'S ADVOCATE PROMPT
@@ -113,163 +475,338 @@ const DEVILS_ADVOCATE_PROMPT = `
 반드시 비판적이어야 합니다. 무조건적인 승인은 금지입니다.
 `;
 
-// Devil's Advocate 이름 매칭 (여러 변형 지원)
-const DEVILS_ADVOCATE_NAMES = [
-  "devil-s-advocate",
-  "devils-advocate",
-  "devil_advocate",
-  "devilsadvocate",
-  "devil-sadvocate"
-];
-
-function isDevilsAdvocate(agentName: string): boolean {
-  const normalized = agentName.toLowerCase().replace(/[_-]/g, "");
-  return DEVILS_ADVOCATE_NAMES.some(
-    name => normalized === name.replace(/[_-]/g, "")
-  );
-}
-
 // ============================================================================
 // GLOBAL STATE
 // ============================================================================
 
 let globalClient: OpencodeClient | null = null;
 let opencodeConfig: Record<string, OpenCodeAgent> = {};
-const teams = new Map<string, Team>();
-const messageQueue = new Map<string, Message[]>();
+let presetRegistry = new Map<string, PresetDefinition>();
+let presetErrors: string[] = [];
+let classifierAgent: string | null = null;
+const sessionWatches = new Map<string, SessionWatch>();
+const teamRuns = new Map<string, TeamRun>();
+const progressListeners = new Map<string, Set<ProgressListener>>();
+const sessionScopes = new Map<string, SessionScope>();
+const shutdownWaiters = new Map<string, (answer: ShutdownAnswer) => void>(); // 세션 ID → 종료 요청 응답 대기
+const schedulerWakers = new Map<string, Set<(task: Task) => void>>();
+const gitDiffs = new Map<string, string>(); // diff 파일 이름 → 내용
+let storageDirConfig: string | null = null; // opencode.json의 squad.storageDir
+let storageBackendConfig: StorageBackend = "fs"; // opencode.json의 squad.storage
+let teamsDir = path.join(process.cwd(), DEFAULT_STORAGE_DIR, "teams"); // 팀 파일, 진행 로그, 결과 파일
+const teamMessages: MessageLog = { list: getTeamMessages, add: sendMessage };
+let teamStore: TeamStore = createTeamStore("memory", createMemoryRecords(), teamMessages); // configureStorage 전까지
 
 // ============================================================================
 // PERSISTENCE
 // ============================================================================
 
-function ensureTeamsDir(): void {
-  if (!fs.existsSync(TEAMS_DIR)) {
-    fs.mkdirSync(TEAMS_DIR, { recursive: true });
+// 팀은 프로젝트별로 저장: squad.storageDir (워크트리 기준 상대 경로 가능) 또는 {worktree}/.opencode/squad
+// squad.storage로 백엔드 선택: fs (팀마다 JSON 파일), sqlite ({storageDir}/teams.db), memory (저장 안 함)
+function configureStorage(root: string): void {
+  const storageDir = path.resolve(root, storageDirConfig ?? DEFAULT_STORAGE_DIR);
+  teamsDir = path.join(storageDir, "teams");
+
+  if (storageBackendConfig === "fs" && !fs.existsSync(teamsDir) && fs.existsSync(LEGACY_TEAMS_DIR)) {
+    console.warn(`[squad] Teams are now stored per project in ${teamsDir}; teams in ${LEGACY_TEAMS_DIR} are no longer loaded`);
   }
-}
 
-function saveTeam(team: Team): void {
   try {
-    ensureTeamsDir();
-    const teamPath = path.join(TEAMS_DIR, `${team.id}.json`);
-    const serialized = {
-      id: team.id,
-      name: team.name,
-      preset: team.preset,
-      task: team.task,
-      createdAt: team.createdAt.toISOString(),
-      agents: Array.from(team.agents.entries()).map(([name, agent]) => ({
-        name,
-        role: agent.role,
-        status: agent.status,
-        result: agent.result,
-        error: agent.error
-      })),
-      tasks: Array.from(team.tasks.entries()).map(([id, task]) => ({
-        id,
-        subject: task.subject,
-        description: task.description,
-        status: task.status,
-        owner: task.owner,
-        blockedBy: task.blockedBy,
-        blocks: task.blocks,
-        result: task.result,
-        error: task.error,
-        createdAt: task.createdAt.toISOString(),
-        completedAt: task.completedAt?.toISOString()
-      }))
-    };
-    fs.writeFileSync(teamPath, JSON.stringify(serialized, null, 2));
+    if (storageBackendConfig === "sqlite") ensureTeamsDir(); // 진행 로그/결과 파일 디렉터리와 .gitignore
+    teamStore = storageBackendConfig === "sqlite"
+      ? createTeamStore("sqlite", createSqliteRecords(path.join(storageDir, SQLITE_FILE)), teamMessages)
+      : storageBackendConfig === "memory"
+        ? createTeamStore("memory", createMemoryRecords(), teamMessages)
+        : createTeamStore("fs", createFileRecords(teamsDir), teamMessages);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.warn(`[squad] Failed to save team: ${errorMessage}`);
+    console.warn(`[squad] Failed to open ${storageBackendConfig} storage, falling back to fs: ${errorMessage}`);
+    teamStore = createTeamStore("fs", createFileRecords(teamsDir), teamMessages);
   }
 }
 
-function loadTeam(teamId: string): Team | null {
-  try {
-    const teamPath = path.join(TEAMS_DIR, `${teamId}.json`);
-    if (!fs.existsSync(teamPath)) return null;
+function ensureTeamsDir(): void {
+  ensureStorageDir(teamsDir);
+}
 
-    const data = JSON.parse(fs.readFileSync(teamPath, "utf-8"));
-    const team: Team = {
-      id: data.id,
-      name: data.name,
-      preset: data.preset,
-      task: data.task,
-      createdAt: new Date(data.createdAt),
-      agents: new Map(),
-      tasks: new Map()
-    };
+// ============================================================================
+// MESSAGE PROTOCOL
+// ============================================================================
 
-    for (const agent of data.agents || []) {
-      team.agents.set(agent.name, {
-        name: agent.name,
-        sessionID: null,
-        role: agent.role,
-        status: agent.status,
-        result: agent.result,
-        error: agent.error
-      });
-    }
+function getTeamMessages(teamId: string): Message[] {
+  const prefix = `${teamId}:`;
+  return Array.from(messageQueue.entries())
+    .filter(([key]) => key.startsWith(prefix))
+    .flatMap(([, queue]) => queue)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
 
-    for (const task of data.tasks || []) {
-      team.tasks.set(task.id, {
-        id: task.id,
-        subject: task.subject,
-        description: task.description,
-        status: task.status,
-        owner: task.owner,
-        blockedBy: task.blockedBy || [],
-        blocks: task.blocks || [],
-        result: task.result,
-        error: task.error,
-        createdAt: new Date(task.createdAt),
-        completedAt: task.completedAt ? new Date(task.completedAt) : undefined
-      });
+function clearTeamMessages(teamId: string): void {
+  const prefix = `${teamId}:`;
+  for (const key of Array.from(messageQueue.keys())) {
+    if (key.startsWith(prefix)) {
+      messageQueue.delete(key);
     }
+  }
+}
 
-    return team;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.warn(`[squad] Failed to load team: ${errorMessage}`);
-    return null;
+// 읽지 않은 일반/브로드캐스트 메시지를 오래된 순으로 최대 MAX_INBOX_MESSAGES개 주입하고,
+// 주입한 메시지까지만 읽음 처리 (나머지는 다음 실행에서 전달)
+function injectInbox(team: Team, name: string, agent: Agent, prompt: string): string {
+  const pending = getMessages(team.id, name, agent.inboxReadAt)
+    .filter(m => m.type === "message" || m.type === "broadcast");
+  if (pending.length === 0) return prompt;
+
+  let delivered = pending.slice(0, MAX_INBOX_MESSAGES);
+  // 읽음 표시는 시각 기준이므로 경계의 같은 시각 메시지는 함께 미루거나 (전부 같은 시각이면) 함께 전달
+  const next = pending[delivered.length];
+  if (next && delivered[delivered.length - 1].timestamp >= next.timestamp) {
+    const before = delivered.filter(m => m.timestamp < next.timestamp);
+    delivered = before.length > 0 ? before : pending.filter(m => m.timestamp <= next.timestamp);
+  }
+  agent.inboxReadAt = delivered[delivered.length - 1].timestamp;
+
+  const lines = delivered.map(m => {
+    const scope = m.type === "broadcast" ? "broadcast" : "direct";
+    return `- [${scope}] ${m.sender}: ${truncateText(m.content, MAX_CONTEXT_LENGTH)}`;
+  });
+  const remaining = pending.length - delivered.length;
+  if (remaining > 0) {
+    lines.push(`- (${remaining}개의 메시지가 더 있으며 다음 실행에서 전달됩니다)`);
   }
+
+  return `${prompt}\n\n## 받은 메시지 (${delivered.length}/${pending.length})\n${lines.join("\n")}`;
 }
 
 // ============================================================================
-// MESSAGE PROTOCOL
+// UTILITY FUNCTIONS
 // ============================================================================
 
-function sendMessage(message: Message): void {
-  const key = message.recipient || "broadcast";
-  const queue = messageQueue.get(key) || [];
-  queue.push(message);
-  messageQueue.set(key, queue);
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+
+const CANCELLED_MESSAGE = "Cancelled";
+
+// 취소 사유 (예산 초과 등 문자열 사유가 없으면 일반 취소)
+const abortReason = (signal?: AbortSignal): string =>
+  typeof signal?.reason === "string" ? signal.reason : CANCELLED_MESSAGE;
+
+function cancelTeamRuns(teamId: string, reason: string = CANCELLED_MESSAGE): boolean {
+  const run = teamRuns.get(teamId);
+  if (!run || run.controller.signal.aborted) return false;
+  run.controller.abort(reason);
+  return true;
 }
 
-function getMessages(recipient: string, since?: Date): Message[] {
-  const queue = messageQueue.get(recipient) || [];
-  const broadcast = messageQueue.get("broadcast") || [];
-  const all = [...queue, ...broadcast];
-  if (since) {
-    return all.filter(m => m.timestamp > since);
+// 팀 실행 구간: 팀 단위 취소 신호와 도구 호출의 abort 신호를 결합하고,
+// 예산 감시·벽시계 누적·진행 상황 보고를 실행이 끝날 때까지 유지
+async function withTeamRun<T>(
+  team: Team,
+  context: ToolContext,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  let current = teamRuns.get(team.id);
+  if (!current || current.controller.signal.aborted) {
+    current = { controller: new AbortController(), startedAt: Date.now(), active: 0, warned: false };
+    teamRuns.set(team.id, current);
+  }
+  current.active++;
+
+  const record = current;
+  const guard = team.budget ? setInterval(() => enforceBudget(team), BUDGET_CHECK_INTERVAL_MS) : undefined;
+  const signal = AbortSignal.any([record.controller.signal, context.abort]);
+
+  try {
+    return await withProgress(team, context, () => run(signal));
+  } finally {
+    clearInterval(guard);
+    record.active--;
+    if (record.active === 0) {
+      team.elapsedMs = (team.elapsedMs ?? 0) + (Date.now() - record.startedAt);
+      if (teamRuns.get(team.id) === record) teamRuns.delete(team.id);
+      teamStore.save(team);
+      writeResultsFile(team);
+    }
   }
-  return all;
 }
 
 // ============================================================================
-// UTILITY FUNCTIONS
+// BUDGET
 // ============================================================================
 
-const sleep = (ms: number): Promise<void> =>
-  new Promise(resolve => setTimeout(resolve, ms));
+// 실행 중인 세션이 지금까지 쓴 토큰/비용 (message.updated 이벤트 기준)
+function liveUsage(team: Team): Usage {
+  let usage = emptyUsage();
+  for (const agent of team.agents.values()) {
+    if (agent.status !== "thinking" && agent.status !== "responding") continue;
+    const watch = agent.sessionID ? sessionWatches.get(agent.sessionID) : undefined;
+    for (const messageUsage of watch?.liveUsage?.values() ?? []) {
+      usage = addUsage(usage, messageUsage);
+    }
+  }
+  return usage;
+}
+
+function budgetUsed(team: Team): BudgetUsage {
+  const usage = addUsage(teamUsage(team), liveUsage(team));
+  const run = teamRuns.get(team.id);
+  return {
+    tokens: totalTokens(usage),
+    cost: usage.cost,
+    wallClockMs: (team.elapsedMs ?? 0) + (run ? Date.now() - run.startedAt : 0),
+  };
+}
+
+// 한도의 ratio 이상 사용한 항목 설명 (없으면 null)
+function budgetExceeded(team: Team, ratio: number = 1): string | null {
+  return team.budget ? budgetExceededBy(team.budget, budgetUsed(team), ratio) : null;
+}
+
+// 한도 초과 시 진행 중인 실행을 중단 (초과 여부 반환), 경고 비율 도달 시 한 번 알림
+function enforceBudget(team: Team): boolean {
+  if (!team.budget) return false;
+
+  const run = teamRuns.get(team.id);
+  const exceeded = budgetExceeded(team);
+  if (exceeded) {
+    if (run && !run.controller.signal.aborted) {
+      console.warn(`[squad] ${team.id}: ${BUDGET_EXCEEDED_PREFIX} (${exceeded})`);
+      showToast(`${team.name}: ${BUDGET_EXCEEDED_PREFIX} (${exceeded}), cancelling`, "error");
+      run.controller.abort(`${BUDGET_EXCEEDED_PREFIX}: ${exceeded}`);
+    }
+    return true;
+  }
+
+  if (run && !run.warned) {
+    const warning = budgetExceeded(team, BUDGET_WARNING_RATIO);
+    if (warning) {
+      run.warned = true;
+      showToast(`${team.name}: ${Math.round(BUDGET_WARNING_RATIO * 100)}% of budget used (${warning})`, "warning");
+    }
+  }
+  return false;
+}
+
+function formatBudget(team: Team): string {
+  const budget = team.budget;
+  if (!budget) return "";
+
+  const used = budgetUsed(team);
+  let r = "";
+  if (budget.maxTokens !== undefined) {
+    r += `- Tokens: ${formatTokenCount(used.tokens)} / ${formatTokenCount(budget.maxTokens)}\n`;
+  }
+  if (budget.maxCost !== undefined) {
+    r += `- Cost: ${formatCost(used.cost)} / ${formatCost(budget.maxCost)}\n`;
+  }
+  if (budget.maxWallClockSeconds !== undefined) {
+    r += `- Wall-clock: ${formatDuration(used.wallClockMs)} / ${budget.maxWallClockSeconds}s\n`;
+  }
+  return r;
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+const progressLogPath = (teamId: string): string =>
+  path.join(teamsDir, `${teamId}.progress.log`);
+
+const TOAST_VARIANTS: Partial<Record<AgentStatus, "success" | "error" | "warning">> = {
+  completed: "success",
+  error: "error",
+  cancelled: "warning",
+};
+
+function showToast(message: string, variant: "info" | "success" | "warning" | "error"): void {
+  // TUI가 없는 환경(serve/run)에서는 실패하므로 무시
+  globalClient?.tui
+    .showToast({ body: { title: "squad", message, variant } })
+    .catch(() => undefined);
+}
+
+// 상태 전환을 진행 로그에 기록하고 구독 중인 도구 호출과 TUI에 알림
+function reportProgress(team: Team, entry: ProgressEntry): void {
+  try {
+    ensureTeamsDir();
+    fs.appendFileSync(progressLogPath(team.id), `${formatProgressLine(entry)}\n`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Failed to write progress for ${team.id}: ${errorMessage}`);
+  }
+
+  for (const listener of progressListeners.get(team.id) ?? []) listener(entry);
+
+  const variant = TOAST_VARIANTS[entry.status];
+  if (variant) {
+    const done = Array.from(team.agents.values()).filter(a => a.status === "completed").length;
+    showToast(`${team.name}: ${entry.agent} ${entry.status} (${done}/${team.agents.size})`, variant);
+  }
+}
+
+function setAgentStatus(team: Team, name: string, agent: Agent, status: AgentStatus, detail?: string): void {
+  agent.status = status;
+  teamStore.save(team);
+  reportProgress(team, { at: new Date(), agent: name, status, detail });
+}
+
+// 세션의 부분 응답을 구독자에게 전달 (로그에는 기록하지 않음)하고 토큰 사용 변화마다 예산 확인
+function trackSession(team: Team, sessionID: string): void {
+  const watch = watchSession(sessionID);
+  watch.onPartial = () => {
+    for (const listener of progressListeners.get(team.id) ?? []) listener(null);
+  };
+  watch.onUsage = () => enforceBudget(team);
+}
+
+function readProgressTail(teamId: string, lines: number = PROGRESS_TAIL_LINES): string[] {
+  try {
+    return tailLines(fs.readFileSync(progressLogPath(teamId), "utf-8"), lines);
+  } catch {
+    return [];
+  }
+}
+
+function partialPreview(agent: Agent): string | undefined {
+  const partial = agent.sessionID ? sessionWatches.get(agent.sessionID)?.partial : undefined;
+  return partial ? truncateText(partial.trim().replace(/\s+/g, " "), MAX_PARTIAL_PREVIEW_LENGTH) : undefined;
+}
 
-const truncateText = (text: string, maxLength: number): string =>
-  text.length > maxLength ? text.slice(0, maxLength) + "..." : text;
+// 실행 중 도구 호출의 metadata(title + 에이전트별 상태/부분 응답)를 갱신
+async function withProgress<T>(team: Team, context: ToolContext, run: () => Promise<T>): Promise<T> {
+  let lastUpdate = 0;
+  const listener: ProgressListener = entry => {
+    // 부분 응답은 간격을 두고, 상태 전환은 즉시 반영
+    if (!entry && Date.now() - lastUpdate < PROGRESS_UPDATE_INTERVAL_MS) return;
+    lastUpdate = Date.now();
+
+    const agents = Array.from(team.agents.entries()).map(([name, agent]) => ({
+      name,
+      status: agent.status,
+      partial: partialPreview(agent),
+    }));
+    const done = agents.filter(a => a.status === "completed").length;
+    context.metadata({
+      title: `${team.name}: ${done}/${agents.length} completed${entry ? ` (${entry.agent} ${entry.status})` : ""}`,
+      metadata: { teamId: team.id, agents },
+    });
+  };
+
+  let listeners = progressListeners.get(team.id);
+  if (!listeners) {
+    listeners = new Set();
+    progressListeners.set(team.id, listeners);
+  }
+  listeners.add(listener);
 
-const extractRoleFromDescription = (description: string | undefined, fallback: string): string =>
-  description?.split(".")[0] ?? fallback;
+  try {
+    return await run();
+  } finally {
+    listeners.delete(listener);
+    if (listeners.size === 0) progressListeners.delete(team.id);
+  }
+}
 
 // ============================================================================
 // OPENCODE CLIENT & CONFIG
@@ -281,10 +818,18 @@ function loadOpenCodeAgents(): Record<string, OpenCodeAgent> {
     const configContent = fs.readFileSync(configPath, "utf-8");
     const config = JSON.parse(configContent);
     opencodeConfig = config.agent ?? {};
+    classifierAgent = typeof config.squad?.classifierAgent === "string" ? config.squad.classifierAgent : null;
+    storageBackendConfig = STORAGE_BACKENDS.includes(config.squad?.storage) ? config.squad.storage : "fs";
+    if (config.squad?.storage !== undefined && storageBackendConfig !== config.squad.storage) {
+      console.warn(`[squad] Unknown squad.storage "${config.squad.storage}", using fs (expected ${STORAGE_BACKENDS.join(", ")})`);
+    }
+    storageDirConfig = typeof config.squad?.storageDir === "string" ? config.squad.storageDir : null;
+    loadPresets(config.squad?.presets);
     return opencodeConfig;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.warn(`[squad] Failed to load opencode.json: ${errorMessage}`);
+    loadPresets(undefined);
     return {};
   }
 }
@@ -293,8 +838,9 @@ function loadOpenCodeAgents(): Record<string, OpenCodeAgent> {
 // REAL AGENT EXECUTION
 // ============================================================================
 
+// agentName이 null이면 에이전트 지정 없이 기본(리드) 모델로 실행
 async function spawnAgentSession(
-  agentName: string,
+  agentName: string | null,
   task: string
 ): Promise<{ sessionID: string; agent: OpenCodeAgent | undefined }> {
   if (!globalClient) {
@@ -308,10 +854,10 @@ async function spawnAgentSession(
     throw new Error("Failed to create session: no session ID returned");
   }
 
-  const agentConfig = opencodeConfig[agentName];
+  const agentConfig = agentName ? opencodeConfig[agentName] : undefined;
 
   // Devil's Advocate면 강제 프롬프트 적용
-  const isDA = isDevilsAdvocate(agentName);
+  const isDA = agentName ? isDevilsAdvocate(agentName) : false;
   const basePrompt = agentConfig?.prompt_append || "";
   const effectiveSystemPrompt = isDA
     ? basePrompt + "\n\n" + DEVILS_ADVOCATE_PROMPT
@@ -319,14 +865,17 @@ async function spawnAgentSession(
 
   const promptBody: {
     parts: Array<{ type: "text"; text: string }>;
-    agent: string;
+    agent?: string;
     system?: string;
     model?: { providerID: string; modelID: string };
   } = {
     parts: [{ type: "text" as const, text: task }],
-    agent: agentName,
   };
 
+  if (agentName) {
+    promptBody.agent = agentName;
+  }
+
   if (effectiveSystemPrompt) {
     promptBody.system = effectiveSystemPrompt;
   }
@@ -340,7 +889,10 @@ async function spawnAgentSession(
     }
   }
 
-  await globalClient.session.prompt({
+  // 이벤트를 놓치지 않도록 프롬프트 전송 전에 감시 등록
+  watchSession(sessionID);
+
+  await globalClient.session.promptAsync({
     path: { id: sessionID },
     body: promptBody,
   });
@@ -348,50 +900,175 @@ async function spawnAgentSession(
   return { sessionID, agent: agentConfig };
 }
 
+// ============================================================================
+// SESSION EVENTS
+// ============================================================================
+
+function watchSession(sessionID: string): SessionWatch {
+  let watch = sessionWatches.get(sessionID);
+  if (!watch) {
+    watch = { busy: false, idle: false, waiters: [] };
+    sessionWatches.set(sessionID, watch);
+  }
+  return watch;
+}
+
+function notifyWatch(watch: SessionWatch): void {
+  const waiters = watch.waiters;
+  watch.waiters = [];
+  for (const wake of waiters) wake();
+}
+
+// 플러그인 event 훅에서 호출: 추적 중인 세션의 idle/error만 반영
+function handleSessionEvent(event: OpencodeEvent): void {
+  switch (event.type) {
+    case "session.status": {
+      const watch = sessionWatches.get(event.properties.sessionID);
+      if (!watch) return;
+      if (event.properties.status.type === "idle") {
+        watch.idle = true;
+        notifyWatch(watch);
+      } else {
+        watch.busy = true;
+        watch.idle = false;
+      }
+      return;
+    }
+    case "session.idle": {
+      const watch = sessionWatches.get(event.properties.sessionID);
+      if (!watch) return;
+      watch.idle = true;
+      notifyWatch(watch);
+      return;
+    }
+    case "message.updated": {
+      const info = event.properties.info;
+      const watch = sessionWatches.get(info.sessionID);
+      if (!watch || info.role !== "assistant") return;
+      watch.liveUsage ??= new Map();
+      watch.liveUsage.set(info.id, {
+        input: info.tokens.input,
+        output: info.tokens.output,
+        reasoning: info.tokens.reasoning,
+        cacheRead: info.tokens.cache.read,
+        cacheWrite: info.tokens.cache.write,
+        cost: info.cost,
+        durationMs: 0,
+      });
+      watch.onUsage?.();
+      return;
+    }
+    case "message.part.updated": {
+      const part = event.properties.part;
+      const watch = sessionWatches.get(part.sessionID);
+      if (!watch || !isTextPart(part)) return;
+      watch.partial = part.text;
+      watch.onPartial?.(part.text);
+      return;
+    }
+    case "session.error": {
+      const sessionID = event.properties.sessionID;
+      const watch = sessionID ? sessionWatches.get(sessionID) : undefined;
+      if (!watch) return;
+      const error = event.properties.error;
+      const detail = error && "data" in error && error.data && "message" in error.data
+        ? String(error.data.message)
+        : undefined;
+      watch.error = detail ?? error?.name ?? "Unknown session error";
+      notifyWatch(watch);
+      return;
+    }
+  }
+}
+
+// 이벤트 또는 폴백 간격 중 먼저 오는 쪽까지 대기
+function waitForSessionSignal(watch: SessionWatch, ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      watch.waiters = watch.waiters.filter(w => w !== wake);
+      wake();
+    };
+    const timer = setTimeout(onAbort, ms);
+    watch.waiters.push(wake);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// 마지막 user 메시지 이후의 assistant 메시지들 = 최종 턴
+async function fetchFinalAssistantTurn(
+  sessionID: string
+): Promise<{ text: string; complete: boolean } | null> {
+  const messages = await globalClient!.session.messages({
+    path: { id: sessionID },
+  });
+  return messages.data ? finalAssistantTurn(messages.data) : null;
+}
+
+async function isSessionBusy(sessionID: string): Promise<boolean> {
+  const response = await globalClient!.session.status({});
+  const status = response.data?.[sessionID];
+  return status !== undefined && status.type !== "idle";
+}
+
 async function waitForSessionCompletion(
   sessionID: string,
-  timeout: number = DEFAULT_TIMEOUT_MS
+  timeout: number = DEFAULT_TIMEOUT_MS,
+  signal?: AbortSignal
 ): Promise<string> {
   const startTime = Date.now();
+  const watch = watchSession(sessionID);
+  let lastPoll = 0;
   let lastError: Error | null = null;
   let consecutiveErrors = 0;
 
-  // TextPart 타입 가드
-  const isTextPart = (p: Part): p is Part & { type: "text"; text: string } =>
-    p.type === "text" && "text" in p;
-
-  while (Date.now() - startTime < timeout) {
-    try {
-      const messages = await globalClient!.session.messages({
-        path: { id: sessionID },
-      });
-
-      if (messages.data) {
-        const assistantMessages = messages.data.filter(
-          (m) => m.info.role === "assistant"
-        );
-
-        if (assistantMessages.length > 0) {
-          const lastMessage = assistantMessages[assistantMessages.length - 1];
-          const textParts = (lastMessage.parts ?? []).filter(isTextPart);
-          consecutiveErrors = 0;
-          return textParts.map((p) => p.text).join("\n");
-        }
+  try {
+    while (Date.now() - startTime < timeout) {
+      if (signal?.aborted) {
+        // 폴링만 멈추지 않고 OpenCode 세션 자체를 중단
+        await abortSession(sessionID);
+        throw new Error(abortReason(signal));
       }
 
-      await sleep(POLL_INTERVAL_MS);
-    } catch (error) {
-      consecutiveErrors++;
-      lastError = error instanceof Error ? error : new Error(String(error));
+      if (watch.error) {
+        throw new Error(`Session error: ${watch.error}`);
+      }
 
-      if (consecutiveErrors >= 5) {
-        throw new Error(
-          `Session failed after 5 consecutive errors: ${lastError.message}`
-        );
+      try {
+        if (watch.idle) {
+          // idle 이벤트 수신: 최종 턴 한 번만 조회
+          const turn = await fetchFinalAssistantTurn(sessionID);
+          if (turn) return turn.text;
+          watch.idle = false;
+        } else if (Date.now() - lastPoll >= (watch.busy ? EVENT_FALLBACK_POLL_MS : POLL_INTERVAL_MS)) {
+          // 폴백: 이벤트가 오지 않거나 누락된 경우 idle 여부를 직접 확인
+          lastPoll = Date.now();
+          const turn = await fetchFinalAssistantTurn(sessionID);
+          if (turn?.complete && !(await isSessionBusy(sessionID))) {
+            return turn.text;
+          }
+        }
+        consecutiveErrors = 0;
+      } catch (error) {
+        consecutiveErrors++;
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (consecutiveErrors >= 5) {
+          throw new Error(
+            `Session failed after 5 consecutive errors: ${lastError.message}`
+          );
+        }
       }
 
-      await sleep(POLL_INTERVAL_MS);
+      const remaining = timeout - (Date.now() - startTime);
+      await waitForSessionSignal(watch, Math.max(0, Math.min(POLL_INTERVAL_MS, remaining)), signal);
     }
+  } finally {
+    sessionWatches.delete(sessionID);
   }
 
   throw new Error(
@@ -399,7 +1076,30 @@ async function waitForSessionCompletion(
   );
 }
 
+async function sessionExists(sessionID: string): Promise<boolean> {
+  if (!globalClient) return false;
+
+  try {
+    const response = await globalClient.session.get({ path: { id: sessionID } });
+    return Boolean(response.data?.id);
+  } catch {
+    return false;
+  }
+}
+
+async function abortSession(sessionID: string): Promise<void> {
+  if (!globalClient) return;
+
+  try {
+    await globalClient.session.abort({ path: { id: sessionID } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Failed to abort session ${sessionID}: ${errorMessage}`);
+  }
+}
+
 async function cleanupSession(sessionID: string): Promise<void> {
+  sessionWatches.delete(sessionID);
   if (!globalClient) return;
 
   try {
@@ -410,27 +1110,352 @@ async function cleanupSession(sessionID: string): Promise<void> {
   }
 }
 
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+const resultsFilePath = (teamId: string): string =>
+  path.join(teamsDir, `${teamId}.results.md`);
+
+// 팀의 모든 결과를 자르지 않고 하나의 마크다운 문서로
+function renderResultsMarkdown(team: Team): string {
+  let doc = `# ${team.name} (${team.id})\n\n`;
+  doc += `**Preset**: ${team.preset}\n\n`;
+  doc += `## Task\n\n${team.task}\n`;
+
+  const agents = Array.from(team.agents.values()).filter(a => a.result || a.error);
+  if (agents.length > 0) {
+    doc += `\n## Agents\n`;
+    for (const agent of agents) {
+      doc += `\n### ${agent.name} (${agent.role}) - ${agent.status}\n\n`;
+      doc += agent.result ? `${agent.result.trim()}\n` : `**Error**: ${agent.error}\n`;
+    }
+  }
+
+  const tasks = Array.from(team.tasks.values()).filter(t => t.result || t.error);
+  if (tasks.length > 0) {
+    doc += `\n## Tasks\n`;
+    for (const task of tasks) {
+      doc += `\n### ${task.subject} (${task.key ?? task.id}) - ${task.status}${task.owner ? `, ${task.owner}` : ""}\n\n`;
+      doc += task.result ? `${task.result.trim()}\n` : `**Error**: ${task.error}\n`;
+    }
+  }
+
+  if (team.synthesis) {
+    doc += `\n## Synthesis (${team.synthesis.synthesizer})\n\n${team.synthesis.content.trim()}\n`;
+  }
+
+  if (team.debate) {
+    doc += `\n## Debate: ${team.debate.topic}\n`;
+    team.debate.rounds.forEach((turns, index) => {
+      doc += `\n### Round ${index + 1}\n\n${formatDebateRound(turns)}`;
+    });
+    doc += `\n**Converged**: ${team.debate.converged ? "yes" : "no"}\n`;
+    if (team.debate.summary) {
+      doc += `\n### Moderator Summary (${team.debate.moderator})\n\n${team.debate.summary.trim()}\n`;
+    }
+  }
+
+  const findings = teamFindings(team);
+  if (findings.length > 0) {
+    doc += `\n## Findings (${findings.length})\n\n${formatFindingsTable(findings)}\n${formatFindingDetails(findings)}`;
+  }
+
+  return doc;
+}
+
+function writeResultsFile(team: Team): void {
+  try {
+    ensureTeamsDir();
+    writeFileAtomic(resultsFilePath(team.id), renderResultsMarkdown(team));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Failed to write results file: ${errorMessage}`);
+  }
+}
+
+// ============================================================================
+// USAGE ACCOUNTING
+// ============================================================================
+
+// 세션의 모든 assistant 메시지에 기록된 토큰/비용 합계
+async function fetchSessionUsage(sessionID: string, startedAt: number): Promise<Usage> {
+  const usage = emptyUsage();
+  usage.durationMs = Date.now() - startedAt;
+  if (!globalClient) return usage;
+
+  try {
+    const messages = await globalClient.session.messages({ path: { id: sessionID } });
+    for (const { info } of messages.data ?? []) {
+      if (info.role !== "assistant") continue;
+      usage.input += info.tokens.input;
+      usage.output += info.tokens.output;
+      usage.reasoning += info.tokens.reasoning;
+      usage.cacheRead += info.tokens.cache.read;
+      usage.cacheWrite += info.tokens.cache.write;
+      usage.cost += info.cost;
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Failed to read usage for ${sessionID}: ${errorMessage}`);
+  }
+
+  return usage;
+}
+
+// 에이전트 실행 종료 시 사용량을 누적하고 종료 시각 기록
+async function recordAgentUsage(agent: Agent, sessionID: string | null, startedAt: number): Promise<Usage> {
+  const usage = sessionID
+    ? await fetchSessionUsage(sessionID, startedAt)
+    : { ...emptyUsage(), durationMs: Date.now() - startedAt };
+  agent.usage = addUsage(agent.usage, usage);
+  agent.endedAt = new Date();
+  return usage;
+}
+
 // ============================================================================
 // TEAM MANAGEMENT
 // ============================================================================
 
 function enforceMaxTeams(): void {
-  if (teams.size <= MAX_TEAMS) return;
+  const active = teamStore.list();
+  if (active.length <= MAX_TEAMS) return;
 
-  const entries = Array.from(teams.entries());
-  entries.sort((a, b) => a[1].createdAt.getTime() - b[1].createdAt.getTime());
+  active.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
 
-  const toRemove = entries.slice(0, teams.size - MAX_TEAMS);
-  for (const [id, team] of toRemove) {
+  // 오래된 팀은 버리지 않고 보관: 재시작 시 복원하지 않고 team-history로 조회
+  // 실행 중인 팀은 건너뜀 (실행이 끝난 뒤 다음 정리 때 보관)
+  const idle = active.filter(team => !teamRuns.has(team.id));
+  const toArchive = idle.slice(0, active.length - MAX_TEAMS);
+  for (const team of toArchive) {
     for (const agent of team.agents.values()) {
       if (agent.sessionID) {
         cleanupSession(agent.sessionID).catch(() => {});
       }
     }
-    teams.delete(id);
+    team.archivedAt = new Date();
+    teamStore.save(team);
+    teamStore.release(team.id);
+    clearTeamMessages(team.id);
+    console.warn(`[squad] Archived team ${team.name} (${team.id}): more than ${MAX_TEAMS} active teams`);
   }
 }
 
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+// team-history/team-search 인자 → HistoryFilter (잘못된 날짜는 오류 문자열)
+function historyFilterArgs(args: { preset?: string; name?: string; since?: string; until?: string }): HistoryFilter | string {
+  const filter: HistoryFilter = { preset: args.preset, name: args.name };
+  for (const key of ["since", "until"] as const) {
+    const value = args[key];
+    if (!value) continue;
+    const date = parseHistoryDate(value);
+    if (!date) {
+      return `Error: Invalid ${key} "${value}" (use an ISO date or a period like 12h, 30d, 4w)`;
+    }
+    filter[key] = date;
+  }
+  return filter;
+}
+
+function teamHistoryStatus(team: Team): string {
+  if (teamStore.get(team.id)) return "active";
+  if (team.archivedAt) return "archived";
+  if (team.shutdownAt) return "shut down";
+  return "inactive";
+}
+
+// team-history teamId=...: 저장된 팀의 읽기 전용 개요
+function formatPastTeam(team: Team): string {
+  const status = teamHistoryStatus(team);
+  const statusAt = team.archivedAt ?? team.shutdownAt;
+
+  let r = `## ${team.name} (read-only)\n\n`;
+  r += `**Team ID**: ${team.id}\n`;
+  r += `**Preset**: ${team.preset}\n`;
+  r += `**Task**: ${team.task}\n`;
+  r += `**Created**: ${team.createdAt.toISOString()}\n`;
+  r += `**Status**: ${status}${statusAt && status !== "active" ? ` at ${statusAt.toISOString()}` : ""}\n`;
+  if (team.parentId) r += `**Re-run of**: ${team.parentId}\n`;
+  if (team.git) r += `**Git target**: ${formatGitTargetLine(team.git)}\n`;
+  if (team.synthesis) r += `**Synthesis**: by ${team.synthesis.synthesizer} (\`/team-result teamId="${team.id}" synthesis=true\`)\n`;
+  if (team.debate) r += `**Debate**: ${team.debate.topic} (${team.debate.converged ? "converged" : "not converged"})\n`;
+  const findings = teamFindings(team);
+  if (findings.length > 0) r += `**Findings**: ${findings.length}\n`;
+
+  r += `\n### Agents\n`;
+  for (const agent of team.agents.values()) {
+    r += `- **${agent.name}**: ${agent.status}`;
+    if (agent.result) r += ` - ${agent.result.length} chars (\`/team-result teamId="${team.id}" agent="${agent.name}"\`)`;
+    r += `\n`;
+    if (agent.result) r += `  > ${truncateText(agent.result.trim().replace(/\s+/g, " "), HISTORY_PREVIEW_LENGTH)}\n`;
+    if (agent.error) r += `  - Error: ${agent.error}\n`;
+  }
+
+  if (team.tasks.size > 0) {
+    r += `\n### Tasks (${team.tasks.size})\n`;
+    for (const task of team.tasks.values()) {
+      r += `- ${TASK_STATUS_ICONS[task.status]} ${task.subject}${task.owner ? ` (${task.owner})` : ""}`;
+      if (task.result) r += ` - ${task.result.length} chars (\`/team-result teamId="${team.id}" task="${task.key ?? task.id}"\`)`;
+      r += `\n`;
+    }
+  }
+
+  const usage = teamUsage(team);
+  if (usage.durationMs > 0) {
+    r += `\n**Usage**: ${formatUsage(usage)}\n`;
+  }
+  if (status !== "active") {
+    r += `\nReopen for more work with \`/team-resume teamId="${team.id}"\`.\n`;
+  }
+  return r;
+}
+
+// ============================================================================
+// RERUN
+// ============================================================================
+
+// 에이전트별 이전 실행 대비 변화: 구조화된 발견 사항이 있으면 발견 단위, 없으면 결과 줄 단위
+interface AgentRunDiff {
+  agent: string;
+  mode: "findings" | "text";
+  resolved: Finding[];
+  added: Finding[];
+  unchanged: Finding[];
+  removedLines: string[];
+  addedLines: string[];
+  unchangedLines: number;
+}
+
+// 에이전트, 태스크, 팀 설정은 복사하고 실행 결과는 비운 새 팀 (task-handoff로 생긴 태스크는 제외)
+function cloneTeamForRerun(parent: Team, name?: string): Team {
+  const team: Team = {
+    id: `team-${Date.now()}-${randomUUID().slice(0, 8)}`,
+    name: name ?? parent.name,
+    preset: parent.preset,
+    agents: new Map(),
+    tasks: new Map(),
+    createdAt: new Date(),
+    task: parent.task,
+    timeout: parent.timeout,
+    budget: parent.budget && { ...parent.budget },
+    findings: parent.findings,
+    parentId: parent.id,
+    git: parent.git,
+  };
+
+  for (const agent of parent.agents.values()) {
+    team.agents.set(agent.name, { name: agent.name, sessionID: null, role: agent.role, status: "idle" });
+  }
+
+  const copied = Array.from(parent.tasks.values()).filter(task => !task.createdBy);
+  const ids = new Map(copied.map(task => [task.id, `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`]));
+  const remap = (refs: string[]): string[] => refs.flatMap(id => ids.get(id) ?? []);
+  for (const task of copied) {
+    const id = ids.get(task.id)!;
+    team.tasks.set(id, {
+      id,
+      subject: task.subject,
+      description: task.description,
+      status: "pending",
+      owner: task.owner,
+      blockedBy: remap(task.blockedBy),
+      blocks: remap(task.blocks),
+      includeUpstream: task.includeUpstream,
+      retry: task.retry,
+      key: task.key,
+      claimable: task.claimable,
+      createdAt: new Date(),
+    });
+  }
+
+  return team;
+}
+
+// 재실행이 실제로 실행한 쪽만 비교: 태스크 그래프를 돌렸으면 담당 태스크 결과, 아니면 에이전트 자신의 결과
+type RunScope = "agents" | "tasks";
+
+function agentRunFindings(team: Team, agent: string, scope: RunScope): Finding[] {
+  if (scope === "agents") return dedupeFindings(team.agents.get(agent)?.findings ?? []);
+  const findings: Finding[] = [];
+  for (const task of team.tasks.values()) {
+    if (task.owner === agent) findings.push(...(task.findings ?? []));
+  }
+  return dedupeFindings(findings);
+}
+
+function agentRunText(team: Team, agent: string, scope: RunScope): string {
+  if (scope === "agents") return team.agents.get(agent)?.result ?? "";
+  const texts: Array<string | undefined> = [];
+  for (const task of team.tasks.values()) {
+    if (task.owner === agent) texts.push(task.result);
+  }
+  return texts.filter(Boolean).join("\n");
+}
+
+function diffTeamRuns(parent: Team, team: Team): AgentRunDiff[] {
+  const scope: RunScope = team.tasks.size > 0 ? "tasks" : "agents";
+  const structured = Boolean(parent.findings || team.findings || teamFindings(parent).length || teamFindings(team).length);
+  return Array.from(team.agents.keys()).map(agent => {
+    const diff: AgentRunDiff = {
+      agent,
+      mode: structured ? "findings" : "text",
+      resolved: [],
+      added: [],
+      unchanged: [],
+      removedLines: [],
+      addedLines: [],
+      unchangedLines: 0,
+    };
+    if (structured) {
+      Object.assign(diff, matchFindings(agentRunFindings(parent, agent, scope), agentRunFindings(team, agent, scope)));
+    } else {
+      const lines = diffResultLines(agentRunText(parent, agent, scope), agentRunText(team, agent, scope));
+      diff.removedLines = lines.removed;
+      diff.addedLines = lines.added;
+      diff.unchangedLines = lines.unchanged;
+    }
+    return diff;
+  });
+}
+
+function formatRunDiff(parent: Team, team: Team, diffs: AgentRunDiff[]): string {
+  const findingLine = (f: Finding) => `- [${f.severity.toUpperCase()}] ${f.title} (${findingLocation(f)})\n`;
+
+  let r = `\n---\n\n## Diff vs Previous Run\n\n`;
+  r += `**Previous run**: ${parent.name} (${parent.id}, ${parent.createdAt.toISOString()})\n\n`;
+  r += `| Agent | Compared by | Resolved / Removed | New / Added | Unchanged |\n`;
+  r += `|-------|-------------|--------------------|-------------|-----------|\n`;
+  for (const d of diffs) {
+    r += d.mode === "findings"
+      ? `| ${d.agent} | findings | ${d.resolved.length} | ${d.added.length} | ${d.unchanged.length} |\n`
+      : `| ${d.agent} | result lines | ${d.removedLines.length} | ${d.addedLines.length} | ${d.unchangedLines} |\n`;
+  }
+
+  for (const d of diffs) {
+    if (d.mode === "findings") {
+      if (d.resolved.length + d.added.length + d.unchanged.length === 0) continue;
+      r += `\n### ${d.agent}\n`;
+      if (d.resolved.length > 0) r += `\n**Resolved (${d.resolved.length})**\n${d.resolved.map(findingLine).join("")}`;
+      if (d.added.length > 0) r += `\n**New (${d.added.length})**\n${d.added.map(findingLine).join("")}`;
+      if (d.unchanged.length > 0) r += `\n**Unchanged (${d.unchanged.length})**\n${d.unchanged.map(findingLine).join("")}`;
+    } else if (d.removedLines.length + d.addedLines.length > 0) {
+      const shown = [
+        ...d.removedLines.slice(0, MAX_DIFF_LINES).map(line => `- ${line}`),
+        ...d.addedLines.slice(0, MAX_DIFF_LINES).map(line => `+ ${line}`),
+      ];
+      const hidden = d.removedLines.length + d.addedLines.length - shown.length;
+      r += `\n### ${d.agent}\n\`\`\`diff\n${shown.join("\n")}\n\`\`\`\n`;
+      if (hidden > 0) r += `(${hidden} more changed lines; compare with \`/team-result\`)\n`;
+    }
+  }
+
+  r += `\nPrevious results: \`/team-result teamId="${parent.id}"\` · this run: \`/team-result teamId="${team.id}"\`\n`;
+  return r;
+}
+
 // ============================================================================
 // TASK MANAGEMENT
 // ============================================================================
@@ -443,17 +1468,7 @@ function createTask(
   blockedBy: string[] = [],
   blocks: string[] = []
 ): Task {
-  const task: Task = {
-    id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
-    subject,
-    description,
-    status: "pending",
-    owner,
-    blockedBy,
-    blocks,
-    createdAt: new Date()
-  };
-
+  const task = newTask(subject, description, owner, blockedBy, blocks);
   team.tasks.set(task.id, task);
 
   // Enforce max tasks
@@ -466,80 +1481,331 @@ function createTask(
     }
   }
 
-  saveTeam(team);
+  teamStore.save(team);
   return task;
 }
 
-function canExecuteTask(team: Team, task: Task): boolean {
-  return task.blockedBy.every(depId => {
-    const depTask = team.tasks.get(depId);
-    return depTask?.status === "completed";
-  });
-}
+async function executeAgent(
+  team: Team,
+  name: string,
+  agent: Agent,
+  task: string,
+  timeout: number,
+  signal?: AbortSignal,
+  taskId?: string
+): Promise<ExecutionResult> {
+  // 취소됐거나 예산이 소진되면 새 세션을 만들지 않음
+  if (enforceBudget(team) || signal?.aborted) {
+    agent.error = abortReason(signal);
+    setAgentStatus(team, name, agent, "cancelled", agent.error);
+    return { name, success: false, error: agent.error, skipped: true };
+  }
 
-function getExecutableTasks(team: Team): Task[] {
-  return Array.from(team.tasks.values())
-    .filter(t => t.status === "pending" && canExecuteTask(team, t));
-}
+  const startedAt = Date.now();
+  let sessionID: string | null = null;
+  agent.error = undefined;
+  agent.startedAt = new Date(startedAt);
+  agent.endedAt = undefined;
+  setAgentStatus(team, name, agent, "thinking");
 
-// 순환 의존성 감지
-function detectCyclicDependency(team: Team, taskId: string, visited: Set<string> = new Set()): boolean {
-  if (visited.has(taskId)) return true;
-  visited.add(taskId);
+  try {
+    // 태스크 실행이면 발견 사항은 Task에, 아니면 Agent에 새로 모음
+    if (!taskId) agent.findings = undefined;
+    const prompt = injectInbox(
+      team,
+      name,
+      agent,
+      `${task}${team.git ? `\n\n${formatGitContext(team.git, loadGitDiff(team.git))}` : ""}\n\n당신은 ${name}(${agent.role}) 역할입니다. 전문성으로 작업을 수행해주세요.${team.findings ? `\n${FINDINGS_PROMPT}` : ""}`
+    );
+    ({ sessionID } = await spawnAgentSession(name, prompt));
+    agent.sessionID = sessionID;
+    sessionScopes.set(sessionID, { teamId: team.id, agent: name, taskId, handoffs: 0 });
+    trackSession(team, sessionID);
+    // 세션 ID를 즉시 저장해야 크래시 후 team-resume으로 재연결 가능
+    setAgentStatus(team, name, agent, "responding", sessionID);
 
-  const task = team.tasks.get(taskId);
-  if (!task) return false;
+    const result = await waitForSessionCompletion(sessionID, timeout, signal);
+    agent.result = result;
+    const usage = await recordAgentUsage(agent, sessionID, startedAt);
+    setAgentStatus(team, name, agent, "completed");
 
-  for (const depId of task.blockedBy) {
-    if (detectCyclicDependency(team, depId, visited)) {
-      return true;
+    return { name, success: true, result, usage };
+  } catch (error) {
+    agent.error = error instanceof Error ? error.message : String(error);
+    // 실패/취소된 실행도 소비한 토큰은 집계
+    const usage = await recordAgentUsage(agent, sessionID, startedAt);
+    setAgentStatus(team, name, agent, signal?.aborted ? "cancelled" : "error", agent.error);
+    return { name, success: false, error: agent.error, usage };
+  } finally {
+    if (sessionID) {
+      sessionScopes.delete(sessionID);
     }
   }
+}
 
-  visited.delete(taskId);
-  return false;
+// 모든 에이전트에게 같은 프롬프트를 병렬로 실행 (team-execute, team-auto, team-rerun)
+async function executeAllAgents(team: Team, prompt: string, timeout: number, signal: AbortSignal): Promise<ExecutionResult[]> {
+  const results = await Promise.allSettled(
+    Array.from(team.agents.entries()).map(
+      ([name, agent]) => executeAgent(team, name, agent, prompt, timeout, signal)
+    )
+  );
+
+  return results.map((r, index) => {
+    const agentName = Array.from(team.agents.keys())[index];
+    if (r.status === "fulfilled") {
+      return r.value;
+    }
+    return {
+      name: agentName,
+      success: false,
+      error: r.reason instanceof Error ? r.reason.message : String(r.reason),
+    };
+  });
 }
 
-// 모든 순환 의존성 감지
-function findCyclicDependencies(team: Team): string[] {
-  const cyclic: string[] = [];
-  for (const [id] of team.tasks) {
-    if (detectCyclicDependency(team, id)) {
-      cyclic.push(id);
+// 중단된 에이전트 재연결: 세션이 살아있으면 결과를 기다리고, 아니면 재실행
+async function resumeAgent(
+  team: Team,
+  name: string,
+  agent: Agent,
+  task: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<ExecutionResult & { reattached: boolean }> {
+  if (agent.sessionID && await sessionExists(agent.sessionID)) {
+    const sessionID = agent.sessionID;
+    try {
+      sessionScopes.set(sessionID, { teamId: team.id, agent: name, handoffs: 0 });
+      trackSession(team, sessionID);
+      setAgentStatus(team, name, agent, "responding", `reattached ${sessionID}`);
+      const result = await waitForSessionCompletion(sessionID, timeout, signal);
+      agent.result = result;
+      agent.error = undefined;
+      const usage = await recordAgentUsage(agent, sessionID, agent.startedAt?.getTime() ?? Date.now());
+      setAgentStatus(team, name, agent, "completed");
+      return { name, success: true, result, usage, reattached: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (signal?.aborted) {
+        agent.error = abortReason(signal);
+        setAgentStatus(team, name, agent, "cancelled", agent.error);
+        return { name, success: false, error: agent.error, reattached: true };
+      }
+      console.warn(`[squad] Failed to reattach ${name} (${sessionID}): ${errorMessage}`);
+    } finally {
+      sessionScopes.delete(sessionID);
     }
   }
-  return cyclic;
+
+  agent.sessionID = null;
+  const result = await executeAgent(team, name, agent, task, timeout, signal);
+  return { ...result, reattached: false };
 }
 
-async function executeAgent(
+// 실행 중인 세션에 종료 요청을 보내고 shutdown-respond 호출을 기다림 (시간 초과/취소/전송 실패 시 실패)
+function askForShutdown(
+  sessionID: string,
+  agentName: string,
+  prompt: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<ShutdownAnswer> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      shutdownWaiters.delete(sessionID);
+      settle();
+    };
+    const onAbort = () => finish(() => reject(new Error(abortReason(signal))));
+    const timer = setTimeout(() => finish(() => reject(new Error(`no answer after ${timeout / 1000}s`))), timeout);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    shutdownWaiters.set(sessionID, answer => finish(() => resolve(answer)));
+
+    // 작업 중인 세션이면 OpenCode가 현재 단계 뒤에 이어서 처리
+    globalClient!.session.promptAsync({
+      path: { id: sessionID },
+      body: { agent: agentName, parts: [{ type: "text", text: prompt }] },
+    }).catch(error => finish(() => reject(error)));
+  });
+}
+
+// 종료 핸드셰이크: shutdown_request를 보내고 에이전트의 승인/거절을 shutdown_response로 기록
+// 실행 중인 에이전트에게는 작업 중인 세션에 요청을 보내 맥락을 아는 상태로 답하게 함
+async function requestShutdownApproval(
+  team: Team,
   name: string,
   agent: Agent,
-  task: string,
-  timeout: number
-): Promise<ExecutionResult> {
-  agent.status = "thinking";
+  timeout: number,
+  signal?: AbortSignal
+): Promise<Message> {
+  const requestId = randomUUID();
+  const request: Message = {
+    type: "shutdown_request",
+    teamId: team.id,
+    sender: LEAD_AGENT,
+    recipient: name,
+    content: `Team "${team.name}" is shutting down.`,
+    timestamp: new Date(),
+    requestId,
+  };
+  sendMessage(request);
+
+  const respond = (approved: boolean, content: string): Message => {
+    const response: Message = {
+      type: "shutdown_response",
+      teamId: team.id,
+      sender: name,
+      recipient: LEAD_AGENT,
+      content,
+      timestamp: new Date(),
+      approved,
+      requestId,
+    };
+    sendMessage(response);
+    return response;
+  };
+
+  // 실행 중이 아닌 에이전트(대기/완료/실패/취소)는 묻지 않고 승인
+  if (agent.status !== "thinking" && agent.status !== "responding") {
+    return respond(true, `Not running (${agent.status}), approved automatically.`);
+  }
+  if (!agent.sessionID || !globalClient) {
+    return respond(false, `No live session to ask (${agent.status}), not approved.`);
+  }
+
+  const prompt = [
+    `[shutdown_request] ${request.content}`,
+    `지금 종료해도 된다면 shutdown-respond 도구를 approve=true로 호출하세요.`,
+    `아직 끝나지 않은 작업이 있다면 approve=false와 남은 작업(reason)으로 호출한 뒤 원래 작업을 계속하고,`,
+    `마지막 답변에는 원래 작업의 전체 결과를 다시 적으세요.`,
+  ].join("\n");
+
+  // team-resume 전의 중단된 에이전트처럼 이 인스턴스가 실행 중이 아니면 응답 동안만 범위 등록
+  const sessionID = agent.sessionID;
+  const ownsScope = !sessionScopes.has(sessionID);
+  if (ownsScope) {
+    sessionScopes.set(sessionID, { teamId: team.id, agent: name, handoffs: 0 });
+  }
 
   try {
-    const prompt = `${task}\n\n당신은 ${name}(${agent.role}) 역할입니다. 전문성으로 작업을 수행해주세요.`;
-    const { sessionID } = await spawnAgentSession(name, prompt);
-    agent.sessionID = sessionID;
-    agent.status = "responding";
+    const { approved, reason } = await askForShutdown(sessionID, name, prompt, timeout, signal);
+    return respond(approved, reason || (approved ? "Approved." : "Rejected."));
+  } catch (error) {
+    // 답을 받지 못하면 실행 중인 작업을 끊지 않도록 승인하지 않음 (force=true로 강제 종료)
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return respond(false, `No answer (${errorMessage}), not approved.`);
+  } finally {
+    if (ownsScope) {
+      sessionScopes.delete(sessionID);
+    }
+  }
+}
 
-    const result = await waitForSessionCompletion(sessionID, timeout);
-    agent.status = "completed";
-    agent.result = result;
+// ============================================================================
+// SYNTHESIS
+// ============================================================================
+
+const SYNTHESIS_PROMPT = `
+당신은 팀의 종합(Synthesis) 담당입니다. 여러 에이전트가 같은 작업을 병렬로 수행한 결과를 하나의 결론으로 통합하세요.
+
+## 규칙
+1. 같은 발견 사항은 한 번만 적고, 어떤 에이전트들이 제기했는지 표시
+2. 에이전트 간 의견이 다르면 숨기지 말고 양쪽 근거를 제시 (특히 Devil's Advocate의 반론)
+3. 근거 없는 내용을 새로 추가하지 말 것
+
+## 출력 형식
+### ✅ Consolidated Findings
+- [발견 사항] (제기: agent-a, agent-b)
+
+### ⚔️ Disagreements
+- [쟁점]: [입장 A] vs [입장 B]
+
+### 📋 Prioritized Action Items
+1. [P0/P1/P2] [조치]
+
+### 🏁 Verdict
+[한 문단 결론]
+`;
+
+async function synthesizeResults(
+  team: Team,
+  results: ExecutionResult[],
+  synthesizer: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<ExecutionResult> {
+  const succeeded = results.filter(r => r.success && r.result);
+  if (succeeded.length === 0) {
+    return { name: synthesizer, success: false, error: "No successful agent results to synthesize" };
+  }
 
-    return { name, success: true, result };
+  const share = Math.floor(MAX_SYNTHESIS_INPUT_LENGTH / succeeded.length);
+  const sections = succeeded.map(r => {
+    const role = team.agents.get(r.name)?.role ?? r.name;
+    const tag = isDevilsAdvocate(r.name) ? " [DEVIL'S ADVOCATE]" : "";
+    return `## ${r.name} (${role})${tag}\n${truncateText(r.result!, share)}`;
+  });
+  const failed = results.filter(r => !r.success).map(r => r.name);
+
+  let prompt = `${SYNTHESIS_PROMPT}\n# 원래 작업\n${team.task}\n\n# 에이전트 결과\n\n${sections.join("\n\n")}`;
+  if (failed.length > 0) {
+    prompt += `\n\n(결과 없음: ${failed.join(", ")})`;
+  }
+
+  if (enforceBudget(team) || signal?.aborted) {
+    return { name: synthesizer, success: false, error: abortReason(signal), skipped: true };
+  }
+
+  const startedAt = Date.now();
+  let sessionID: string | null = null;
+  try {
+    const agentName = synthesizer === LEAD_AGENT ? null : synthesizer;
+    ({ sessionID } = await spawnAgentSession(agentName, prompt));
+    const content = await waitForSessionCompletion(sessionID, timeout, signal);
+
+    team.synthesis = {
+      synthesizer,
+      content,
+      sources: succeeded.map(r => r.name),
+      createdAt: new Date(),
+      usage: await fetchSessionUsage(sessionID, startedAt),
+    };
+    teamStore.save(team);
+
+    return { name: synthesizer, success: true, result: content };
   } catch (error) {
-    agent.status = "error";
-    agent.error = error instanceof Error ? error.message : String(error);
-    return { name, success: false, error: agent.error };
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { name: synthesizer, success: false, error: errorMessage };
+  } finally {
+    if (sessionID) {
+      await cleanupSession(sessionID);
+    }
+  }
+}
+
+function formatSynthesis(result: ExecutionResult): string {
+  let response = `## Synthesis (${result.name})\n\n`;
+  if (result.success && result.result) {
+    response += `${result.result}\n`;
+  } else {
+    response += `**[FAIL]** ${result.error}\n`;
   }
+  return response;
 }
 
 function formatExecutionResults(
   team: Team,
-  results: ExecutionResult[]
+  results: ExecutionResult[],
+  mode: ResultMode = "summary"
 ): string {
   let response = `---\n\n## Results\n\n`;
 
@@ -551,578 +1817,3175 @@ function formatExecutionResults(
     response += `**Status**: ${agent?.status ?? "unknown"}\n`;
 
     if (success && result) {
-      response += `\n${truncateText(result, MAX_RESULT_LENGTH)}\n`;
+      response += `\n${formatResultText(team, result, mode, `agent="${name}"`)}\n`;
     } else if (error) {
       response += `**Error**: ${error}\n`;
     }
     response += `\n---\n\n`;
   }
 
+  const findings = teamFindings(team);
+  if (findings.length > 0) {
+    response += `## Findings (${findings.length})\n\n${formatFindingsTable(findings)}\n`;
+    response += `Use \`/team-findings teamId="${team.id}"\` for details or \`format="sarif"\` to export.\n\n---\n\n`;
+  }
+
+  return response;
+}
+
+// 중단 사유와 시작하지 못한 항목 (부분 결과는 이미 저장됨)
+function formatStopped(reason: string, skipped: string[]): string {
+  let response = `\n**[CANCELLED]** ${reason}; partial results were saved.\n`;
+  if (skipped.length > 0) {
+    response += `**Skipped (not started)**: ${skipped.join(", ")}\n`;
+  }
   return response;
 }
 
+function budgetExhaustedError(team: Team, exhausted: string): string {
+  return `Error: Budget exhausted for team "${team.name}" (${exhausted}). `
+    + `Raise it with \`/team-budget teamId="${team.id}"\` before starting new sessions.`;
+}
+
 // ============================================================================
-// PRESETS
+// DEBATE
 // ============================================================================
 
-const PRESETS: Record<string, string[]> = {
-  review: ["code-reviewer", "security-auditor", "devil-s-advocate"],
-  security: ["security-auditor", "devil-s-advocate"],
-  debug: ["debugger", "devil-s-advocate"],
-  planning: ["planner", "devil-s-advocate"],
-  implementation: [
-    "backend-developer",
-    "frontend-developer",
-    "test-automator",
-    "devil-s-advocate",
-  ],
-  fullstack: ["fullstack-developer", "devil-s-advocate"],
-  research: ["explore", "data-scientist", "devil-s-advocate"],
-  ai: ["ai-engineer", "llm-architect", "prompt-engineer", "devil-s-advocate"],
-};
+const DEBATE_PROMPT = `
+## 토론 규칙
+1. 다른 참가자들의 최신 입장 각각에 대해 동의(agree)/부분 동의(partial)/반대(disagree)를 이유와 함께 밝히세요
+2. 설득되었다면 입장을 바꿔도 됩니다. 바꿨다면 무엇 때문인지 적으세요
+3. 답변 마지막에 아래 형식을 정확히 지키세요 (첫 라운드는 POSITION만)
 
-const PRESET_KEYWORDS: Record<string, string[]> = {
-  security: ["security", "보안", "취약점"],
-  debug: ["debug", "버그", "에러"],
-  planning: ["planning", "계획", "설계"],
-  implementation: ["implement", "구현", "개발"],
-  research: ["research", "조사", "탐색"],
-};
+POSITION: <현재 입장 한 문장>
+- <참가자 이름>: agree|partial|disagree - <이유>
+`;
+
+const DEBATE_DEVILS_ADVOCATE_PROMPT = `
+## Devil's Advocate
+다른 참가자들이 모이고 있는 입장(현재 합의)을 겨냥해 가장 강한 반론을 제시하세요. 이미 반박된 반론을 반복하지 말고, 합의의 가장 약한 가정을 공격하세요.
+`;
+
+const MODERATOR_PROMPT = `
+당신은 토론의 사회자(Moderator)입니다. 아래 토론 기록을 바탕으로 아키텍처 의사결정 기록을 작성하세요. 기록에 없는 주장을 새로 추가하지 마세요.
+
+## 출력 형식
+### 🤝 Consensus
+[최종 합의. 합의가 없으면 "No consensus"와 가장 가까운 입장]
 
-function detectPreset(request: string): string {
-  const lowerRequest = request.toLowerCase();
+### ⚔️ Dissent
+- [참가자]: [남은 반대 의견과 근거]
 
-  for (const [preset, keywords] of Object.entries(PRESET_KEYWORDS)) {
-    if (keywords.some((kw) => lowerRequest.includes(kw))) {
-      return preset;
+### 📋 Decision Record
+- **Decision**: [결정]
+- **Rationale**: [근거]
+- **Consequences / Risks**: [결과와 위험]
+- **Open Questions**: [남은 질문]
+`;
+
+function buildDebatePrompt(debate: Debate, name: string, round: number): string {
+  let prompt = `# 토론 주제\n${debate.topic}\n\n## 라운드 ${round}\n`;
+
+  const others = Array.from(latestPositions(debate).values()).filter(t => t.agent !== name);
+  if (others.length > 0) {
+    prompt += `\n## 다른 참가자들의 최신 입장\n`;
+    for (const turn of others) {
+      prompt += `\n### ${turn.agent} (라운드 ${turn.round})\nPOSITION: ${turn.position}\n`;
+      if (turn.text) prompt += `${truncateText(turn.text, MAX_CONTEXT_LENGTH)}\n`;
     }
   }
 
-  return DEFAULT_PRESET;
-}
+  const own = latestPositions(debate).get(name);
+  if (own) {
+    prompt += `\n## 당신의 이전 입장\n${own.position}\n`;
+  }
 
-// ============================================================================
-// TOOLS
-// ============================================================================
+  prompt += DEBATE_PROMPT;
+  if (isDevilsAdvocate(name)) {
+    prompt += DEBATE_DEVILS_ADVOCATE_PROMPT;
+  }
+  return prompt;
+}
 
-const teamSpawnTool = tool({
-  description: "Spawn a real agent team with actual OpenCode subagents",
-  args: {
-    preset: z
-      .string()
-      .optional()
-      .describe("Preset name or comma-separated agent names"),
-    teamName: z.string().describe("Name for the team"),
-    task: z.string().describe("Task description for the team"),
-  },
-  async execute(args) {
-    if (!globalClient) {
-      return "Error: OpenCode client not available";
-    }
+// 최종 입장 전문 + 라운드별 입장 변화를 사회자에게 전달
+async function moderateDebate(
+  team: Team,
+  debate: Debate,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<ExecutionResult> {
+  const latest = Array.from(latestPositions(debate).values());
+  if (latest.length === 0) {
+    return { name: debate.moderator, success: false, error: "No positions to summarize" };
+  }
+  if (enforceBudget(team) || signal?.aborted) {
+    return { name: debate.moderator, success: false, error: abortReason(signal), skipped: true };
+  }
 
-    const presetValue = args.preset ?? DEFAULT_PRESET;
-    const teamId = `team-${Date.now()}-${randomUUID().slice(0, 8)}`;
-    const availableAgents = loadOpenCodeAgents();
+  const history = debate.rounds.map((turns, index) =>
+    `### Round ${index + 1}\n` + turns
+      .filter(t => !t.error)
+      .map(t => `- ${t.agent}: ${t.position}${t.responses.length > 0 ? ` (${t.responses.map(r => `${r.to}: ${r.verdict}`).join(", ")})` : ""}`)
+      .join("\n")
+  );
+  const share = Math.floor(MAX_SYNTHESIS_INPUT_LENGTH / latest.length);
+  const finals = latest.map(t => {
+    const tag = isDevilsAdvocate(t.agent) ? " [DEVIL'S ADVOCATE]" : "";
+    return `### ${t.agent}${tag}\n${truncateText(t.text ?? t.position, share)}`;
+  });
 
-    const agentNames =
-      PRESETS[presetValue] ??
-      presetValue.split(",").map((s) => s.trim()).filter(Boolean);
+  const prompt = `${MODERATOR_PROMPT}\n# 주제\n${debate.topic}\n\n# 수렴 여부\n${debate.converged ? "수렴함" : "최대 라운드까지 수렴하지 않음"}\n\n# 라운드별 입장\n${history.join("\n\n")}\n\n# 최종 발언\n${finals.join("\n\n")}`;
 
-    if (agentNames.length === 0) {
-      return `Error: No agents specified. Available: ${Object.keys(availableAgents).join(", ")}`;
+  const startedAt = Date.now();
+  let sessionID: string | null = null;
+  try {
+    const agentName = debate.moderator === LEAD_AGENT ? null : debate.moderator;
+    ({ sessionID } = await spawnAgentSession(agentName, prompt));
+    const content = await waitForSessionCompletion(sessionID, timeout, signal);
+    debate.summary = content;
+    debate.usage = await fetchSessionUsage(sessionID, startedAt);
+    teamStore.save(team);
+    return { name: debate.moderator, success: true, result: content };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { name: debate.moderator, success: false, error: errorMessage };
+  } finally {
+    if (sessionID) {
+      await cleanupSession(sessionID);
     }
+  }
+}
 
-    const team: Team = {
-      id: teamId,
-      name: args.teamName,
-      preset: presetValue,
-      agents: new Map(),
-      tasks: new Map(),
-      createdAt: new Date(),
-      task: args.task,
+// ============================================================================
+// GIT TARGETS
+// ============================================================================
+
+// 셸을 거치지 않고 인자 배열로 실행, GIT_TIMEOUT_MS나 GIT_MAX_BUFFER를 넘으면 종료
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let size = 0;
+    let failure: string | undefined;
+    const stop = (reason: string): void => {
+      failure ??= reason;
+      child.kill();
     };
+    const timer = setTimeout(() => stop(`timed out after ${GIT_TIMEOUT_MS}ms`), GIT_TIMEOUT_MS);
 
-    const missingAgents: string[] = [];
-    for (const name of agentNames) {
-      const agentDef = availableAgents[name];
-      if (!agentDef) {
-        missingAgents.push(name);
+    child.stdout.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > GIT_MAX_BUFFER) stop(`output exceeded ${GIT_MAX_BUFFER} bytes`);
+      else stdout.push(chunk);
+    });
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", error => {
+      clearTimeout(timer);
+      reject(new Error(`git ${args[0]} failed: ${error.message}`));
+    });
+    child.on("close", code => {
+      clearTimeout(timer);
+      if (failure) {
+        reject(new Error(`git ${args[0]} failed: ${failure}`));
+      } else if (code !== 0) {
+        reject(new Error(`git ${args[0]} failed: ${Buffer.concat(stderr).toString("utf-8").trim() || `exit code ${code}`}`));
+      } else {
+        resolve(Buffer.concat(stdout).toString("utf-8"));
       }
-      team.agents.set(name, {
-        name,
-        sessionID: null,
-        role: extractRoleFromDescription(agentDef?.description, name),
-        status: "idle",
-      });
+    });
+  });
+}
+
+async function resolveCommit(cwd: string, ref: string): Promise<string> {
+  if (ref.startsWith("-")) {
+    throw new Error(`Invalid git revision "${ref}"`);
+  }
+  try {
+    return (await runGit(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Unknown git revision "${ref}"`);
+  }
+}
+
+// 로컬 저장소에서 diff와 파일 목록을 수집 (diff는 호출한 쪽이 팀 레코드와 따로 저장)
+async function captureGitTarget(
+  cwd: string,
+  target: string | undefined,
+  paths: string[] = [],
+  budget?: number
+): Promise<{ git: Omit<GitTarget, "diffFile">; diff: string }> {
+  const spec = target?.trim() || "paths";
+  if (spec.startsWith("-")) {
+    throw new Error(`Invalid git target "${spec}"`);
+  }
+  const root = (await runGit(cwd, ["rev-parse", "--show-toplevel"])).trim();
+  const pathspec = paths.length > 0 ? ["--", ...paths] : [];
+
+  let kind: GitTarget["kind"];
+  let files: GitFile[];
+  let stat = "";
+  let diff: string;
+  let truncated = false;
+  let base: string | undefined;
+  let head: string | undefined;
+
+  if (spec === "paths") {
+    if (paths.length === 0) {
+      throw new Error("Pass target or paths");
+    }
+    // 변경 여부와 관계없이 파일 전체 내용을 검토 대상으로
+    kind = "paths";
+    files = (await runGit(cwd, ["ls-files", "--full-name", ...pathspec]))
+      .split("\n").filter(Boolean).map(file => ({ status: "", path: file }));
+    ({ content: diff, truncated } = await readPathContents(root, files));
+  } else {
+    let diffArgs: string[];
+    if (spec === "working") {
+      kind = "working";
+      diffArgs = ["diff", "HEAD"];
+    } else if (spec === "staged") {
+      kind = "staged";
+      diffArgs = ["diff", "--cached"];
+    } else {
+      kind = "range";
+      const range = parseGitRange(spec);
+      head = await resolveCommit(cwd, range.head);
+      base = await resolveCommit(cwd, range.base);
+      if (range.mergeBase) base = (await runGit(cwd, ["merge-base", base, head])).trim();
+      diffArgs = ["diff", base, head];
     }
 
-    teams.set(teamId, team);
-    enforceMaxTeams();
+    files = parseNameStatus(await runGit(cwd, [...diffArgs, "--name-status", ...pathspec]));
+    stat = (await runGit(cwd, [...diffArgs, "--shortstat", ...pathspec])).trim();
+    diff = await runGit(cwd, [...diffArgs, ...pathspec]);
+    if (kind === "working") {
+      // 새로 만든 파일은 git diff에 나오지 않으므로 목록에만 추가
+      const untracked = await runGit(cwd, ["ls-files", "--others", "--exclude-standard", "--full-name", ...pathspec]);
+      files.push(...untracked.split("\n").filter(Boolean).map(file => ({ status: "?", path: file })));
+    }
+  }
+
+  if (files.length === 0) {
+    throw new Error(`No files for git target "${spec}"${paths.length > 0 ? ` in ${paths.join(", ")}` : ""}`);
+  }
+
+  return {
+    git: {
+      kind,
+      spec,
+      paths,
+      base,
+      head,
+      files,
+      stat,
+      truncated: truncated || diff.length > MAX_GIT_DIFF_LENGTH,
+      budget: Math.max(0, budget ?? DEFAULT_GIT_CONTEXT_BUDGET),
+      capturedAt: new Date(),
+    },
+    diff: diff.slice(0, MAX_GIT_DIFF_LENGTH),
+  };
+}
+
+const gitDiffPath = (git: GitTarget): string =>
+  path.join(teamsDir, git.diffFile);
+
+// 수집한 diff는 한 번만 기록하고 캐시 (팀 저장마다 다시 쓰지 않음)
+function storeGitDiff(git: GitTarget, diff: string): void {
+  gitDiffs.set(git.diffFile, diff);
+  ensureTeamsDir();
+  writeFileAtomic(gitDiffPath(git), diff);
+}
+
+// 재시작 후에는 파일에서 다시 읽음, 없으면 파일 목록만 전달
+function loadGitDiff(git: GitTarget): string {
+  const cached = gitDiffs.get(git.diffFile);
+  if (cached !== undefined) return cached;
+  try {
+    const diff = fs.readFileSync(gitDiffPath(git), "utf-8");
+    gitDiffs.set(git.diffFile, diff);
+    return diff;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Failed to read git diff ${git.diffFile}: ${errorMessage}`);
+    return "";
+  }
+}
+
+function formatGitTargetLine(git: GitTarget): string {
+  const commits = git.base && git.head ? ` (${git.base.slice(0, 7)}..${git.head.slice(0, 7)})` : "";
+  const scope = git.paths.length > 0 && git.kind !== "paths" ? ` in ${git.paths.join(", ")}` : "";
+  return `\`${git.spec}\`${commits}${scope}: ${git.files.length} files${git.stat ? `, ${git.stat}` : ""}`;
+}
+
+// 에이전트 프롬프트에 넣는 검토 대상: 파일 목록은 항상, diff는 git.budget 안에서
+function formatGitContext(git: GitTarget, diff: string): string {
+  const listed = git.files.slice(0, MAX_GIT_FILES_LISTED);
+  let context = `## Review Target (git)\n`;
+  context += `**Target**: ${formatGitTargetLine(git)}\n\n`;
+  context += `### Files\n${listed.map(file => `- ${file.status ? `${file.status} ` : ""}${file.path}`).join("\n")}\n`;
+  if (git.files.length > listed.length) {
+    context += `- ... ${git.files.length - listed.length} more\n`;
+  }
+  if (git.files.some(file => file.status === "?")) {
+    context += `(? = untracked new file, not in the diff below)\n`;
+  }
+
+  if (git.budget > 0 && diff) {
+    const shown = budgetDiff(diff, git.budget);
+    const omitted = shown.length < diff.length || git.truncated;
+    context += `\n### ${git.kind === "paths" ? "Contents" : "Diff"}${omitted ? " (partial)" : ""}\n\`\`\`${git.kind === "paths" ? "" : "diff"}\n${shown}\n\`\`\`\n`;
+  }
+
+  context += `\n위 변경 사항을 중심으로 검토하세요. 생략된 부분이나 주변 코드가 필요하면 파일을 직접 읽으세요.\n`;
+  return context;
+}
+
+// ============================================================================
+// TASK SCHEDULER
+// ============================================================================
+
+// 선행 태스크 결과를 요약 (실패 시 잘라내기로 대체), 여러 후속 태스크가 재사용하도록 캐시
+async function summarizeTaskResult(
+  team: Team,
+  dep: Task,
+  agentName: string,
+  maxLength: number,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const result = dep.result ?? "";
+  if (dep.resultSummary && dep.resultSummary.length <= maxLength) {
+    return dep.resultSummary;
+  }
+  // 취소됐거나 예산이 소진되면 새 세션 없이 잘라내기로 대체
+  if (enforceBudget(team) || signal?.aborted) {
+    return truncateText(result, maxLength);
+  }
+
+  // 요약도 에이전트 실행처럼 상태 전환과 사용량(시간 포함)을 요약한 에이전트에 기록
+  const agent = team.agents.get(agentName);
+  const previous = agent?.status ?? "idle";
+  const startedAt = Date.now();
+  let sessionID: string | null = null;
+  if (agent) setAgentStatus(team, agentName, agent, "thinking", `summarizing ${dep.subject}`);
+  try {
+    const prompt = `다음은 "${dep.subject}" 태스크의 결과입니다. 후속 작업에 필요한 결정 사항, 인터페이스, 제약 조건을 중심으로 ${maxLength}자 이내로 요약하세요.\n\n${result}`;
+    ({ sessionID } = await spawnAgentSession(agentName, prompt));
+    trackSession(team, sessionID);
+    const summary = (await waitForSessionCompletion(sessionID, timeout, signal)).trim();
+    if (agent) {
+      await recordAgentUsage(agent, sessionID, startedAt);
+      setAgentStatus(team, agentName, agent, previous, `summarized ${dep.subject}`);
+    }
+    if (summary) {
+      dep.resultSummary = truncateText(summary, maxLength);
+      teamStore.save(team);
+      return dep.resultSummary;
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Failed to summarize ${dep.id}: ${errorMessage}`);
+    // 실패한 요약도 소비한 토큰은 집계 (에러는 이어지는 태스크 실행이 지움)
+    if (agent) {
+      agent.error = `Summary of ${dep.subject} failed: ${errorMessage}`;
+      await recordAgentUsage(agent, sessionID, startedAt);
+      setAgentStatus(team, agentName, agent, signal?.aborted ? "cancelled" : "error", agent.error);
+    }
+  } finally {
+    if (sessionID) {
+      await cleanupSession(sessionID);
+    }
+  }
+
+  return truncateText(result, maxLength);
+}
+
+// 태스크 설명 + blockedBy 태스크들의 결과. 제목 줄을 포함한 전체 길이는 upstreamBudget 이내:
+// 짧은 결과부터 남은 예산을 균등 분배하고, 몫이 MIN_UPSTREAM_SHARE_LENGTH보다 작아 잘라야 하는 결과는 생략
+async function buildTaskPrompt(
+  team: Team,
+  task: Task,
+  owner: string,
+  options: SchedulerOptions
+): Promise<string> {
+  if (task.includeUpstream === false || options.upstreamBudget <= 0) return task.description;
+
+  const deps = task.blockedBy
+    .map(id => team.tasks.get(id))
+    .filter((t): t is Task => t !== undefined && Boolean(t.result));
+  if (deps.length === 0) return task.description;
+
+  const heading = (dep: Task): string => `### ${dep.subject}${dep.owner ? ` (${dep.owner})` : ""}\n`;
+  const overhead = (dep: Task): number => heading(dep).length + 2; // 제목 줄 + 구분 빈 줄
+  const shares = new Map<Task, number>();
+  let remaining = options.upstreamBudget;
+  const bySize = [...deps].sort((a, b) => a.result!.length - b.result!.length);
+  bySize.forEach((dep, index) => {
+    const share = Math.min(dep.result!.length, Math.floor(remaining / (bySize.length - index)) - overhead(dep));
+    if (share < dep.result!.length && share < MIN_UPSTREAM_SHARE_LENGTH) return;
+    shares.set(dep, share);
+    remaining -= overhead(dep) + share;
+  });
+
+  const sections = await Promise.all(deps.filter(dep => shares.has(dep)).map(async dep => {
+    const result = dep.result!;
+    const share = shares.get(dep)!;
+    // 잘라낸 결과는 "..."까지 몫 안에 들어가도록
+    const body = result.length <= share
+      ? result
+      : options.summarizeUpstream
+        ? await summarizeTaskResult(team, dep, owner, share - 3, options.timeout, options.signal)
+        : truncateText(result, share - 3);
+    return `${heading(dep)}${body}`;
+  }));
+
+  const omitted = deps.filter(dep => !shares.has(dep));
+  if (omitted.length > 0) {
+    sections.push(`(upstreamBudget 초과로 생략: ${omitted.map(dep => dep.subject).join(", ")})`);
+  }
+
+  return `${task.description}\n\n## 선행 태스크 결과\n${sections.join("\n\n")}`;
+}
+
+// 준비된 태스크를 동시성 한도 내에서 즉시 시작하고, 하나가 끝날 때마다 새로 풀린 태스크를 시작
+async function runTaskGraph(team: Team, options: SchedulerOptions): Promise<TaskRunSummary> {
+  const summary: TaskRunSummary = { completed: 0, failed: 0, blocked: 0, cancelled: 0, skipped: [], log: "" };
+  const running = new Map<string, Promise<void>>();
+  // 에이전트 레코드(status/sessionID/result/usage)는 하나뿐이므로 에이전트당 한 번에 한 태스크
+  const busyAgents = new Set<string>();
+
+  const runTask = async (task: Task, owner: string): Promise<void> => {
+    const agent = team.agents.get(owner)!;
+    const prompt = `${await buildTaskPrompt(team, task, owner, options)}\n\n${handoffInstructions(team, task)}`;
+    let retries = "";
+
+    task.attempts = (task.attempts ?? 0) + 1;
+    task.startedAt = new Date();
+    delete task.report;
+    task.findings = undefined;
+    let result = await executeAgent(team, owner, agent, prompt, options.timeout, options.signal, task.id);
+    task.usage = addUsage(task.usage, result.usage);
+
+    // task-complete로 보고된 태스크는 이후 세션이 실패해도 재시도하지 않음
+    while (!result.success && !task.report && !options.signal?.aborted && shouldRetry(task, result.error)) {
+      // 지수 백오프: backoff, 2*backoff, 4*backoff ...
+      const delay = task.retry!.backoffMs * 2 ** (task.attempts! - 1);
+      retries += `- Attempt ${task.attempts} failed (${result.error}); retrying in ${delay / 1000}s\n`;
+      teamStore.save(team);
+      await abortableSleep(delay, options.signal);
+
+      task.attempts!++;
+      result = await executeAgent(team, owner, agent, prompt, options.timeout, options.signal, task.id);
+      task.usage = addUsage(task.usage, result.usage);
+    }
+
+    summary.log += `### ${task.subject} (${task.id})\n${retries}`;
+    const report = task.report as TaskReport | undefined; // 실행 중 task-complete로 설정됨
+    if (result.success || (report && !options.signal?.aborted)) {
+      task.status = "completed";
+      task.result = report ? formatTaskReport(report, result.result) : result.result;
+      task.resultSummary = undefined;
+      task.completedAt = new Date();
+      summary.completed++;
+      summary.log += `**[OK]** Completed by ${owner}${report ? ` (reported: ${report.summary})` : ""}\n`;
+    } else if (result.skipped) {
+      // 세션을 만들기 전에 중단됨: 다음 실행에서 그대로 시작되도록 pending 유지
+      task.status = "pending";
+      summary.skipped.push(task);
+      summary.log += `**[SKIPPED]** Not started: ${result.error}\n`;
+    } else if (options.signal?.aborted) {
+      // 취소는 실패가 아니므로 후속 태스크를 blocked 처리하지 않음
+      task.status = "cancelled";
+      task.error = abortReason(options.signal);
+      summary.cancelled++;
+      summary.log += `**[CANCELLED]** Stopped while running on ${owner}: ${task.error}\n`;
+    } else {
+      task.status = "error";
+      task.error = result.error;
+      summary.failed++;
+      summary.log += `**[FAIL]** Error: ${result.error}\n`;
+
+      const blocked = blockDependents(team, task);
+      summary.blocked += blocked.length;
+      if (blocked.length > 0) {
+        summary.log += `**[BLOCKED]** ${blocked.map(t => t.subject).join(", ")}\n`;
+      }
+    }
+    teamStore.save(team);
+  };
+
+  // 이전 실행에서 실패한 태스크의 후속 태스크는 대기 대신 blocked 처리
+  for (const task of team.tasks.values()) {
+    if (task.status === "error") {
+      summary.blocked += blockDependents(team, task).length;
+    }
+  }
+
+  const startReady = (): void => {
+    if (enforceBudget(team) || options.signal?.aborted) return;
+
+    let progressed = true;
+    // 담당자 없는 태스크는 즉시 완료되어 후속 태스크를 풀 수 있으므로 반복
+    while (progressed) {
+      progressed = false;
+      for (const task of getExecutableTasks(team)) {
+        if (options.scope && !options.scope.has(task.id)) continue;
+        if (task.claimable && !task.owner) continue;
+
+        if (!task.owner || !team.agents.has(task.owner)) {
+          task.status = "completed";
+          task.completedAt = new Date();
+          summary.completed++;
+          summary.log += `### ${task.subject} (${task.id})\n**[OK]** Marked complete (no owner)\n`;
+          progressed = true;
+          continue;
+        }
+
+        if (running.size >= options.maxConcurrency) continue;
+
+        const owner = task.owner;
+        if (busyAgents.has(owner)) continue;
+
+        busyAgents.add(owner);
+        task.status = "in_progress";
+        running.set(
+          task.id,
+          runTask(task, owner).finally(() => {
+            running.delete(task.id);
+            busyAgents.delete(owner);
+          })
+        );
+      }
+    }
+    teamStore.save(team);
+  };
+
+  // 실행 중 에이전트가 만들거나 가져간 태스크는 같은 실행에서 바로 시작
+  let wake = (): void => {};
+  let woken = new Promise<void>(resolve => (wake = resolve));
+  const onTaskAdded = (task: Task): void => {
+    options.scope?.add(task.id);
+    wake();
+  };
+  const wakers = schedulerWakers.get(team.id) ?? new Set();
+  wakers.add(onTaskAdded);
+  schedulerWakers.set(team.id, wakers);
+
+  try {
+    startReady();
+    while (running.size > 0) {
+      await Promise.race([...running.values(), woken]);
+      woken = new Promise<void>(resolve => (wake = resolve));
+      startReady();
+    }
+  } finally {
+    wakers.delete(onTaskAdded);
+    if (wakers.size === 0) schedulerWakers.delete(team.id);
+  }
+
+  if (options.signal?.aborted) {
+    summary.stopReason = abortReason(options.signal);
+    for (const task of team.tasks.values()) {
+      if (task.status !== "pending" || summary.skipped.includes(task)) continue;
+      if (options.scope && !options.scope.has(task.id)) continue;
+      summary.skipped.push(task);
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// HANDOFF
+// ============================================================================
+
+// 태스크 프롬프트에 덧붙이는 협업 도구 안내
+function handoffInstructions(team: Team, task: Task): string {
+  const members = Array.from(team.agents.entries()).map(([name, agent]) => `${name} (${agent.role})`);
+  let prompt = `## 팀 협업\n`;
+  prompt += `현재 태스크: ${task.id} / 팀원: ${members.join(", ")}\n`;
+  prompt += `- 다른 팀원이 처리해야 할 후속 작업을 발견하면 task-handoff로 태스크를 만드세요 (owner를 생략하면 누구나 task-claim으로 가져갈 수 있음)\n`;
+  prompt += `- 담당자 없는 대기 태스크는 task-claim으로 가져올 수 있습니다\n`;
+  prompt += `- 작업을 마치면 task-complete로 요약(summary), 세부 내용(details), 변경한 파일(artifacts)을 보고하세요\n`;
+  return prompt;
+}
+
+function formatTaskReport(report: TaskReport, fallback?: string): string {
+  let text = `**Summary**: ${report.summary}\n`;
+  const details = report.details ?? fallback;
+  if (details) {
+    text += `\n${details}\n`;
+  }
+  if (report.artifacts && report.artifacts.length > 0) {
+    text += `\n**Artifacts**: ${report.artifacts.join(", ")}\n`;
+  }
+  return text;
+}
+
+// 도구를 호출한 세션이 속한 팀/에이전트. 팀 세션이 아니면 오류 메시지
+function resolveSessionScope(sessionID: string): { team: Team; scope: SessionScope } | string {
+  const scope = sessionScopes.get(sessionID);
+  if (!scope) {
+    return "Error: This tool can only be used by an agent running inside a squad team";
+  }
+  const team = teamStore.get(scope.teamId);
+  if (!team) {
+    return `Error: Team ${scope.teamId} not found`;
+  }
+  return { team, scope };
+}
+
+// 태스크 ID 또는 계획 키로 조회
+function findTask(team: Team, ref: string): Task | undefined {
+  return team.tasks.get(ref) ?? Array.from(team.tasks.values()).find(t => t.key === ref);
+}
+
+// 진행 중인 runTaskGraph가 새 태스크를 바로 시작하도록 알림. 알림을 받은 실행이 있으면 true
+function notifyScheduler(team: Team, task: Task): boolean {
+  const wakers = schedulerWakers.get(team.id);
+  if (!wakers || wakers.size === 0) return false;
+  for (const wake of wakers) wake(task);
+  return true;
+}
+
+// ============================================================================
+// FINDINGS
+// ============================================================================
+
+const FindingSchema = z.object({
+  file: z.string().min(1).describe("Path relative to the project root"),
+  startLine: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+  severity: z.enum(SEVERITIES),
+  category: z.string().min(1).describe("e.g. injection, auth, crypto, performance, correctness, style"),
+  cwe: z.string().regex(/^(CWE-)?\d+$/i, "use the form CWE-79").optional(),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  suggestedFix: z.string().optional(),
+});
+
+const FINDINGS_PROMPT = `
+## 구조화된 발견 사항
+발견한 문제는 하나도 빠짐없이 finding-report 도구로 보고하세요 (file, startLine/endLine, severity, category, cwe, title, description, suggestedFix).
+최종 답변은 요약만 써도 됩니다. 보고한 발견 사항은 잘리지 않고 그대로 보존됩니다.
+`;
+
+// ============================================================================
+// PLAN FILES
+// ============================================================================
+
+const PLAN_KEY_PATTERN = /^[\w.-]+$/;
+
+const PlanTaskSchema = z.object({
+  key: z.string().regex(PLAN_KEY_PATTERN, "keys may only contain letters, digits, '_', '-' and '.'"),
+  subject: z.string().min(1),
+  description: z.string().optional(),
+  owner: z.string().optional(),
+  needs: z.union([z.string(), z.array(z.string())]).optional(),
+  includeUpstream: z.boolean().optional(),
+  maxAttempts: z.number().int().positive().optional(),
+  retryBackoff: z.number().nonnegative().optional(),
+  retryOn: z.enum(["any", "timeout"]).optional(),
+});
+
+const PlanSchema = z.object({
+  tasks: z.array(PlanTaskSchema).min(1),
+});
+
+function parsePlan(content: string, format: PlanFormat): PlanTask[] {
+  let raw: unknown;
+  if (format === "markdown") {
+    raw = parseMarkdownPlan(content);
+  } else {
+    raw = format === "json" ? JSON.parse(content) : Bun.YAML.parse(content);
+  }
+
+  // tasks를 key → 정의 맵으로 쓴 경우 배열로 정규화
+  if (raw && typeof raw === "object" && "tasks" in raw) {
+    const tasks = (raw as { tasks: unknown }).tasks;
+    if (tasks && typeof tasks === "object" && !Array.isArray(tasks)) {
+      raw = {
+        tasks: Object.entries(tasks as Record<string, object>).map(([key, def]) => ({ key, ...def })),
+      };
+    }
+  }
+
+  const parsed = PlanSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid plan: ${issues}`);
+  }
+  return parsed.data.tasks;
+}
+
+// 계획을 검증하고 팀과 분리된 태스크를 만듦 (팀과 저장소는 건드리지 않음)
+function buildPlanTasks(team: Team, plan: PlanTask[]): { created: Map<string, Task>; errors: string[] } {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  const existingKeys = new Map(
+    Array.from(team.tasks.values()).filter(t => t.key).map(t => [t.key!, t] as const)
+  );
+
+  for (const entry of plan) {
+    if (keys.has(entry.key)) errors.push(`Duplicate key "${entry.key}"`);
+    keys.add(entry.key);
+    if (existingKeys.has(entry.key)) errors.push(`Key "${entry.key}" already exists in team (${existingKeys.get(entry.key)!.id})`);
+    if (entry.owner && !team.agents.has(entry.owner)) {
+      errors.push(`Task "${entry.key}": unknown owner "${entry.owner}" (team: ${Array.from(team.agents.keys()).join(", ")})`);
+    }
+    for (const need of planNeeds(entry)) {
+      if (!plan.some(t => t.key === need) && !existingKeys.has(need) && !team.tasks.has(need)) {
+        errors.push(`Task "${entry.key}": unknown dependency "${need}"`);
+      }
+    }
+  }
+
+  if (team.tasks.size + plan.length > MAX_TASKS) {
+    errors.push(`Plan would exceed MAX_TASKS (${team.tasks.size} existing + ${plan.length} > ${MAX_TASKS})`);
+  }
+  if (errors.length > 0) return { created: new Map(), errors };
+
+  const created = new Map<string, Task>();
+  for (const entry of plan) {
+    const task = newTask(entry.subject, entry.description ?? entry.subject, entry.owner);
+    task.key = entry.key;
+    if (entry.includeUpstream === false) task.includeUpstream = false;
+    task.retry = buildRetryPolicy(entry.maxAttempts, entry.retryBackoff, entry.retryOn);
+    created.set(entry.key, task);
+  }
+
+  const resolve = (ref: string): Task | undefined =>
+    created.get(ref) ?? existingKeys.get(ref) ?? team.tasks.get(ref);
+
+  for (const entry of plan) {
+    const task = created.get(entry.key)!;
+    task.blockedBy = planNeeds(entry).map(need => resolve(need)!.id);
+  }
+
+  // 기존 태스크 + 새 태스크로 순환 여부 확인
+  const tasks = new Map(team.tasks);
+  for (const task of created.values()) tasks.set(task.id, task);
+  const cyclic = findCyclicDependencies({ tasks });
+  if (cyclic.length > 0) {
+    const names = cyclic.map(id => tasks.get(id)?.key ?? id);
+    return { created: new Map(), errors: [`Cyclic dependencies: ${names.join(", ")}`] };
+  }
+
+  return { created, errors: [] };
+}
+
+// 계획 전체를 검증한 뒤에만 팀에 태스크 추가 (검증 실패 시 팀은 그대로, 저장은 호출한 쪽에서 한 번)
+function importPlan(team: Team, plan: PlanTask[]): { created: Map<string, Task>; errors: string[] } {
+  const { created, errors } = buildPlanTasks(team, plan);
+  if (errors.length > 0) return { created, errors };
+
+  for (const task of created.values()) {
+    team.tasks.set(task.id, task);
+    for (const depId of task.blockedBy) {
+      const dep = team.tasks.get(depId);
+      if (dep && !dep.blocks.includes(task.id)) dep.blocks.push(task.id);
+    }
+  }
+
+  return { created, errors: [] };
+}
+
+// importPlan과 같은 검증만 수행 (팀과 저장소는 그대로)
+function validatePlan(team: Team, plan: PlanTask[]): string[] {
+  return buildPlanTasks(team, plan).errors;
+}
+
+function exportPlan(team: Team, format: PlanFormat): string {
+  const keyOf = (task: Task): string => task.key ?? task.id;
+  const tasks = Array.from(team.tasks.values()).map(task => {
+    const entry: Record<string, unknown> = { key: keyOf(task), subject: task.subject };
+    if (task.description !== task.subject) entry.description = task.description;
+    if (task.owner) entry.owner = task.owner;
+    const needs = dependenciesOf(team, task).map(keyOf);
+    if (needs.length > 0) entry.needs = needs;
+    if (task.includeUpstream === false) entry.includeUpstream = false;
+    if (task.retry) {
+      entry.maxAttempts = task.retry.maxAttempts;
+      entry.retryBackoff = task.retry.backoffMs / 1000;
+      entry.retryOn = task.retry.retryOn;
+    }
+    return { entry, done: task.status === "completed" };
+  });
+
+  if (format === "json") {
+    return JSON.stringify({ tasks: tasks.map(t => t.entry) }, null, 2) + "\n";
+  }
+  if (format === "yaml") {
+    return Bun.YAML.stringify({ tasks: tasks.map(t => t.entry) }, null, 2) + "\n";
+  }
+
+  // Markdown은 들여쓰기 대신 needs: 주석으로 모든 의존성을 평평하게 기록
+  let md = `# ${team.name}\n\n`;
+  for (const { entry, done } of tasks) {
+    md += `- [${done ? "x" : " "}] ${entry.key}: ${entry.subject}`;
+    if (entry.owner) md += ` @${entry.owner}`;
+    for (const name of MARKDOWN_PLAN_OPTIONS) {
+      if (entry[name] !== undefined) md += ` ${name}: ${entry[name]}`;
+    }
+    if (entry.needs) md += ` needs: ${(entry.needs as string[]).join(", ")}`;
+    md += `\n`;
+    if (entry.description) {
+      md += String(entry.description).split("\n").map(line => `  ${line}`).join("\n") + `\n`;
+    }
+  }
+  return md;
+}
+
+// ============================================================================
+// TASK GRAPH
+// ============================================================================
+
+// ============================================================================
+// PLANNER
+// ============================================================================
+
+const PLANNER_PROMPT = `
+당신은 팀의 계획(Planner) 담당입니다. 목표를 팀원들이 나눠 수행할 태스크 DAG로 분해하세요.
+
+## 규칙
+1. 각 태스크는 한 에이전트가 한 번에 끝낼 수 있는 크기로
+2. owner는 반드시 아래 팀원 이름 중 하나
+3. needs에는 먼저 끝나야 하는 태스크의 key만 (순환 금지)
+4. 서로 독립적인 태스크는 needs 없이 병렬로 실행되도록
+
+## 출력 형식
+아래 JSON Schema를 따르는 JSON 하나만 \`\`\`json 코드 블록으로 출력하세요.
+`;
+
+const PLAN_OUTPUT_SCHEMA = JSON.stringify(z.toJSONSchema(PlanSchema), null, 2);
+
+function buildPlannerPrompt(team: Team, goal: string, previousErrors: string[]): string {
+  const members = Array.from(team.agents.entries()).map(([name, agent]) => `- ${name}: ${agent.role}`);
+  let prompt = `${PLANNER_PROMPT}\n\`\`\`json\n${PLAN_OUTPUT_SCHEMA}\n\`\`\`\n\n# 팀원\n${members.join("\n")}\n\n# 목표\n${goal}`;
+  if (previousErrors.length > 0) {
+    prompt += `\n\n# 이전 응답의 오류 (수정해서 다시 출력)\n${previousErrors.map(e => `- ${e}`).join("\n")}`;
+  }
+  return prompt;
+}
+
+// owner 없는 태스크는 실행 없이 완료 처리되므로 planner 출력에서는 owner 필수
+function checkPlannerOutput(team: Team, text: string): { tasks: PlanTask[]; errors: string[] } {
+  let tasks: PlanTask[];
+  try {
+    tasks = parsePlan(extractJson(text), "json");
+  } catch (error) {
+    return { tasks: [], errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const errors = tasks.filter(t => !t.owner).map(t => `Task "${t.key}" has no owner`);
+  errors.push(...validatePlan(team, tasks));
+  return { tasks, errors };
+}
+
+async function generatePlan(
+  team: Team,
+  planner: string,
+  goal: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<{ tasks: PlanTask[]; errors: string[]; usage: Usage }> {
+  let usage = emptyUsage();
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= PLANNER_MAX_ATTEMPTS; attempt++) {
+    if (enforceBudget(team) || signal?.aborted) {
+      return { tasks: [], errors: [abortReason(signal)], usage };
+    }
+
+    const startedAt = Date.now();
+    let sessionID: string | null = null;
+    try {
+      const agentName = planner === LEAD_AGENT ? null : planner;
+      ({ sessionID } = await spawnAgentSession(agentName, buildPlannerPrompt(team, goal, errors)));
+      trackSession(team, sessionID);
+      const text = await waitForSessionCompletion(sessionID, timeout, signal);
+      usage = addUsage(usage, await fetchSessionUsage(sessionID, startedAt));
+      const checked = checkPlannerOutput(team, text);
+      if (checked.errors.length === 0) {
+        return { tasks: checked.tasks, errors: [], usage };
+      }
+      errors = checked.errors;
+      console.warn(`[squad] Planner attempt ${attempt} produced an invalid plan: ${errors.join("; ")}`);
+    } catch (error) {
+      // 타임아웃/취소는 다시 요청해도 소용없으므로 바로 중단
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { tasks: [], errors: [errorMessage], usage: sessionID ? addUsage(usage, await fetchSessionUsage(sessionID, startedAt)) : usage };
+    } finally {
+      if (sessionID) {
+        await cleanupSession(sessionID);
+      }
+    }
+  }
+
+  return { tasks: [], errors, usage };
+}
+
+function formatPlan(plan: TeamPlan): string {
+  const stages = planStages(plan.tasks);
+  let response = `**Planner**: ${plan.planner}\n`;
+  response += `**Goal**: ${plan.goal}\n\n`;
+  response += `| Stage | Key | Subject | Owner | Needs |\n`;
+  response += `|-------|-----|---------|-------|-------|\n`;
+  const ordered = [...plan.tasks].sort((a, b) => stages.get(a.key)! - stages.get(b.key)!);
+  for (const task of ordered) {
+    response += `| ${stages.get(task.key)} | ${task.key} | ${task.subject} | ${task.owner ?? "-"} | ${planNeeds(task).join(", ") || "-"} |\n`;
+  }
+
+  const described = ordered.filter(t => t.description);
+  if (described.length > 0) {
+    response += `\n### Details\n`;
+    for (const task of described) {
+      response += `- **${task.key}**: ${truncateText(task.description!, MAX_CONTEXT_LENGTH)}\n`;
+    }
+  }
+
+  return response;
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+const PRESETS: Record<string, string[]> = {
+  review: ["code-reviewer", "security-auditor", "devil-s-advocate"],
+  security: ["security-auditor", "devil-s-advocate"],
+  debug: ["debugger", "devil-s-advocate"],
+  planning: ["planner", "devil-s-advocate"],
+  implementation: [
+    "backend-developer",
+    "frontend-developer",
+    "test-automator",
+    "devil-s-advocate",
+  ],
+  fullstack: ["fullstack-developer", "devil-s-advocate"],
+  research: ["explore", "data-scientist", "devil-s-advocate"],
+  ai: ["ai-engineer", "llm-architect", "prompt-engineer", "devil-s-advocate"],
+};
+
+// 구조화된 발견 사항을 요청하는 내장 프리셋
+const FINDINGS_PRESETS = ["review", "security"];
+
+const PresetConfigSchema = z.object({
+  agents: z.array(z.string().min(1)).min(1),
+  roles: z.record(z.string(), z.string()).optional(),
+  timeout: z.number().positive().optional().describe("Default timeout in seconds per agent"),
+  budget: z.object({
+    maxTokens: z.number().positive().optional(),
+    maxCost: z.number().positive().optional(),
+    maxWallClockSeconds: z.number().positive().optional(),
+  }).optional().describe("Default team budget"),
+  keywords: z.array(z.string().min(1)).optional(),
+  devilsAdvocate: z.boolean().optional(),
+  findings: z.boolean().optional().describe("Ask agents for structured findings via finding-report"),
+  description: z.string().optional(),
+});
+
+type PresetConfig = ReturnType<typeof PresetConfigSchema.parse>;
+
+function toPresetDefinition(name: string, config: PresetConfig, source: string): PresetDefinition {
+  const devilsAdvocate = config.devilsAdvocate ?? true;
+
+  return {
+    name,
+    agents: presetAgents(config.agents, devilsAdvocate),
+    roles: config.roles ?? {},
+    timeout: config.timeout,
+    budget: config.budget,
+    keywords: (config.keywords ?? []).map(k => k.toLowerCase()),
+    devilsAdvocate,
+    findings: config.findings ?? false,
+    description: config.description,
+    source,
+  };
+}
+
+function registerPreset(
+  registry: Map<string, PresetDefinition>,
+  name: string,
+  raw: unknown,
+  source: string
+): void {
+  const parsed = PresetConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    presetErrors.push(`${name} (${source}): ${issues}`);
+    return;
+  }
+  registry.set(name, toPresetDefinition(name, parsed.data, source));
+}
+
+// 우선순위: 내장 < ~/.opencode/squad/presets/*.json < opencode.json의 squad.presets
+function loadPresets(configPresets: unknown): Map<string, PresetDefinition> {
+  const registry = new Map<string, PresetDefinition>();
+  presetErrors = [];
+
+  for (const [name, agents] of Object.entries(PRESETS)) {
+    registry.set(name, toPresetDefinition(
+      name,
+      { agents, keywords: PRESET_KEYWORDS[name], findings: FINDINGS_PRESETS.includes(name) },
+      "built-in"
+    ));
+  }
+
+  if (fs.existsSync(USER_PRESETS_DIR)) {
+    try {
+      const files = fs.readdirSync(USER_PRESETS_DIR).filter(f => f.endsWith(".json")).sort();
+      for (const file of files) {
+        const filePath = path.join(USER_PRESETS_DIR, file);
+        try {
+          const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+          registerPreset(registry, path.basename(file, ".json"), raw, filePath);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          presetErrors.push(`${file} (${filePath}): ${errorMessage}`);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`[squad] Failed to read presets directory: ${errorMessage}`);
+    }
+  }
+
+  if (configPresets !== undefined) {
+    if (configPresets && typeof configPresets === "object" && !Array.isArray(configPresets)) {
+      for (const [name, raw] of Object.entries(configPresets)) {
+        registerPreset(registry, name, raw, "opencode.json");
+      }
+    } else {
+      presetErrors.push("squad.presets (opencode.json): expected an object keyed by preset name");
+    }
+  }
+
+  for (const error of presetErrors) {
+    console.warn(`[squad] Invalid preset ${error}`);
+  }
+
+  presetRegistry = registry;
+  return registry;
+}
+
+function getPreset(name: string): PresetDefinition | undefined {
+  return presetRegistry.get(name);
+}
+
+// 키워드 신뢰도가 낮을 때 가벼운 분류 호출 (squad.classifierAgent로 저렴한 모델 지정 가능)
+async function classifyPreset(request: string, candidates: string[]): Promise<string | null> {
+  const lines = Array.from(presetRegistry.values())
+    .filter(p => candidates.length === 0 || candidates.includes(p.name))
+    .map(p => `- ${p.name}: ${p.description ?? p.agents.join(", ")}`);
+
+  const prompt = `Classify the request into exactly one team preset.\n\n## Presets\n${lines.join("\n")}\n\n## Request\n${request}\n\nAnswer with the preset name only.`;
+
+  let sessionID: string | null = null;
+  try {
+    ({ sessionID } = await spawnAgentSession(classifierAgent, prompt));
+    const answer = (await waitForSessionCompletion(sessionID, CLASSIFIER_TIMEOUT_SECONDS * 1000)).toLowerCase();
+    const names = Array.from(presetRegistry.keys()).sort((a, b) => b.length - a.length);
+    return names.find(name => new RegExp(`(?<![a-z0-9-])${escapeRegExp(name)}(?![a-z0-9-])`).test(answer)) ?? null;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[squad] Preset classifier failed: ${errorMessage}`);
+    return null;
+  } finally {
+    if (sessionID) {
+      await cleanupSession(sessionID);
+    }
+  }
+}
+
+async function resolvePreset(request: string, useClassifier: boolean): Promise<PresetDetection> {
+  const detection = detectPreset(request, presetRegistry);
+  if (!useClassifier || detection.confidence >= MIN_DETECTION_MARGIN) {
+    return detection;
+  }
+
+  // 점수가 비슷한 후보만 (없으면 전체) 분류기에 전달
+  const candidates = detection.scores
+    .filter(s => detection.scores[0] && s.score >= detection.scores[0].score * COMBINE_SCORE_RATIO)
+    .map(s => s.preset);
+  const classified = await classifyPreset(request, candidates);
+  if (!classified) {
+    return { ...detection, reason: `${detection.reason}; classifier gave no answer` };
+  }
+
+  return {
+    ...detection,
+    preset: classified,
+    presets: [classified],
+    method: "classifier",
+    reason: `${detection.reason}; low keyword confidence (${detection.confidence.toFixed(2)}), classifier chose ${classified}`,
+  };
+}
+
+// 여러 프리셋의 에이전트를 합침 (역할 덮어쓰기는 앞선 프리셋 우선, 타임아웃은 최대값)
+function combinePresets(names: string[]): PresetDefinition | undefined {
+  const defs = names.map(getPreset).filter((p): p is PresetDefinition => p !== undefined);
+  if (defs.length <= 1) return defs[0];
+
+  const agents = Array.from(new Set(defs.flatMap(d => d.agents.filter(a => !isDevilsAdvocate(a)))));
+  const devilsAdvocate = defs.some(d => d.devilsAdvocate);
+  if (devilsAdvocate) agents.push(DEVILS_ADVOCATE_AGENT);
+
+  const timeouts = defs.map(d => d.timeout).filter((t): t is number => t !== undefined);
+  // 예산은 항목별로 가장 엄격한 한도
+  const strictest = (key: keyof Budget): number | undefined => {
+    const limits = defs.map(d => d.budget?.[key]).filter((v): v is number => v !== undefined);
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  };
+
+  return {
+    name: defs.map(d => d.name).join("+"),
+    agents,
+    roles: Object.assign({}, ...defs.slice().reverse().map(d => d.roles)),
+    timeout: timeouts.length > 0 ? Math.max(...timeouts) : undefined,
+    budget: buildBudget(strictest("maxTokens"), strictest("maxCost"), strictest("maxWallClockSeconds")),
+    keywords: defs.flatMap(d => d.keywords),
+    devilsAdvocate,
+    findings: defs.some(d => d.findings),
+    source: "combined",
+  };
+}
+
+// 프리셋 역할 덮어쓰기 > opencode.json 설명 > 에이전트 이름
+function resolveAgentRole(
+  name: string,
+  preset: PresetDefinition | undefined,
+  availableAgents: Record<string, OpenCodeAgent>
+): string {
+  return preset?.roles[name]
+    ?? extractRoleFromDescription(availableAgents[name]?.description, name);
+}
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+const budgetArgs = {
+  maxTokens: z.number().optional().describe("Team budget: max tokens (input + output + reasoning), 0 removes the limit"),
+  maxCost: z.number().optional().describe("Team budget: max cost in USD, 0 removes the limit"),
+  maxWallClock: z.number().optional().describe("Team budget: max wall-clock seconds across runs, 0 removes the limit"),
+};
+
+const gitTargetArgs = {
+  target: z.string().optional().describe('Git review target: "working" (uncommitted changes), "staged", "base..head", "base...head", or a branch/commit (compared as ref...HEAD)'),
+  paths: z.array(z.string()).optional().describe("Limit the target to these paths; without target, review these files' full contents"),
+  diffBudget: z.number().optional().describe(`Max characters of diff added to each agent prompt (default: ${DEFAULT_GIT_CONTEXT_BUDGET})`),
+};
+
+// target/paths가 있으면 diff를 수집해 team.git과 diff 파일에 저장, 실패하면 오류 문자열
+async function attachGitTarget(
+  team: Team,
+  args: { target?: string; paths?: string[]; diffBudget?: number },
+  directory: string
+): Promise<string | undefined> {
+  if (!args.target && !args.paths?.length) return undefined;
+  try {
+    const { git, diff } = await captureGitTarget(directory, args.target, args.paths, args.diffBudget);
+    team.git = { ...git, diffFile: `${team.id}.git.diff` };
+    storeGitDiff(team.git, diff);
+    return undefined;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `Error: ${errorMessage}`;
+  }
+}
+
+const resultModeArg = z
+  .enum(["summary", "full"])
+  .optional()
+  .describe(`summary: ${MAX_RESULT_LENGTH} chars per agent with a /team-result pointer (default); full: complete results`);
+
+const teamSpawnTool = tool({
+  description: "Spawn a real agent team with actual OpenCode subagents",
+  args: {
+    preset: z
+      .string()
+      .optional()
+      .describe("Preset name or comma-separated agent names"),
+    teamName: z.string().describe("Name for the team"),
+    task: z.string().describe("Task description for the team"),
+    ...budgetArgs,
+    ...gitTargetArgs,
+  },
+  async execute(args, context) {
+    if (!globalClient) {
+      return "Error: OpenCode client not available";
+    }
+
+    const presetValue = args.preset ?? DEFAULT_PRESET;
+    const teamId = `team-${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const availableAgents = loadOpenCodeAgents();
+    const preset = getPreset(presetValue);
+
+    const agentNames =
+      preset?.agents ??
+      presetValue.split(",").map((s) => s.trim()).filter(Boolean);
+
+    if (agentNames.length === 0) {
+      return `Error: No agents specified. Available: ${Object.keys(availableAgents).join(", ")}`;
+    }
+
+    const team: Team = {
+      id: teamId,
+      name: args.teamName,
+      preset: presetValue,
+      agents: new Map(),
+      tasks: new Map(),
+      createdAt: new Date(),
+      task: args.task,
+      timeout: preset?.timeout,
+      budget: buildBudget(args.maxTokens, args.maxCost, args.maxWallClock, preset?.budget),
+      findings: preset?.findings,
+    };
+
+    const gitError = await attachGitTarget(team, args, context.directory);
+    if (gitError) {
+      return gitError;
+    }
+
+    const missingAgents: string[] = [];
+    for (const name of agentNames) {
+      const agentDef = availableAgents[name];
+      if (!agentDef) {
+        missingAgents.push(name);
+      }
+      team.agents.set(name, {
+        name,
+        sessionID: null,
+        role: resolveAgentRole(name, preset, availableAgents),
+        status: "idle",
+      });
+    }
+
+    teamStore.add(team);
+    enforceMaxTeams();
+    teamStore.save(team);
 
     let response = `## Team "${args.teamName}" Created\n\n`;
     response += `**Team ID**: ${teamId}\n`;
-    response += `**Preset**: ${presetValue}\n`;
+    response += `**Preset**: ${presetValue}${preset ? ` (${preset.source})` : ""}\n`;
+    response += `**Agents**: ${team.agents.size}\n`;
+    if (team.git) {
+      response += `**Git target**: ${formatGitTargetLine(team.git)}\n`;
+    }
+    if (team.budget) {
+      response += `**Budget**:\n${formatBudget(team)}`;
+    }
+    response += `\n### Agents\n`;
+
+    for (const [name, agent] of team.agents) {
+      const defined = availableAgents[name] ? "[OK]" : "[WARN] (not in config)";
+      response += `- **${name}** (${agent.role}) ${defined}\n`;
+    }
+
+    if (missingAgents.length > 0) {
+      response += `\n[WARN] **Warning**: Not in opencode.json: ${missingAgents.join(", ")}\n`;
+    }
+
+    response += `\n### Task\n${args.task}\n`;
+    response += `\n---\n`;
+    response += `Use \`/team-execute teamId="${teamId}"\` to run.\n`;
+
+    return response;
+  },
+});
+
+const teamExecuteTool = tool({
+  description: "Execute team agents in parallel and collect results",
+  args: {
+    teamId: z.string().describe("Team ID to execute"),
+    timeout: z.number().optional().describe("Timeout in seconds per agent"),
+    synthesize: z.boolean().optional().describe("Merge all agent results into one report after the run"),
+    synthesizer: z.string().optional().describe(`Agent that writes the synthesis (default: ${LEAD_AGENT} model)`),
+    resultMode: resultModeArg,
+  },
+  async execute(args, context) {
+    if (!globalClient) {
+      return "Error: OpenCode client not available";
+    }
+
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const exhausted = budgetExceeded(team);
+    if (exhausted) {
+      return budgetExhaustedError(team, exhausted);
+    }
+
+    // Initialize tasks if needed
+    if (!team.tasks) {
+      team.tasks = new Map();
+    }
+
+    const timeout = (args.timeout ?? team.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    team.results = new Map();
+
+    let response = `## Executing Team "${team.name}"\n\n`;
+    response += `**Task**: ${team.task}\n`;
     response += `**Agents**: ${team.agents.size}\n\n`;
-    response += `### Agents\n`;
 
-    for (const [name, agent] of team.agents) {
-      const defined = availableAgents[name] ? "[OK]" : "[WARN] (not in config)";
-      response += `- **${name}** (${agent.role}) ${defined}\n`;
+    response += await withTeamRun(team, context, async signal => {
+      const settledResults = await executeAllAgents(team, team.task, timeout, signal);
+
+      let r = formatExecutionResults(team, settledResults, args.resultMode);
+
+      if (signal.aborted) {
+        r += formatStopped(abortReason(signal), settledResults.filter(res => res.skipped).map(res => res.name));
+      } else if (args.synthesize || args.synthesizer) {
+        const synthesis = await synthesizeResults(
+          team,
+          settledResults,
+          args.synthesizer ?? LEAD_AGENT,
+          timeout,
+          signal
+        );
+        r += formatSynthesis(synthesis);
+      }
+
+      return r;
+    });
+
+    return response;
+  },
+});
+
+const teamDiscussTool = tool({
+  description: "Run a discussion between team agents with context sharing",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    topic: z.string().describe("Discussion topic"),
+    rounds: z.number().optional().describe("Number of rounds (default: 2, max: 3)"),
+  },
+  async execute(args, context) {
+    if (!globalClient) {
+      return "Error: OpenCode client not available";
+    }
+
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const exhausted = budgetExceeded(team);
+    if (exhausted) {
+      return budgetExhaustedError(team, exhausted);
+    }
+
+    const rounds = Math.min(Math.max(args.rounds ?? 2, 1), 3);
+    let contextSoFar = "";
+
+    let response = `## Discussion: ${truncateText(args.topic, 100)}\n\n`;
+    response += `**Team**: ${team.name}\n`;
+    response += `**Rounds**: ${rounds}\n\n`;
+
+    await withTeamRun(team, context, async signal => {
+      const skipped: string[] = [];
+
+      for (let r = 1; r <= rounds; r++) {
+        if (!signal.aborted) response += `### Round ${r}\n\n`;
+
+        for (const [name, agent] of team.agents) {
+          // 취소됐거나 예산이 소진되면 남은 발언은 세션 없이 건너뜀
+          if (enforceBudget(team) || signal.aborted) {
+            skipped.push(`${name} (round ${r})`);
+            continue;
+          }
+
+          const prompt = injectInbox(
+            team,
+            name,
+            agent,
+            r === 1
+              ? `${args.topic}\n\n당신은 ${name} 역할입니다. 분석해주세요.`
+              : `${args.topic}\n\n## 이전 분석:\n${contextSoFar}\n\n## 추가 분석:\n${name}으로서 새로운 관점을 제시해주세요.`
+          );
+
+          const startedAt = Date.now();
+          let sessionID: string | null = null;
+          try {
+            agent.startedAt = new Date(startedAt);
+            setAgentStatus(team, name, agent, "thinking", `round ${r}`);
+            ({ sessionID } = await spawnAgentSession(name, prompt));
+            agent.sessionID = sessionID;
+            trackSession(team, sessionID);
+            setAgentStatus(team, name, agent, "responding", sessionID);
+
+            const result = await waitForSessionCompletion(sessionID, DEFAULT_TIMEOUT_MS, signal);
+            agent.result = result;
+            await recordAgentUsage(agent, sessionID, startedAt);
+            setAgentStatus(team, name, agent, "completed", `round ${r}`);
+
+            contextSoFar += `\n### ${name} (Round ${r}):\n${truncateText(result, MAX_CONTEXT_LENGTH)}\n`;
+
+            response += `**${name}**:\n`;
+            response += `${truncateText(result, MAX_DISCUSSION_RESULT_LENGTH)}\n\n`;
+          } catch (error) {
+            agent.error = error instanceof Error ? error.message : String(error);
+            await recordAgentUsage(agent, sessionID, startedAt);
+            setAgentStatus(team, name, agent, signal.aborted ? "cancelled" : "error", agent.error);
+            response += signal.aborted
+              ? `**${name}**: [CANCELLED]\n\n`
+              : `**${name}**: [FAIL] Error - ${agent.error}\n\n`;
+          }
+        }
+      }
+
+      if (signal.aborted) {
+        response += formatStopped(abortReason(signal), skipped) + `\n`;
+      }
+    });
+
+    response += `---\n**Team ID**: ${team.id}`;
+
+    return response;
+  },
+});
+
+const teamDebateTool = tool({
+  description: "Run a multi-round debate: agents rebut each other's latest positions until they converge, then a moderator records consensus and dissent",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    topic: z.string().describe("Question or decision to debate"),
+    maxRounds: z.number().optional().describe(`Maximum rounds (default: ${DEFAULT_DEBATE_ROUNDS}, max: ${MAX_DEBATE_ROUNDS})`),
+    moderator: z.string().optional().describe(`Agent that writes the final summary (default: ${LEAD_AGENT} model)`),
+    timeout: z.number().optional().describe("Timeout in seconds per turn"),
+  },
+  async execute(args, context) {
+    if (!globalClient) {
+      return "Error: OpenCode client not available";
+    }
+
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    if (team.agents.size < 2) {
+      return "Error: A debate needs at least two agents";
+    }
+
+    const exhausted = budgetExceeded(team);
+    if (exhausted) {
+      return budgetExhaustedError(team, exhausted);
+    }
+
+    const maxRounds = Math.min(Math.max(args.maxRounds ?? DEFAULT_DEBATE_ROUNDS, 1), MAX_DEBATE_ROUNDS);
+    const timeout = (args.timeout ?? team.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    const members = Array.from(team.agents.keys());
+    const debate: Debate = {
+      topic: args.topic,
+      rounds: [],
+      converged: false,
+      moderator: args.moderator ?? LEAD_AGENT,
+      createdAt: new Date(),
+    };
+    team.debate = debate;
+
+    let response = `## Debate: ${truncateText(args.topic, 100)}\n\n`;
+    response += `**Team**: ${team.name}\n`;
+    response += `**Max Rounds**: ${maxRounds}\n\n`;
+
+    await withTeamRun(team, context, async signal => {
+      for (let round = 1; round <= maxRounds; round++) {
+        if (enforceBudget(team) || signal.aborted) break;
+
+        // 같은 라운드의 참가자는 모두 직전 라운드까지의 입장을 보고 동시에 발언
+        const prompts = members.map(name => buildDebatePrompt(debate, name, round));
+        const turns = await Promise.all(members.map(async (name, index): Promise<DebateTurn> => {
+          const result = await executeAgent(team, name, team.agents.get(name)!, prompts[index], timeout, signal);
+          return result.success && result.result
+            ? parseDebateTurn(name, round, result.result, members)
+            : { agent: name, round, position: "", responses: [], error: result.error ?? "No response" };
+        }));
+
+        debate.rounds.push(turns);
+        teamStore.save(team);
+
+        response += `### Round ${round}\n\n${formatDebateRound(turns)}\n`;
+
+        if (round > 1 && debateConverged(turns, members)) {
+          debate.converged = true;
+          response += `**Converged** after ${round} rounds.\n\n`;
+          break;
+        }
+      }
+
+      if (signal.aborted) {
+        response += formatStopped(abortReason(signal), []) + `\n`;
+        return;
+      }
+      if (!debate.converged) {
+        response += `**Not converged** after ${debate.rounds.length} rounds.\n\n`;
+      }
+
+      const summary = await moderateDebate(team, debate, timeout, signal);
+      response += `## Moderator Summary (${summary.name})\n\n`;
+      response += summary.success ? `${summary.result}\n` : `**[FAIL]** ${summary.error}\n`;
+    });
+
+    teamStore.save(team);
+    response += `\n---\n**Team ID**: ${team.id}`;
+
+    return response;
+  },
+});
+
+const teamStatusTool = tool({
+  description: "Check team status and results",
+  args: {
+    teamId: z.string().optional().describe("Team ID (omit to list all)"),
+  },
+  async execute(args) {
+    if (!args.teamId) {
+      const active = teamStore.list();
+      if (active.length === 0) {
+        return "No active teams. Use `/team-spawn` to create one.";
+      }
+
+      let r = `## Active Teams (${active.length})\n\n`;
+      for (const t of active) {
+        const completed = Array.from(t.agents.values()).filter(
+          (a) => a.status === "completed"
+        ).length;
+        r += `- **${t.name}** (${t.id})\n`;
+        r += `  - Preset: ${t.preset}\n`;
+        r += `  - Progress: ${completed}/${t.agents.size}\n\n`;
+      }
+      return r;
+    }
+
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    let r = `## ${team.name}\n\n`;
+    r += `**Team ID**: ${team.id}\n`;
+    r += `**Preset**: ${team.preset}\n`;
+    r += `**Task**: ${team.task}\n`;
+    if (team.parentId) {
+      r += `**Re-run of**: ${team.parentId}\n`;
+    }
+    if (team.git) {
+      r += `**Git target**: ${formatGitTargetLine(team.git)}\n`;
+    }
+    if (team.plan) {
+      const planState = team.plan.errors ? "rejected" : team.plan.approvedAt ? "approved" : "pending approval";
+      r += `**Plan**: ${team.plan.tasks.length} tasks by ${team.plan.planner} (${planState})\n`;
+    }
+    const findings = teamFindings(team);
+    if (findings.length > 0) {
+      r += `**Findings**: ${findings.length} (see \`/team-findings\`)\n`;
+    }
+    if (team.debate) {
+      r += `**Debate**: ${team.debate.rounds.length} rounds, ${team.debate.converged ? "converged" : "not converged"}${team.debate.summary ? ` (\`/team-result teamId="${team.id}" debate=true\`)` : ""}\n`;
+    }
+    if (team.synthesis) {
+      r += `**Synthesis**: by ${team.synthesis.synthesizer} at ${team.synthesis.createdAt.toISOString()} (${team.synthesis.sources.length} sources)\n`;
+    }
+    r += `\n### Agents\n`;
+
+    const statusIcons: Record<AgentStatus, string> = {
+      idle: "[ ]",
+      thinking: "[*]",
+      responding: "[>]",
+      completed: "[OK]",
+      error: "[!]",
+      cancelled: "[-]",
+    };
+
+    for (const [n, a] of team.agents) {
+      r += `- ${statusIcons[a.status]} **${n}**: ${a.status}\n`;
+      if (a.sessionID) r += `  - Session: ${a.sessionID}\n`;
+      if (a.error) r += `  - Error: ${a.error}\n`;
+      if (a.result) r += `  - Result: ${a.result.length} chars (\`/team-result teamId="${team.id}" agent="${n}"\`)\n`;
+      const partial = a.status === "responding" ? partialPreview(a) : undefined;
+      if (partial) r += `  - Partial: ${partial}\n`;
+      if (a.usage) r += `  - Usage: ${formatUsage(a.usage)}\n`;
+    }
+
+    const usage = teamUsage(team);
+    if (usage.durationMs > 0) {
+      r += `\n### Usage\n`;
+      r += `- Tokens: ${formatTokenCount(totalTokens(usage))} (in ${formatTokenCount(usage.input)}, out ${formatTokenCount(usage.output)}, reasoning ${formatTokenCount(usage.reasoning)})\n`;
+      r += `- Cache: ${formatTokenCount(usage.cacheRead)} read, ${formatTokenCount(usage.cacheWrite)} write\n`;
+      r += `- Cost: ${formatCost(usage.cost)}\n`;
+      r += `- Agent time: ${formatDuration(usage.durationMs)} (wall-clock ${formatDuration(teamWallClockMs(team))})\n`;
+      if (team.plan?.usage) r += `- Planning: ${formatUsage(team.plan.usage)}\n`;
+      if (team.synthesis?.usage) r += `- Synthesis: ${formatUsage(team.synthesis.usage)}\n`;
+    }
+
+    if (team.budget) {
+      const exceeded = budgetExceeded(team);
+      r += `\n### Budget${exceeded ? " [EXHAUSTED]" : ""}\n${formatBudget(team)}`;
+    }
+
+    if (team.tasks && team.tasks.size > 0) {
+      r += `\n### Tasks (${team.tasks.size})\n`;
+      const pending = Array.from(team.tasks.values()).filter(t => t.status === "pending").length;
+      const completed = Array.from(team.tasks.values()).filter(t => t.status === "completed").length;
+      const blocked = Array.from(team.tasks.values()).filter(t => t.status === "blocked").length;
+      const cancelled = Array.from(team.tasks.values()).filter(t => t.status === "cancelled").length;
+      r += `- Pending: ${pending}\n`;
+      r += `- Completed: ${completed}\n`;
+      r += `- Blocked: ${blocked}\n`;
+      if (cancelled > 0) r += `- Cancelled: ${cancelled}\n`;
+    }
+
+    const progress = readProgressTail(team.id);
+    if (progress.length > 0) {
+      r += `\n### Recent Progress\n\`\`\`\n${progress.join("\n")}\n\`\`\`\n`;
+    }
+
+    return r;
+  },
+});
+
+const teamResultTool = tool({
+  description: "Read an agent's, task's, synthesis or debate summary full result page by page, or write all results to a markdown file",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    agent: z.string().optional().describe("Agent name"),
+    task: z.string().optional().describe("Task ID or key"),
+    synthesis: z.boolean().optional().describe("Read the synthesis"),
+    debate: z.boolean().optional().describe("Read the debate moderator summary"),
+    offset: z.number().optional().describe("Character offset to start from (default: 0)"),
+    limit: z.number().optional().describe(`Characters to return (default: ${RESULT_PAGE_LENGTH})`),
+    write: z.boolean().optional().describe("Write every full result to the team's results markdown file and return its path"),
+  },
+  async execute(args) {
+    // 종료/보관된 팀도 저장된 기록에서 읽기 전용으로 조회
+    const team = teamStore.get(args.teamId) ?? teamStore.read(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    if (args.write) {
+      writeResultsFile(team);
+      return `Wrote full results to ${resultsFilePath(team.id)}`;
+    }
+
+    let label: string;
+    let text: string | undefined;
+    let ref: string;
+    if (args.agent) {
+      const agent = team.agents.get(args.agent);
+      if (!agent) {
+        return `Error: Agent ${args.agent} not found in team`;
+      }
+      label = `Agent ${agent.name}`;
+      text = agent.result;
+      ref = `agent="${agent.name}"`;
+    } else if (args.task) {
+      const task = findTask(team, args.task);
+      if (!task) {
+        return `Error: Task ${args.task} not found`;
+      }
+      label = `Task ${task.subject}`;
+      text = task.result;
+      ref = `task="${task.key ?? task.id}"`;
+    } else if (args.synthesis) {
+      label = "Synthesis";
+      text = team.synthesis?.content;
+      ref = "synthesis=true";
+    } else if (args.debate) {
+      label = "Debate summary";
+      text = team.debate?.summary;
+      ref = "debate=true";
+    } else {
+      const sources = resultSources(team);
+      if (sources.length === 0) {
+        return "No results yet. Run `/team-execute` or `/task-execute` first.";
+      }
+
+      let response = `## Results: ${team.name}\n\n`;
+      response += `| Source | Length | Read with |\n`;
+      response += `|--------|--------|-----------|\n`;
+      for (const source of sources) {
+        response += `| ${source.label} | ${source.text.length} chars | \`/team-result teamId="${team.id}" ${source.ref}\` |\n`;
+      }
+      response += `\n**Results file**: ${resultsFilePath(team.id)}\n`;
+      return response;
+    }
+
+    if (!text) {
+      return `No result for ${label}.`;
+    }
+
+    const offset = Math.min(Math.max(0, args.offset ?? 0), text.length);
+    const limit = Math.max(1, args.limit ?? RESULT_PAGE_LENGTH);
+    const end = Math.min(text.length, offset + limit);
+
+    let response = `## ${label} (chars ${offset}-${end} of ${text.length})\n\n`;
+    response += `${text.slice(offset, end)}\n`;
+    if (end < text.length) {
+      response += `\n---\nNext page: \`/team-result teamId="${team.id}" ${ref} offset=${end}\`\n`;
+    }
+
+    return response;
+  }
+});
+
+const teamBudgetTool = tool({
+  description: "Show or change a team's token, cost and wall-clock budget",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    ...budgetArgs,
+  },
+  async execute(args) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const changed = args.maxTokens !== undefined || args.maxCost !== undefined || args.maxWallClock !== undefined;
+    if (changed) {
+      team.budget = buildBudget(args.maxTokens, args.maxCost, args.maxWallClock, team.budget);
+      teamStore.save(team);
+    }
+
+    let r = `## Budget: ${team.name}${changed ? " (updated)" : ""}\n\n`;
+    if (!team.budget) {
+      return `${r}No limits set. Pass maxTokens, maxCost or maxWallClock to add one.\n`;
+    }
+
+    r += formatBudget(team);
+    const exceeded = budgetExceeded(team);
+    if (exceeded) {
+      r += `\n[EXHAUSTED] ${exceeded}: new agent sessions will not start.\n`;
+    }
+    return r;
+  },
+});
+
+const teamReportTool = tool({
+  description: "Compare token usage, cost and latency across presets and agents from saved team runs",
+  args: {
+    preset: z.string().optional().describe("Only include teams of this preset"),
+    days: z.number().optional().describe("Only include teams created in the last N days"),
+  },
+  async execute(args) {
+    const since = args.days ? Date.now() - args.days * 24 * 60 * 60 * 1000 : 0;
+    const runs = teamStore.history().filter(t =>
+      (!args.preset || t.preset === args.preset)
+      && t.createdAt.getTime() >= since
+      && Array.from(t.agents.values()).some(a => a.usage)
+    );
+
+    if (runs.length === 0) {
+      return "No team runs with usage data yet. Run `/team-execute` or `/task-execute` first.";
+    }
+
+    const byPreset = summarizeUsage(runs.map(t => ({
+      key: t.preset,
+      usage: teamUsage(t),
+      wallClockMs: teamWallClockMs(t),
+      error: Array.from(t.agents.values()).some(a => a.status === "error"),
+    })));
+    const byAgent = summarizeUsage(runs.flatMap(t =>
+      Array.from(t.agents.values())
+        .filter(a => a.usage)
+        .map(a => ({ key: a.name, usage: a.usage!, wallClockMs: a.usage!.durationMs, error: a.status === "error" }))
+    ));
+    const byWeek = summarizeUsage(runs.map(t => ({
+      key: `${weekStart(t.createdAt)}|${t.preset}`,
+      usage: teamUsage(t),
+      wallClockMs: teamWallClockMs(t),
+      error: false,
+    })));
+
+    let r = `## Usage Report\n\n`;
+    r += `**Team runs**: ${runs.length}`;
+    if (args.preset) r += ` (preset: ${args.preset})`;
+    if (args.days) r += ` (last ${args.days} days)`;
+    r += `\n\n### By Preset\n`;
+    r += `| Preset | Runs | Avg Tokens | Avg Cost | Avg Wall-clock | Total Cost | Runs with Errors |\n`;
+    r += `|--------|------|------------|----------|----------------|------------|------------------|\n`;
+    for (const [preset, s] of Array.from(byPreset).sort((a, b) => b[1].usage.cost - a[1].usage.cost)) {
+      r += `| ${preset} | ${s.runs} | ${formatTokenCount(Math.round(totalTokens(s.usage) / s.runs))} | `;
+      r += `${formatCost(s.usage.cost / s.runs)} | ${formatDuration(s.wallClockMs / s.runs)} | ${formatCost(s.usage.cost)} | ${s.errors} |\n`;
+    }
+
+    r += `\n### By Agent\n`;
+    r += `| Agent | Runs | Avg Tokens | Avg Cost | Avg Time | Errors |\n`;
+    r += `|-------|------|------------|----------|----------|--------|\n`;
+    for (const [agent, s] of Array.from(byAgent).sort((a, b) => b[1].usage.cost - a[1].usage.cost)) {
+      r += `| ${agent} | ${s.runs} | ${formatTokenCount(Math.round(totalTokens(s.usage) / s.runs))} | `;
+      r += `${formatCost(s.usage.cost / s.runs)} | ${formatDuration(s.wallClockMs / s.runs)} | ${s.errors} |\n`;
+    }
+
+    r += `\n### By Week\n`;
+    r += `| Week of | Preset | Runs | Avg Cost | Total Cost |\n`;
+    r += `|---------|--------|------|----------|------------|\n`;
+    for (const [key, s] of Array.from(byWeek).sort((a, b) => a[0].localeCompare(b[0]))) {
+      const [week, preset] = key.split("|");
+      r += `| ${week} | ${preset} | ${s.runs} | ${formatCost(s.usage.cost / s.runs)} | ${formatCost(s.usage.cost)} |\n`;
+    }
+
+    return r;
+  },
+});
+
+const teamHistoryTool = tool({
+  description: "List past teams (including shut-down and archived ones) by date, preset and name, or open one read-only",
+  args: {
+    teamId: z.string().optional().describe("Open this team read-only"),
+    preset: z.string().optional().describe("Only teams of this preset"),
+    name: z.string().optional().describe("Only teams whose name contains this text"),
+    since: z.string().optional().describe("Created at or after: ISO date or period like 30d, 4w, 12h"),
+    until: z.string().optional().describe("Created at or before: ISO date or period"),
+    limit: z.number().optional().describe(`Maximum teams to list (default: ${DEFAULT_HISTORY_LIMIT})`),
+  },
+  async execute(args) {
+    if (args.teamId) {
+      const team = teamStore.get(args.teamId) ?? teamStore.read(args.teamId);
+      if (!team) {
+        return `Error: Team ${args.teamId} not found`;
+      }
+      return formatPastTeam(team);
+    }
+
+    const filter = historyFilterArgs(args);
+    if (typeof filter === "string") return filter;
+
+    const teams = teamStore.history(filter).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    if (teams.length === 0) {
+      return "No teams match. Use `/team-spawn` to create one.";
+    }
+
+    const limit = Math.max(1, args.limit ?? DEFAULT_HISTORY_LIMIT);
+    let r = `## Team History (${Math.min(limit, teams.length)} of ${teams.length})\n\n`;
+    r += `| Created | Name | Preset | Status | Agents | Tasks | Team ID |\n`;
+    r += `|---------|------|--------|--------|--------|-------|---------|\n`;
+    for (const team of teams.slice(0, limit)) {
+      r += `| ${team.createdAt.toISOString().slice(0, 16).replace("T", " ")} | ${team.name} | ${team.preset} | `;
+      r += `${teamHistoryStatus(team)} | ${team.agents.size} | ${team.tasks.size} | ${team.id} |\n`;
+    }
+    r += `\nOpen one with \`/team-history teamId="..."\`, or search results with \`/team-search query="..."\`.\n`;
+    return r;
+  },
+});
+
+const teamSearchTool = tool({
+  description: "Full-text search across stored agent, task, synthesis and debate results of past and active teams",
+  args: {
+    query: z.string().describe("Words that must all appear in one result (case-insensitive)"),
+    agent: z.string().optional().describe("Only results written by this agent"),
+    preset: z.string().optional().describe("Only teams of this preset"),
+    name: z.string().optional().describe("Only teams whose name contains this text"),
+    since: z.string().optional().describe("Created at or after: ISO date or period like 30d, 4w, 12h"),
+    until: z.string().optional().describe("Created at or before: ISO date or period"),
+    limit: z.number().optional().describe(`Maximum matches (default: ${DEFAULT_SEARCH_LIMIT})`),
+  },
+  async execute(args) {
+    const filter = historyFilterArgs(args);
+    if (typeof filter === "string") return filter;
+
+    const teams = teamStore.history(filter).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const matches = searchTeamResults(teams, args.query, args.agent);
+    if (matches.length === 0) {
+      return `No results match "${args.query}"${args.agent ? ` from ${args.agent}` : ""} in ${teams.length} teams.`;
+    }
+
+    const limit = Math.max(1, args.limit ?? DEFAULT_SEARCH_LIMIT);
+    let r = `## Search: "${args.query}" (${Math.min(limit, matches.length)} of ${matches.length} matches)\n`;
+    let current: Team | undefined;
+    for (const match of matches.slice(0, limit)) {
+      if (match.team !== current) {
+        current = match.team;
+        r += `\n### ${current.name} (${current.id})\n`;
+        r += `${current.createdAt.toISOString().slice(0, 10)}, ${current.preset}, ${teamHistoryStatus(current)}\n\n`;
+      }
+      r += `- **${match.label}**: ${match.snippet}\n`;
+      r += `  - \`/team-result teamId="${current.id}" ${match.ref}\`\n`;
+    }
+    return r;
+  },
+});
+
+const teamFindingsTool = tool({
+  description: "Show a team's structured findings deduplicated across agents, or export them as SARIF/JSON",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    format: z.enum(["table", "sarif", "json"]).optional().describe("Output format (default: table)"),
+    minSeverity: z.enum(SEVERITIES).optional().describe("Drop findings below this severity"),
+    path: z.string().optional().describe("Write SARIF/JSON to this file (relative to the project directory)"),
+  },
+  async execute(args, context) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const threshold = severityRank(args.minSeverity ?? "info");
+    const findings = teamFindings(team).filter(f => severityRank(f.severity) <= threshold);
+    if (findings.length === 0) {
+      return team.findings
+        ? "No findings reported."
+        : "No findings reported. Spawn the team with a findings-enabled preset (review, security) so agents are asked to use finding-report.";
+    }
+
+    const format = args.format ?? "table";
+    if (format === "table") {
+      const counts = SEVERITIES
+        .map(severity => [severity, findings.filter(f => f.severity === severity).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([severity, count]) => `${count} ${severity}`);
+
+      let response = `## Findings: ${team.name} (${findings.length})\n\n`;
+      response += `**By severity**: ${counts.join(", ")}\n\n`;
+      response += formatFindingsTable(findings);
+      response += `\n### Details\n\n${formatFindingDetails(findings)}`;
+      return response;
+    }
+
+    const content = JSON.stringify(format === "sarif" ? toSarif(findings) : findings, null, 2) + "\n";
+    if (!args.path) {
+      return `## Findings: ${team.name} (${format.toUpperCase()})\n\n\`\`\`json\n${content}\`\`\`\n`;
+    }
+
+    const outputPath = path.resolve(context.directory, args.path);
+    try {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, content);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return `Error: Failed to write ${outputPath}: ${errorMessage}`;
+    }
+
+    return `Exported ${findings.length} findings to ${outputPath} (${format}).`;
+  }
+});
+
+const teamMessageTool = tool({
+  description: "Send a direct or broadcast message to agents in a team",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    content: z.string().describe("Message content"),
+    to: z.string().optional().describe("Recipient agent name (omit to broadcast to all agents)"),
+    from: z.string().optional().describe(`Sender agent name (default: ${LEAD_AGENT})`),
+  },
+  async execute(args) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const sender = args.from ?? LEAD_AGENT;
+    if (sender !== LEAD_AGENT && !team.agents.has(sender)) {
+      return `Error: Sender ${sender} is not a member of team ${team.id}`;
+    }
+    if (args.to && args.to !== LEAD_AGENT && !team.agents.has(args.to)) {
+      return `Error: Recipient ${args.to} is not a member of team ${team.id}. Members: ${Array.from(team.agents.keys()).join(", ")}`;
+    }
+
+    const message: Message = {
+      type: args.to ? "message" : "broadcast",
+      teamId: team.id,
+      sender,
+      recipient: args.to,
+      content: args.content,
+      timestamp: new Date(),
+    };
+    sendMessage(message);
+    teamStore.save(team);
+
+    let response = `## Message Sent\n\n`;
+    response += `**From**: ${sender}\n`;
+    response += `**To**: ${args.to ?? "all (broadcast)"}\n`;
+    response += `\nDelivered with the recipient's next prompt.\n`;
+
+    return response;
+  },
+});
+
+const teamInboxTool = tool({
+  description: "Read messages delivered to an agent (or the lead) in a team",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    agent: z.string().optional().describe(`Agent name (default: ${LEAD_AGENT})`),
+    unreadOnly: z.boolean().optional().describe("Only show messages not yet delivered to the agent (default: false)"),
+  },
+  async execute(args) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const recipient = args.agent ?? LEAD_AGENT;
+    const agent = team.agents.get(recipient);
+    if (recipient !== LEAD_AGENT && !agent) {
+      return `Error: Agent ${recipient} is not a member of team ${team.id}`;
+    }
+
+    const since = args.unreadOnly ? agent?.inboxReadAt : undefined;
+    const messages = getMessages(team.id, recipient, since);
+
+    if (messages.length === 0) {
+      return `No messages for ${recipient}.`;
+    }
+
+    let response = `## Inbox: ${recipient} (${messages.length})\n\n`;
+    for (const m of messages) {
+      const unread = agent && !(agent.inboxReadAt && m.timestamp <= agent.inboxReadAt);
+      response += `- **${m.sender}** [${m.type}] ${m.timestamp.toISOString()}${unread ? " (unread)" : ""}\n`;
+      response += `  ${m.content}\n`;
+      if (m.approved !== undefined) {
+        response += `  - Approved: ${m.approved ? "yes" : "no"}\n`;
+      }
+    }
+
+    return response;
+  },
+});
+
+const teamShutdownTool = tool({
+  description: "Shutdown team and cleanup sessions after asking each agent for approval",
+  args: {
+    teamId: z.string().describe("Team ID to shutdown"),
+    force: z.boolean().optional().describe("Shut down even if an agent rejects (default: false)"),
+    skipApproval: z.boolean().optional().describe("Skip the shutdown handshake entirely"),
+    timeout: z.number().optional().describe(`Timeout in seconds for each approval (default: ${SHUTDOWN_TIMEOUT_SECONDS})`),
+  },
+  async execute(args, context) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    let response = "";
+
+    if (!args.skipApproval && globalClient) {
+      const timeout = (args.timeout ?? SHUTDOWN_TIMEOUT_SECONDS) * 1000;
+      const entries = Array.from(team.agents.entries());
+      const answers = await Promise.allSettled(
+        entries.map(([name, agent]) => requestShutdownApproval(team, name, agent, timeout, context.abort))
+      );
+
+      response += `### Shutdown Approval\n`;
+      const rejected: string[] = [];
+      answers.forEach((res, index) => {
+        const name = entries[index][0];
+        if (res.status === "rejected") {
+          response += `- [?] **${name}**: no answer\n`;
+          return;
+        }
+        const icon = res.value.approved ? "[OK]" : "[REJECT]";
+        if (!res.value.approved) rejected.push(name);
+        response += `- ${icon} **${name}**: ${truncateText(res.value.content, 200)}\n`;
+      });
+      response += `\n`;
+
+      if (rejected.length > 0 && !args.force) {
+        teamStore.save(team);
+        response += `Shutdown cancelled: rejected by ${rejected.join(", ")}.\n`;
+        response += `Use \`/team-shutdown teamId="${team.id}" force=true\` to shut down anyway.\n`;
+        return response;
+      }
+    }
+
+    // 실행 중인 team-execute/task-execute 중단 후 세션 정리
+    cancelTeamRuns(team.id);
+
+    // Cleanup all sessions
+    const cleanupPromises: Promise<void>[] = [];
+    for (const agent of team.agents.values()) {
+      if (agent.sessionID) {
+        cleanupPromises.push(cleanupSession(agent.sessionID));
+      }
+    }
+
+    await Promise.allSettled(cleanupPromises);
+
+    // 재시작 시 다시 복원되지 않도록 종료 시점 기록
+    team.shutdownAt = new Date();
+    teamStore.save(team);
+
+    const name = team.name;
+    teamStore.release(args.teamId);
+    clearTeamMessages(args.teamId);
+    return `${response}Team "${name}" shut down.`;
+  },
+});
+
+const teamCancelTool = tool({
+  description: "Cancel running team-execute, team-discuss or task-execute runs and keep partial results",
+  args: {
+    teamId: z.string().describe("Team ID to cancel"),
+  },
+  async execute(args) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    const signalled = cancelTeamRuns(team.id);
+
+    // 다른 프로세스에서 시작된 실행도 멈추도록 세션을 직접 중단.
+    // 크래시로 남은 진행 중 상태는 세션이 실제로 바쁠 때만 실행 중으로 봄 (아니면 team-resume 대상)
+    const running: Array<[string, Agent]> = [];
+    for (const [name, agent] of team.agents) {
+      if (agent.status !== "thinking" && agent.status !== "responding") continue;
+      if (signalled || (agent.sessionID && await isSessionBusy(agent.sessionID).catch(() => false))) {
+        running.push([name, agent]);
+      }
+    }
+
+    if (!signalled && running.length === 0) {
+      return `Nothing to cancel: team "${team.name}" has no running executions.`;
+    }
+
+    const cancelledAgents: string[] = [];
+    const aborts: Promise<void>[] = [];
+    for (const [name, agent] of running) {
+      if (agent.sessionID) {
+        aborts.push(abortSession(agent.sessionID));
+      }
+      agent.error = CANCELLED_MESSAGE;
+      setAgentStatus(team, name, agent, "cancelled", "team-cancel");
+      cancelledAgents.push(name);
+    }
+    await Promise.allSettled(aborts);
+
+    const cancelledTasks: Task[] = [];
+    for (const task of team.tasks.values()) {
+      if (task.status !== "in_progress") continue;
+      task.status = "cancelled";
+      task.error = CANCELLED_MESSAGE;
+      cancelledTasks.push(task);
+    }
+
+    teamStore.save(team);
+
+    const kept = Array.from(team.agents.values()).filter(a => a.status === "completed").length
+      + Array.from(team.tasks.values()).filter(t => t.status === "completed").length;
+
+    let response = `## Cancelled "${team.name}"\n\n`;
+    response += `**Team ID**: ${team.id}\n`;
+    response += `**Agents**: ${cancelledAgents.length > 0 ? cancelledAgents.join(", ") : "none in flight"}\n`;
+    response += `**Tasks**: ${cancelledTasks.length > 0 ? cancelledTasks.map(t => t.subject).join(", ") : "none in flight"}\n`;
+    response += `**Completed results kept**: ${kept}\n`;
+    response += `\n---\n`;
+    response += `Use \`/task-execute teamId="${team.id}"\` to resume cancelled tasks or \`/team-status teamId="${team.id}"\` to inspect partial results.\n`;
+
+    return response;
+  },
+});
+
+const teamAutoTool = tool({
+  description: "Natural language team request with auto preset detection and execution",
+  args: {
+    request: z.string().describe("Natural language request"),
+    combine: z.boolean().optional().describe("Combine agents from closely matching presets (default: true)"),
+    classifier: z.boolean().optional().describe("Ask a classifier model when keyword confidence is low (default: true)"),
+    synthesize: z.boolean().optional().describe("Merge all agent results into one report after the run"),
+    synthesizer: z.string().optional().describe(`Agent that writes the synthesis (default: ${LEAD_AGENT} model)`),
+    resultMode: resultModeArg,
+    ...budgetArgs,
+    ...gitTargetArgs,
+  },
+  async execute(args, context) {
+    if (!globalClient) {
+      return "Error: OpenCode client not available";
+    }
+
+    const availableAgents = loadOpenCodeAgents();
+    const detection = await resolvePreset(args.request, args.classifier ?? true);
+    const presetNames = args.combine === false ? [detection.preset] : detection.presets;
+    const teamId = `team-${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const presetDef = combinePresets(presetNames) ?? getPreset(DEFAULT_PRESET);
+    const preset = presetDef?.name ?? DEFAULT_PRESET;
+    const agentNames = presetDef?.agents ?? PRESETS[DEFAULT_PRESET];
+    const timeout = (presetDef?.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+
+    const team: Team = {
+      id: teamId,
+      name: `auto-${preset}`,
+      preset,
+      agents: new Map(),
+      tasks: new Map(),
+      createdAt: new Date(),
+      task: args.request,
+      timeout: presetDef?.timeout,
+      budget: buildBudget(args.maxTokens, args.maxCost, args.maxWallClock, presetDef?.budget),
+      findings: presetDef?.findings,
+    };
+
+    const gitError = await attachGitTarget(team, args, context.directory);
+    if (gitError) {
+      return gitError;
+    }
+
+    for (const name of agentNames) {
+      team.agents.set(name, {
+        name,
+        sessionID: null,
+        role: resolveAgentRole(name, presetDef, availableAgents),
+        status: "idle",
+      });
+    }
+
+    teamStore.add(team);
+    enforceMaxTeams();
+    teamStore.save(team);
+
+    let r = `## Auto Team Created\n\n`;
+    r += `**Detected Preset**: ${preset}\n`;
+    r += `**Detection**: ${detection.method}, confidence ${detection.confidence.toFixed(2)}\n`;
+    r += `**Why**: ${detection.reason}\n`;
+    if (presetNames.length > 1) {
+      r += `**Combined**: ${presetNames.join(" + ")}\n`;
+    }
+    r += `**Team ID**: ${teamId}\n`;
+    if (team.git) {
+      r += `**Git target**: ${formatGitTargetLine(team.git)}\n`;
+    }
+    if (team.budget) {
+      r += `**Budget**:\n${formatBudget(team)}`;
+    }
+    r += `\n### Members\n`;
+    for (const [n, a] of team.agents) {
+      const isDA = n === "devil-s-advocate" ? " [DEVIL]" : "";
+      r += `- **${n}** (${a.role})${isDA}\n`;
     }
+    r += `\n### Task\n${args.request}\n\n`;
+    r += `---\n\n## Executing...\n\n`;
 
-    if (missingAgents.length > 0) {
-      response += `\n[WARN] **Warning**: Not in opencode.json: ${missingAgents.join(", ")}\n`;
+    await withTeamRun(team, context, async signal => {
+      const settledResults = await executeAllAgents(team, args.request, timeout, signal);
+
+      team.results = new Map(
+        settledResults
+          .filter((res): res is ExecutionResult & { success: true; result: string } =>
+            res.success && res.result !== undefined
+          )
+          .map((res) => [res.name, res.result])
+      );
+
+      teamStore.save(team);
+
+      r += formatExecutionResults(team, settledResults, args.resultMode);
+
+      if (signal.aborted) {
+        r += formatStopped(abortReason(signal), settledResults.filter(res => res.skipped).map(res => res.name));
+        r += `\n---\n\n`;
+      } else if (args.synthesize || args.synthesizer) {
+        const synthesis = await synthesizeResults(
+          team,
+          settledResults,
+          args.synthesizer ?? LEAD_AGENT,
+          timeout,
+          signal
+        );
+        r += formatSynthesis(synthesis);
+        r += `\n---\n\n`;
+      }
+    });
+
+    r += `**Team ID**: ${teamId}`;
+
+    return r;
+  },
+});
+
+const presetListTool = tool({
+  description: "List available team presets (built-in and user-defined) and where each comes from",
+  args: {},
+  async execute() {
+    const availableAgents = loadOpenCodeAgents();
+
+    let r = `## Presets (${presetRegistry.size})\n\n`;
+    r += `| Preset | Agents | Keywords | Timeout | Source |\n`;
+    r += `|--------|--------|----------|---------|--------|\n`;
+
+    for (const preset of presetRegistry.values()) {
+      const agents = preset.agents
+        .map(a => (availableAgents[a] ? a : `${a} [WARN]`))
+        .join(", ");
+      const keywords = preset.keywords.length > 0 ? preset.keywords.join(", ") : "-";
+      const timeout = preset.timeout ? `${preset.timeout}s` : "-";
+      const marker = preset.name === DEFAULT_PRESET ? " (default)" : "";
+      r += `| ${preset.name}${marker} | ${agents} | ${keywords} | ${timeout} | ${preset.source} |\n`;
     }
 
-    response += `\n### Task\n${args.task}\n`;
-    response += `\n---\n`;
-    response += `Use \`/team-execute teamId="${teamId}"\` to run.\n`;
+    const withRoles = Array.from(presetRegistry.values()).filter(p => Object.keys(p.roles).length > 0);
+    if (withRoles.length > 0) {
+      r += `\n### Role Overrides\n`;
+      for (const preset of withRoles) {
+        for (const [agent, role] of Object.entries(preset.roles)) {
+          r += `- **${preset.name}** / ${agent}: ${role}\n`;
+        }
+      }
+    }
 
-    return response;
+    if (presetErrors.length > 0) {
+      r += `\n### [WARN] Invalid Presets (skipped)\n`;
+      for (const error of presetErrors) {
+        r += `- ${error}\n`;
+      }
+    }
+
+    r += `\n[WARN] = agent not defined in opencode.json\n`;
+
+    return r;
   },
 });
 
-const teamExecuteTool = tool({
-  description: "Execute team agents in parallel and collect results",
+const teamResumeTool = tool({
+  description: "Resume an interrupted team: reattach to live agent sessions or re-run interrupted agents",
   args: {
-    teamId: z.string().describe("Team ID to execute"),
+    teamId: z.string().describe("Team ID to resume"),
     timeout: z.number().optional().describe("Timeout in seconds per agent"),
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!globalClient) {
       return "Error: OpenCode client not available";
     }
 
-    const team = teams.get(args.teamId);
+    let team = teamStore.get(args.teamId);
+    if (!team) {
+      const loaded = teamStore.activate(args.teamId);
+      if (!loaded) {
+        return `Error: Team ${args.teamId} not found`;
+      }
+      enforceMaxTeams();
+      team = loaded;
+    }
+
+    const timeout = (args.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    const interrupted = Array.from(team.agents.entries()).filter(
+      ([, a]) => a.status === "thinking" || a.status === "responding"
+    );
+    const inProgressTasks = Array.from(team.tasks.values()).filter(
+      t => t.status === "in_progress"
+    );
+
+    let response = `## Resuming Team "${team.name}"\n\n`;
+    response += `**Team ID**: ${team.id}\n`;
+    response += `**Interrupted Agents**: ${interrupted.length}\n`;
+    response += `**Interrupted Tasks**: ${inProgressTasks.length}\n\n`;
+
+    // 에이전트가 진행 중이던 태스크가 있으면 그 태스크로 재실행
+    const taskByOwner = new Map<string, Task>();
+    for (const task of inProgressTasks) {
+      if (task.owner && !taskByOwner.has(task.owner)) {
+        taskByOwner.set(task.owner, task);
+      }
+    }
+
+    const currentTeam = team;
+    let stopReason: string | undefined;
+    const results = await withTeamRun(currentTeam, context, async signal => {
+      const settled = await Promise.allSettled(
+        interrupted.map(([name, agent]) =>
+          resumeAgent(
+            currentTeam,
+            name,
+            agent,
+            taskByOwner.get(name)?.description ?? currentTeam.task,
+            timeout,
+            signal
+          )
+        )
+      );
+      if (signal.aborted) stopReason = abortReason(signal);
+      return settled;
+    });
+
+    if (interrupted.length > 0) {
+      response += `### Agents\n`;
+    }
+
+    const outcomes = new Map<string, ExecutionResult>();
+    results.forEach((res, index) => {
+      const name = interrupted[index][0];
+      if (res.status === "fulfilled") {
+        outcomes.set(name, res.value);
+        const mode = res.value.reattached ? "reattached" : "re-run";
+        const icon = res.value.success ? "[OK]" : "[FAIL]";
+        response += `- ${icon} **${name}** (${mode})`;
+        response += res.value.error ? `: ${res.value.error}\n` : `\n`;
+      } else {
+        const error = res.reason instanceof Error ? res.reason.message : String(res.reason);
+        outcomes.set(name, { name, success: false, error });
+        response += `- [FAIL] **${name}**: ${error}\n`;
+      }
+    });
+
+    let recovered = 0;
+    let reset = 0;
+    for (const task of inProgressTasks) {
+      const outcome = task.owner && taskByOwner.get(task.owner) === task
+        ? outcomes.get(task.owner)
+        : undefined;
+
+      if (outcome?.success) {
+        task.status = "completed";
+        task.result = outcome.result;
+        task.completedAt = new Date();
+        recovered++;
+      } else if (outcome && stopReason) {
+        task.status = "cancelled";
+        task.error = stopReason;
+      } else if (outcome) {
+        task.status = "error";
+        task.error = outcome.error;
+      } else {
+        // 결과를 복구할 수 없는 태스크는 다시 대기열로
+        task.status = "pending";
+        reset++;
+      }
+    }
+
+    teamStore.save(currentTeam);
+
+    const pending = Array.from(currentTeam.tasks.values()).filter(t => t.status === "pending").length;
+
+    if (inProgressTasks.length > 0) {
+      response += `\n### Tasks\n`;
+      response += `- Recovered: ${recovered}\n`;
+      response += `- Reset to pending: ${reset}\n`;
+    }
+
+    response += `\n---\n`;
+    if (pending > 0) {
+      response += `${pending} pending tasks remain. Use \`/task-execute teamId="${currentTeam.id}"\` to continue.\n`;
+    } else {
+      response += `Use \`/team-status teamId="${currentTeam.id}"\` to check results.\n`;
+    }
+
+    return response;
+  },
+});
+
+// ============================================================================
+// TASK TOOLS
+// ============================================================================
+
+const schedulerArgs = {
+  timeout: z.number().optional().describe("Timeout per task in seconds"),
+  maxConcurrency: z.number().optional().describe(`Maximum tasks running at once (default: ${DEFAULT_MAX_CONCURRENCY}); each agent runs one task at a time`),
+  upstreamBudget: z.number().optional().describe(`Max characters of dependency results added to each prompt (default: ${MAX_UPSTREAM_CONTEXT_LENGTH})`),
+  summarizeUpstream: z.boolean().optional().describe("Summarize dependency results that exceed the budget instead of truncating"),
+};
+
+function buildSchedulerOptions(team: Team, args: {
+  timeout?: number;
+  maxConcurrency?: number;
+  upstreamBudget?: number;
+  summarizeUpstream?: boolean;
+}): SchedulerOptions {
+  return {
+    timeout: (args.timeout ?? team.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+    maxConcurrency: Math.max(1, args.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY),
+    upstreamBudget: Math.max(0, args.upstreamBudget ?? MAX_UPSTREAM_CONTEXT_LENGTH),
+    summarizeUpstream: args.summarizeUpstream ?? false,
+  };
+}
+
+function formatTaskRunSummary(team: Team, summary: TaskRunSummary): string {
+  const remaining = Array.from(team.tasks.values())
+    .filter(t => t.status === "pending").length;
+
+  let response = `\n---\n`;
+  response += `**Completed**: ${summary.completed}\n`;
+  response += `**Failed**: ${summary.failed}\n`;
+  response += `**Blocked**: ${summary.blocked}\n`;
+  if (summary.cancelled > 0) {
+    response += `**Cancelled**: ${summary.cancelled}\n`;
+  }
+  response += `**Remaining**: ${remaining}\n`;
+
+  if (summary.stopReason) {
+    response += `\n**Stopped**: ${summary.stopReason}\n`;
+  }
+  if (summary.skipped.length > 0) {
+    response += `**Skipped (not started)**: ${summary.skipped.map(t => `${t.subject} (${t.id})`).join(", ")}\n`;
+  }
+
+  const failed = Array.from(team.tasks.values()).filter(t => t.status === "error");
+  if (failed.length > 0) {
+    response += `\nUse \`/task-retry teamId="${team.id}" taskId="..."\` to re-run: ${failed.map(t => t.id).join(", ")}\n`;
+  }
+
+  if (summary.cancelled > 0 || summary.skipped.length > 0) {
+    response += `\nRun \`/task-execute teamId="${team.id}"\` again to resume cancelled and skipped tasks.\n`;
+  }
+
+  return response;
+}
+
+const taskCreateTool = tool({
+  description: "Create a task in a team with optional dependencies",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    subject: z.string().describe("Task subject"),
+    description: z.string().describe("Task description"),
+    owner: z.string().optional().describe("Agent assigned to this task"),
+    blockedBy: z.string().optional().describe("Comma-separated task IDs this depends on"),
+    includeUpstream: z.boolean().optional().describe("Include results of blockedBy tasks in the prompt (default: true)"),
+    maxAttempts: z.number().optional().describe(`Total attempts before the task fails (default: 1, max: ${MAX_RETRY_ATTEMPTS})`),
+    retryBackoff: z.number().optional().describe(`Initial retry backoff in seconds, doubled each attempt (default: ${DEFAULT_RETRY_BACKOFF_SECONDS})`),
+    retryOn: z.enum(["any", "timeout"]).optional().describe("Retry on any error or only on timeouts (default: any)")
+  },
+  async execute(args) {
+    const team = teamStore.get(args.teamId);
     if (!team) {
       return `Error: Team ${args.teamId} not found`;
     }
 
-    // Initialize tasks if needed
+    // Initialize tasks map if needed
     if (!team.tasks) {
       team.tasks = new Map();
     }
 
-    const timeout = (args.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
-    team.results = new Map();
-
-    let response = `## Executing Team "${team.name}"\n\n`;
-    response += `**Task**: ${team.task}\n`;
-    response += `**Agents**: ${team.agents.size}\n\n`;
+    const blockedBy = args.blockedBy
+      ? args.blockedBy.split(",").map(s => s.trim()).filter(Boolean)
+      : [];
 
-    const executionPromises = Array.from(team.agents.entries()).map(
-      ([name, agent]) => executeAgent(name, agent, team.task, timeout)
+    const task = createTask(
+      team,
+      args.subject,
+      args.description,
+      args.owner,
+      blockedBy,
+      []
     );
 
-    const results = await Promise.allSettled(executionPromises);
+    if (args.includeUpstream === false) {
+      task.includeUpstream = false;
+    }
+
+    task.retry = buildRetryPolicy(args.maxAttempts, args.retryBackoff, args.retryOn);
+
+    // Update blocked tasks' blocks array
+    for (const depId of blockedBy) {
+      const depTask = team.tasks.get(depId);
+      if (depTask && !depTask.blocks.includes(task.id)) {
+        depTask.blocks.push(task.id);
+      }
+    }
+
+    teamStore.save(team);
+
+    let response = `## Task Created\n\n`;
+    response += `**Task ID**: ${task.id}\n`;
+    response += `**Subject**: ${task.subject}\n`;
+    response += `**Owner**: ${task.owner || "Unassigned"}\n`;
+    response += `**Status**: ${task.status}\n`;
 
-    const settledResults: ExecutionResult[] = results.map((r, index) => {
-      const agentName = Array.from(team.agents.keys())[index];
-      if (r.status === "fulfilled") {
-        return r.value;
+    if (task.blockedBy.length > 0) {
+      response += `**Blocked By**: ${task.blockedBy.join(", ")}\n`;
+      if (task.includeUpstream === false) {
+        response += `**Upstream Results**: excluded from prompt\n`;
       }
-      return {
-        name: agentName,
-        success: false,
-        error: r.reason instanceof Error ? r.reason.message : String(r.reason),
-      };
-    });
+    }
 
-    response += formatExecutionResults(team, settledResults);
+    if (task.retry) {
+      response += `**Retry**: ${task.retry.maxAttempts} attempts on ${task.retry.retryOn} error, backoff ${task.retry.backoffMs / 1000}s\n`;
+    }
 
     return response;
+  }
+});
+
+const taskExecuteTool = tool({
+  description: "Execute tasks in parallel as soon as their dependencies (blocks/blockedBy) complete",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    ...schedulerArgs
   },
+  async execute(args, context) {
+    if (!globalClient) {
+      return "Error: OpenCode client not available";
+    }
+
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
+    }
+
+    if (!team.tasks || team.tasks.size === 0) {
+      return "No tasks to execute. Use `/task-create` to add tasks.";
+    }
+
+    // 순환 의존성 감지
+    const cyclicDeps = findCyclicDependencies(team);
+    if (cyclicDeps.length > 0) {
+      return `Error: Cyclic dependencies detected in tasks: ${cyclicDeps.join(", ")}`;
+    }
+
+    // 취소된 태스크는 다시 실행 대상으로
+    for (const task of team.tasks.values()) {
+      if (task.status === "cancelled") {
+        task.status = "pending";
+        task.error = undefined;
+      }
+    }
+
+    const exhausted = budgetExceeded(team);
+    if (exhausted) {
+      return budgetExhaustedError(team, exhausted);
+    }
+
+    const options = buildSchedulerOptions(team, args);
+
+    let response = `## Executing Tasks\n\n`;
+    response += `**Max Concurrency**: ${options.maxConcurrency} (one task per agent at a time)\n\n`;
+
+    const summary = await withTeamRun(team, context, signal => runTaskGraph(team, { ...options, signal }));
+    response += summary.log;
+    response += formatTaskRunSummary(team, summary);
+
+    return response;
+  }
 });
 
-const teamDiscussTool = tool({
-  description: "Run a discussion between team agents with context sharing",
+const taskRetryTool = tool({
+  description: "Reset a failed task and its blocked dependents, then re-run only that part of the graph",
   args: {
     teamId: z.string().describe("Team ID"),
-    topic: z.string().describe("Discussion topic"),
-    rounds: z.number().optional().describe("Number of rounds (default: 2, max: 3)"),
+    taskId: z.string().describe("Failed or cancelled task ID to retry"),
+    ...schedulerArgs
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!globalClient) {
       return "Error: OpenCode client not available";
     }
 
-    const team = teams.get(args.teamId);
+    const team = teamStore.get(args.teamId);
     if (!team) {
       return `Error: Team ${args.teamId} not found`;
     }
 
-    const rounds = Math.min(Math.max(args.rounds ?? 2, 1), 3);
-    let contextSoFar = "";
+    const task = team.tasks.get(args.taskId);
+    if (!task) {
+      return `Error: Task ${args.taskId} not found`;
+    }
+
+    if (task.status !== "error" && task.status !== "cancelled") {
+      const hint = task.blockedReason ? ` (${task.blockedReason}); retry the failed upstream task instead` : "";
+      return `Error: Task ${task.id} is ${task.status}${hint}. Only failed or cancelled tasks can be retried`;
+    }
+
+    const cyclicDeps = findCyclicDependencies(team);
+    if (cyclicDeps.length > 0) {
+      return `Error: Cyclic dependencies detected in tasks: ${cyclicDeps.join(", ")}`;
+    }
+
+    const exhausted = budgetExceeded(team);
+    if (exhausted) {
+      return budgetExhaustedError(team, exhausted);
+    }
+
+    const reset = resetSubtree(team, task);
+    teamStore.save(team);
+
+    const options = buildSchedulerOptions(team, args);
+    options.scope = new Set(reset.map(t => t.id));
+
+    let response = `## Retrying ${task.subject}\n\n`;
+    response += `**Reset**: ${reset.map(t => t.subject).join(", ")}\n\n`;
+
+    const summary = await withTeamRun(team, context, signal => runTaskGraph(team, { ...options, signal }));
+    response += summary.log;
+    response += formatTaskRunSummary(team, summary);
+
+    return response;
+  }
+});
+
+const taskHandoffTool = tool({
+  description: "For agents inside a squad team: create a follow-up task for a teammate (or leave it open to claim) during the current run",
+  args: {
+    subject: z.string().describe("Task subject"),
+    description: z.string().describe("What needs to be done and why (include file paths, findings)"),
+    owner: z.string().optional().describe("Teammate who should do it (omit to let any teammate claim it)"),
+    blockedBy: z.string().optional().describe("Comma-separated task IDs or keys that must finish first"),
+  },
+  async execute(args, context) {
+    const resolved = resolveSessionScope(context.sessionID);
+    if (typeof resolved === "string") {
+      return resolved;
+    }
+    const { team, scope } = resolved;
+
+    if (args.owner && !team.agents.has(args.owner)) {
+      return `Error: ${args.owner} is not a member of team ${team.id}. Members: ${Array.from(team.agents.keys()).join(", ")}`;
+    }
+    if (scope.handoffs >= MAX_HANDOFFS_PER_SESSION) {
+      return `Error: Handoff limit reached (${MAX_HANDOFFS_PER_SESSION} tasks per session)`;
+    }
+    if (team.tasks.size >= MAX_TASKS) {
+      return `Error: Team already has the maximum of ${MAX_TASKS} tasks`;
+    }
+
+    const deps: Task[] = [];
+    for (const ref of (args.blockedBy ?? "").split(",").map(s => s.trim()).filter(Boolean)) {
+      const dep = findTask(team, ref);
+      if (!dep) {
+        return `Error: Task ${ref} not found`;
+      }
+      deps.push(dep);
+    }
+
+    const task = createTask(team, args.subject, args.description, args.owner, deps.map(d => d.id), []);
+    task.createdBy = scope.agent;
+    task.claimable = !args.owner;
+    for (const dep of deps) {
+      if (!dep.blocks.includes(task.id)) dep.blocks.push(task.id);
+    }
+    scope.handoffs++;
+    teamStore.save(team);
+
+    const queued = notifyScheduler(team, task);
+
+    let response = `## Task Created\n\n`;
+    response += `**Task ID**: ${task.id}\n`;
+    response += `**Owner**: ${task.owner ?? "none (open to task-claim)"}\n`;
+    if (deps.length > 0) {
+      response += `**Blocked By**: ${deps.map(d => d.id).join(", ")}\n`;
+    }
+    response += queued
+      ? `\nQueued in the current run; it starts as soon as its dependencies and owner are free.\n`
+      : `\nNo run is active; it will start on the next task-execute.\n`;
+
+    return response;
+  }
+});
+
+const taskClaimTool = tool({
+  description: "For agents inside a squad team: take ownership of an unassigned pending task",
+  args: {
+    taskId: z.string().describe("Task ID or key to claim"),
+  },
+  async execute(args, context) {
+    const resolved = resolveSessionScope(context.sessionID);
+    if (typeof resolved === "string") {
+      return resolved;
+    }
+    const { team, scope } = resolved;
+
+    const task = findTask(team, args.taskId);
+    if (!task) {
+      return `Error: Task ${args.taskId} not found`;
+    }
+    if (task.owner) {
+      return `Error: Task ${task.id} is already owned by ${task.owner}`;
+    }
+    if (task.status !== "pending") {
+      return `Error: Task ${task.id} is ${task.status}; only pending tasks can be claimed`;
+    }
 
-    let response = `## Discussion: ${truncateText(args.topic, 100)}\n\n`;
-    response += `**Team**: ${team.name}\n`;
-    response += `**Rounds**: ${rounds}\n\n`;
+    task.owner = scope.agent;
+    task.claimable = false;
+    teamStore.save(team);
 
-    for (let r = 1; r <= rounds; r++) {
-      response += `### Round ${r}\n\n`;
+    const queued = notifyScheduler(team, task);
+    return `Claimed ${task.id} (${task.subject}) for ${scope.agent}. ${queued ? "It runs in the current run once you are free." : "It will run on the next task-execute."}`;
+  }
+});
 
-      for (const [name, agent] of team.agents) {
-        const prompt =
-          r === 1
-            ? `${args.topic}\n\n당신은 ${name} 역할입니다. 분석해주세요.`
-            : `${args.topic}\n\n## 이전 분석:\n${contextSoFar}\n\n## 추가 분석:\n${name}으로서 새로운 관점을 제시해주세요.`;
+const taskCompleteTool = tool({
+  description: "For agents inside a squad team: report the task you are working on as done, with a structured result",
+  args: {
+    summary: z.string().describe("One or two sentence outcome"),
+    details: z.string().optional().describe("Full result (findings, decisions, how to verify)"),
+    artifacts: z.array(z.string()).optional().describe("Files created or changed"),
+  },
+  async execute(args, context) {
+    const resolved = resolveSessionScope(context.sessionID);
+    if (typeof resolved === "string") {
+      return resolved;
+    }
+    const { team, scope } = resolved;
 
-        try {
-          agent.status = "thinking";
-          const { sessionID } = await spawnAgentSession(name, prompt);
-          agent.sessionID = sessionID;
-          agent.status = "responding";
+    const task = scope.taskId ? team.tasks.get(scope.taskId) : undefined;
+    if (!task) {
+      return "Error: No task is assigned to this session";
+    }
+    if (task.status !== "in_progress") {
+      return `Error: Task ${task.id} is ${task.status}`;
+    }
 
-          const result = await waitForSessionCompletion(sessionID, DEFAULT_TIMEOUT_MS);
-          agent.status = "completed";
-          agent.result = result;
+    task.report = {
+      summary: args.summary,
+      details: args.details,
+      artifacts: args.artifacts,
+      reportedBy: scope.agent,
+      reportedAt: new Date(),
+    };
+    teamStore.save(team);
 
-          contextSoFar += `\n### ${name} (Round ${r}):\n${truncateText(result, MAX_CONTEXT_LENGTH)}\n`;
+    return `Recorded result for ${task.id}. The task completes when your turn ends.`;
+  }
+});
 
-          response += `**${name}**:\n`;
-          response += `${truncateText(result, MAX_DISCUSSION_RESULT_LENGTH)}\n\n`;
-        } catch (error) {
-          agent.status = "error";
-          agent.error = error instanceof Error ? error.message : String(error);
-          response += `**${name}**: [FAIL] Error - ${agent.error}\n\n`;
-        }
-      }
+const shutdownRespondTool = tool({
+  description: "For agents inside a squad team: answer the lead's shutdown request for your session",
+  args: {
+    approve: z.boolean().describe("true if the team can shut down now, false if your work is not finished"),
+    reason: z.string().optional().describe("What is still in progress (when rejecting)"),
+  },
+  async execute(args, context) {
+    const resolved = resolveSessionScope(context.sessionID);
+    if (typeof resolved === "string") {
+      return resolved;
     }
 
-    response += `---\n**Team ID**: ${team.id}`;
+    const answer = shutdownWaiters.get(context.sessionID);
+    if (!answer) {
+      return "Error: No shutdown request is waiting for your answer";
+    }
+    answer({ approved: args.approve, reason: args.reason });
 
-    return response;
-  },
+    return args.approve
+      ? "Shutdown approved. Stop here; the lead will end your session."
+      : "Shutdown rejected. Continue your original task and end with its full result.";
+  }
 });
 
-const teamStatusTool = tool({
-  description: "Check team status and results",
+const findingReportTool = tool({
+  description: "For agents inside a squad team: report structured findings (file, lines, severity, category, CWE, fix). Stored in full, never truncated",
   args: {
-    teamId: z.string().optional().describe("Team ID (omit to list all)"),
+    findings: z.array(FindingSchema).min(1).describe("One entry per distinct issue"),
   },
-  async execute(args) {
-    if (!args.teamId) {
-      if (teams.size === 0) {
-        return "No active teams. Use `/team-spawn` to create one.";
-      }
+  async execute(args, context) {
+    const resolved = resolveSessionScope(context.sessionID);
+    if (typeof resolved === "string") {
+      return resolved;
+    }
+    const { team, scope } = resolved;
 
-      let r = `## Active Teams (${teams.size})\n\n`;
-      for (const [id, t] of teams) {
-        const completed = Array.from(t.agents.values()).filter(
-          (a) => a.status === "completed"
-        ).length;
-        r += `- **${t.name}** (${id})\n`;
-        r += `  - Preset: ${t.preset}\n`;
-        r += `  - Progress: ${completed}/${t.agents.size}\n\n`;
-      }
-      return r;
+    const findings = args.findings.map(f => toFinding(f, scope.agent, scope.taskId));
+    const task = scope.taskId ? team.tasks.get(scope.taskId) : undefined;
+    const owner = task ?? team.agents.get(scope.agent);
+    if (!owner) {
+      return `Error: Agent ${scope.agent} not found in team`;
     }
+    owner.findings = [...(owner.findings ?? []), ...findings];
+    teamStore.save(team);
+
+    return `Recorded ${findings.length} finding(s) (${owner.findings.length} total from you${task ? ` on ${task.id}` : ""}).`;
+  }
+});
 
-    const team = teams.get(args.teamId);
+const taskImportTool = tool({
+  description: "Create a whole task DAG from a plan file (YAML, JSON or Markdown checklist) using symbolic keys",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    path: z.string().optional().describe("Plan file path (relative to the project directory)"),
+    content: z.string().optional().describe("Inline plan content instead of a file"),
+    format: z.enum(["yaml", "json", "markdown"]).optional().describe("Plan format (default: from file extension or content)"),
+    dryRun: z.boolean().optional().describe("Validate only, create nothing"),
+  },
+  async execute(args, context) {
+    const team = teamStore.get(args.teamId);
     if (!team) {
       return `Error: Team ${args.teamId} not found`;
     }
 
-    let r = `## ${team.name}\n\n`;
-    r += `**Team ID**: ${team.id}\n`;
-    r += `**Preset**: ${team.preset}\n`;
-    r += `**Task**: ${team.task}\n\n`;
-    r += `### Agents\n`;
+    if (!args.path && !args.content) {
+      return "Error: Provide a plan file path or inline content";
+    }
 
-    const statusIcons: Record<AgentStatus, string> = {
-      idle: "[ ]",
-      thinking: "[*]",
-      responding: "[>]",
-      completed: "[OK]",
-      error: "[!]",
-    };
+    let content: string;
+    let plan: PlanTask[];
+    const planPath = args.path ? path.resolve(context.directory, args.path) : undefined;
+    try {
+      content = args.content ?? fs.readFileSync(planPath!, "utf-8");
+      plan = parsePlan(content, args.format ?? detectPlanFormat(planPath, content));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return `Error: ${errorMessage}`;
+    }
 
-    for (const [n, a] of team.agents) {
-      r += `- ${statusIcons[a.status]} **${n}**: ${a.status}\n`;
-      if (a.sessionID) r += `  - Session: ${a.sessionID}\n`;
-      if (a.error) r += `  - Error: ${a.error}\n`;
+    if (args.dryRun) {
+      const errors = validatePlan(team, plan);
+      if (errors.length > 0) {
+        return `## Plan Invalid\n\n${errors.map(e => `- ${e}`).join("\n")}\n`;
+      }
+      return `## Plan Valid\n\n${plan.length} tasks would be created: ${plan.map(t => t.key).join(", ")}\n`;
     }
 
-    if (team.tasks && team.tasks.size > 0) {
-      r += `\n### Tasks (${team.tasks.size})\n`;
-      const pending = Array.from(team.tasks.values()).filter(t => t.status === "pending").length;
-      const completed = Array.from(team.tasks.values()).filter(t => t.status === "completed").length;
-      const blocked = Array.from(team.tasks.values()).filter(t => t.status === "blocked").length;
-      r += `- Pending: ${pending}\n`;
-      r += `- Completed: ${completed}\n`;
-      r += `- Blocked: ${blocked}\n`;
+    const { created, errors } = importPlan(team, plan);
+    if (errors.length > 0) {
+      return `## Plan Invalid (nothing created)\n\n${errors.map(e => `- ${e}`).join("\n")}\n`;
     }
 
-    return r;
-  },
+    teamStore.save(team);
+
+    let response = `## Imported ${created.size} Tasks\n\n`;
+    response += `| Key | Task ID | Owner | Needs |\n`;
+    response += `|-----|---------|-------|-------|\n`;
+    for (const [key, task] of created) {
+      const needs = task.blockedBy.map(id => team.tasks.get(id)?.key ?? id).join(", ") || "-";
+      response += `| ${key} | ${task.id} | ${task.owner ?? "-"} | ${needs} |\n`;
+    }
+    response += `\n---\nUse \`/task-execute teamId="${team.id}"\` to run the plan.\n`;
+
+    return response;
+  }
 });
 
-const teamShutdownTool = tool({
-  description: "Shutdown team and cleanup sessions",
+const taskExportTool = tool({
+  description: "Export a team's tasks as a plan file (YAML, JSON or Markdown checklist) that task-import can re-create",
   args: {
-    teamId: z.string().describe("Team ID to shutdown"),
+    teamId: z.string().describe("Team ID"),
+    path: z.string().optional().describe("Write the plan to this file (relative to the project directory)"),
+    format: z.enum(["yaml", "json", "markdown"]).optional().describe("Plan format (default: from file extension, else yaml)"),
   },
-  async execute(args) {
-    const team = teams.get(args.teamId);
+  async execute(args, context) {
+    const team = teamStore.get(args.teamId);
     if (!team) {
       return `Error: Team ${args.teamId} not found`;
     }
 
-    // Cleanup all sessions
-    const cleanupPromises: Promise<void>[] = [];
-    for (const agent of team.agents.values()) {
-      if (agent.sessionID) {
-        cleanupPromises.push(cleanupSession(agent.sessionID));
-      }
+    if (!team.tasks || team.tasks.size === 0) {
+      return "No tasks to export. Use `/task-create` or `/task-import` to add tasks.";
     }
 
-    await Promise.allSettled(cleanupPromises);
+    const planPath = args.path ? path.resolve(context.directory, args.path) : undefined;
+    const format = args.format ?? (planPath ? detectPlanFormat(planPath, "") : "yaml");
+    const content = exportPlan(team, format);
 
-    const name = team.name;
-    teams.delete(args.teamId);
-    return `Team "${name}" shut down.`;
-  },
+    if (!planPath) {
+      const fence = format === "markdown" ? "markdown" : format;
+      return `## Plan: ${team.name}\n\n\`\`\`${fence}\n${content}\`\`\`\n`;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(planPath), { recursive: true });
+      fs.writeFileSync(planPath, content);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return `Error: Failed to write ${planPath}: ${errorMessage}`;
+    }
+
+    return `Exported ${team.tasks.size} tasks to ${planPath} (${format}).`;
+  }
 });
 
-const teamAutoTool = tool({
-  description: "Natural language team request with auto preset detection and execution",
+const teamPlanTool = tool({
+  description: "Have a planner agent decompose the team's task into a task DAG, review it, then approve (and optionally run) it",
   args: {
-    request: z.string().describe("Natural language request"),
+    teamId: z.string().describe("Team ID"),
+    goal: z.string().optional().describe("Goal to plan (default: the team's task)"),
+    planner: z.string().optional().describe(`Agent that writes the plan (default: ${PLANNER_AGENT} if in the team, else the lead)`),
+    replan: z.boolean().optional().describe("Discard the pending plan and ask the planner again"),
+    approve: z.boolean().optional().describe("Create the tasks from the pending plan (plans first if none is pending)"),
+    run: z.boolean().optional().describe("Execute the tasks right after approval, like task-execute"),
+    ...schedulerArgs
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!globalClient) {
       return "Error: OpenCode client not available";
     }
 
-    const preset = detectPreset(args.request);
-    const teamId = `team-${Date.now()}-${randomUUID().slice(0, 8)}`;
-    const agentNames = PRESETS[preset] ?? PRESETS[DEFAULT_PRESET];
-    const availableAgents = loadOpenCodeAgents();
-
-    const team: Team = {
-      id: teamId,
-      name: `auto-${preset}`,
-      preset,
-      agents: new Map(),
-      tasks: new Map(),
-      createdAt: new Date(),
-      task: args.request,
-    };
-
-    for (const name of agentNames) {
-      team.agents.set(name, {
-        name,
-        sessionID: null,
-        role: extractRoleFromDescription(
-          availableAgents[name]?.description,
-          name
-        ),
-        status: "idle",
-      });
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
     }
 
-    teams.set(teamId, team);
-    enforceMaxTeams();
-    saveTeam(team);
-
-    let r = `## Auto Team Created\n\n`;
-    r += `**Detected Preset**: ${preset}\n`;
-    r += `**Team ID**: ${teamId}\n\n`;
-    r += `### Members\n`;
-    for (const [n, a] of team.agents) {
-      const isDA = n === "devil-s-advocate" ? " [DEVIL]" : "";
-      r += `- **${n}** (${a.role})${isDA}\n`;
+    if (args.planner && args.planner !== LEAD_AGENT && !team.agents.has(args.planner)) {
+      return `Error: Agent ${args.planner} not found in team`;
     }
-    r += `\n### Task\n${args.request}\n\n`;
-    r += `---\n\n## Executing...\n\n`;
-
-    const executionPromises = Array.from(team.agents.entries()).map(
-      ([name, agent]) => executeAgent(name, agent, args.request, DEFAULT_TIMEOUT_SECONDS * 1000)
-    );
 
-    const results = await Promise.allSettled(executionPromises);
+    const options = buildSchedulerOptions(team, args);
+    const goal = args.goal ?? team.task;
+    const pending = team.plan && !team.plan.approvedAt && !team.plan.errors ? team.plan : undefined;
+    let plan = !args.replan && pending && pending.goal === goal ? pending : undefined;
+    let response = "";
 
-    const settledResults: ExecutionResult[] = results.map((res, index) => {
-      const agentName = Array.from(team.agents.keys())[index];
-      if (res.status === "fulfilled") {
-        return res.value;
+    if (!plan) {
+      const exhausted = budgetExceeded(team);
+      if (exhausted) {
+        return budgetExhaustedError(team, exhausted);
       }
-      return {
-        name: agentName,
-        success: false,
-        error: res.reason instanceof Error ? res.reason.message : String(res.reason),
-      };
-    });
-
-    team.results = new Map(
-      settledResults
-        .filter((res): res is ExecutionResult & { success: true; result: string } =>
-          res.success && res.result !== undefined
-        )
-        .map((res) => [res.name, res.result])
-    );
 
-    saveTeam(team);
-
-    for (const { name, success, result, error } of settledResults) {
-      const statusIcon = success ? "[OK]" : "[FAIL]";
-      r += `### ${statusIcon} ${name}\n`;
-      if (success && result) {
-        r += `${truncateText(result, 1500)}\n`;
-      } else if (error) {
-        r += `**Error**: ${error}\n`;
+      const planner = args.planner ?? (team.agents.has(PLANNER_AGENT) ? PLANNER_AGENT : LEAD_AGENT);
+      const generated = await withTeamRun(team, context, signal => generatePlan(team, planner, goal, options.timeout, signal));
+
+      // 다시 계획해도 이전 계획에 쓴 비용은 유지
+      plan = {
+        planner,
+        goal,
+        tasks: generated.tasks,
+        errors: generated.errors.length > 0 ? generated.errors : undefined,
+        createdAt: new Date(),
+        usage: addUsage(team.plan?.usage, generated.usage),
+      };
+      team.plan = plan;
+      teamStore.save(team);
+
+      if (plan.errors) {
+        response += `## Plan Rejected\n\n`;
+        response += plan.errors.map(e => `- ${e}`).join("\n");
+        response += `\n\n---\nUse \`/team-plan teamId="${team.id}" replan=true\` to try again.\n`;
+        return response;
       }
-      r += `\n---\n\n`;
     }
 
-    r += `**Team ID**: ${teamId}`;
-
-    return r;
-  },
-});
-
-// ============================================================================
-// TASK TOOLS
-// ============================================================================
+    response += `## Plan: ${team.name} (${plan.tasks.length} tasks)\n\n`;
+    response += formatPlan(plan);
 
-const taskCreateTool = tool({
-  description: "Create a task in a team with optional dependencies",
-  args: {
-    teamId: z.string().describe("Team ID"),
-    subject: z.string().describe("Task subject"),
-    description: z.string().describe("Task description"),
-    owner: z.string().optional().describe("Agent assigned to this task"),
-    blockedBy: z.string().optional().describe("Comma-separated task IDs this depends on")
-  },
-  async execute(args) {
-    const team = teams.get(args.teamId);
-    if (!team) {
-      return `Error: Team ${args.teamId} not found`;
+    if (!args.approve) {
+      response += `\n---\nApprove with \`/team-plan teamId="${team.id}" approve=true\` (add \`run=true\` to execute), or \`replan=true\` to ask again.\n`;
+      return response;
     }
 
-    // Initialize tasks map if needed
-    if (!team.tasks) {
-      team.tasks = new Map();
+    // 계획 이후 팀 태스크가 바뀌었을 수 있으므로 생성 시점에 다시 검증
+    const { created, errors } = importPlan(team, plan.tasks);
+    if (errors.length > 0) {
+      response += `\n## Plan Invalid (nothing created)\n\n${errors.map(e => `- ${e}`).join("\n")}\n`;
+      return response;
     }
 
-    const blockedBy = args.blockedBy
-      ? args.blockedBy.split(",").map(s => s.trim()).filter(Boolean)
-      : [];
+    plan.approvedAt = new Date();
+    teamStore.save(team);
 
-    const task = createTask(
-      team,
-      args.subject,
-      args.description,
-      args.owner,
-      blockedBy,
-      []
-    );
+    response += `\n## Approved: ${created.size} Tasks Created\n\n`;
+    response += Array.from(created, ([key, task]) => `- ${key} → ${task.id}`).join("\n");
+    response += `\n`;
 
-    // Update blocked tasks' blocks array
-    for (const depId of blockedBy) {
-      const depTask = team.tasks.get(depId);
-      if (depTask && !depTask.blocks.includes(task.id)) {
-        depTask.blocks.push(task.id);
-      }
+    if (!args.run) {
+      response += `\n---\nUse \`/task-execute teamId="${team.id}"\` to run the plan.\n`;
+      return response;
     }
 
-    saveTeam(team);
+    const exhausted = budgetExceeded(team);
+    if (exhausted) {
+      return response + `\n` + budgetExhaustedError(team, exhausted);
+    }
 
-    let response = `## Task Created\n\n`;
-    response += `**Task ID**: ${task.id}\n`;
-    response += `**Subject**: ${task.subject}\n`;
-    response += `**Owner**: ${task.owner || "Unassigned"}\n`;
-    response += `**Status**: ${task.status}\n`;
+    response += `\n## Executing Tasks\n\n`;
+    response += `**Max Concurrency**: ${options.maxConcurrency} (one task per agent at a time)\n\n`;
 
-    if (task.blockedBy.length > 0) {
-      response += `**Blocked By**: ${task.blockedBy.join(", ")}\n`;
-    }
+    const summary = await withTeamRun(team, context, signal => runTaskGraph(team, { ...options, signal }));
+    response += summary.log;
+    response += formatTaskRunSummary(team, summary);
 
     return response;
   }
 });
 
-const taskExecuteTool = tool({
-  description: "Execute tasks respecting dependencies (blocks/blockedBy)",
+const teamRerunTool = tool({
+  description: "Clone a team (agents, task and task DAG) into a new run, execute it and diff each agent's findings or results against the previous run",
   args: {
-    teamId: z.string().describe("Team ID"),
-    timeout: z.number().optional().describe("Timeout per task in seconds")
+    teamId: z.string().describe("Team to re-run (active or found with /team-history)"),
+    teamName: z.string().optional().describe("Name for the new run (default: the previous run's name)"),
+    ...schedulerArgs,
+    resultMode: resultModeArg,
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!globalClient) {
       return "Error: OpenCode client not available";
     }
 
-    const team = teams.get(args.teamId);
-    if (!team) {
+    const parent = teamStore.get(args.teamId) ?? teamStore.read(args.teamId);
+    if (!parent) {
       return `Error: Team ${args.teamId} not found`;
     }
 
-    if (!team.tasks || team.tasks.size === 0) {
-      return "No tasks to execute. Use `/task-create` to add tasks.";
-    }
-
-    // 순환 의존성 감지
+    const team = cloneTeamForRerun(parent, args.teamName);
     const cyclicDeps = findCyclicDependencies(team);
     if (cyclicDeps.length > 0) {
       return `Error: Cyclic dependencies detected in tasks: ${cyclicDeps.join(", ")}`;
     }
 
-    const timeout = (args.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
-    let response = `## Executing Tasks\n\n`;
-
-    let executable = getExecutableTasks(team);
-    let totalCompleted = 0;
-    let totalFailed = 0;
-    const maxIterations = team.tasks.size * 2;
-    let iterations = 0;
-
-    while (executable.length > 0 && iterations < maxIterations) {
-      iterations++;
+    teamStore.add(team);
+    enforceMaxTeams();
+    teamStore.save(team);
 
-      for (const task of executable) {
-        task.status = "in_progress";
-        response += `### ${task.subject} (${task.id})\n`;
-
-        if (task.owner && team.agents.has(task.owner)) {
-          const agent = team.agents.get(task.owner)!;
-          const result = await executeAgent(task.owner, agent, task.description, timeout);
-
-          if (result.success) {
-            task.status = "completed";
-            task.result = result.result;
-            task.completedAt = new Date();
-            totalCompleted++;
-            response += `**[OK]** Completed\n`;
-          } else {
-            task.status = "error";
-            task.error = result.error;
-            totalFailed++;
-            response += `**[FAIL]** Error: ${result.error}\n`;
-          }
-        } else {
-          task.status = "completed";
-          task.completedAt = new Date();
-          totalCompleted++;
-          response += `**[OK]** Marked complete (no owner)\n`;
+    let response = `## Re-running "${parent.name}"\n\n`;
+    response += `**Team ID**: ${team.id}\n`;
+    response += `**Re-run of**: ${parent.id}\n`;
+    if (team.git) {
+      response += `**Git target**: ${formatGitTargetLine(team.git)} (captured ${team.git.capturedAt.toISOString()})\n`;
+    }
+    response += `**Agents**: ${team.agents.size}${team.tasks.size > 0 ? `, **Tasks**: ${team.tasks.size}` : ""}\n\n`;
+
+    let stopped = false;
+    if (team.tasks.size > 0) {
+      const options = buildSchedulerOptions(team, args);
+      const summary = await withTeamRun(team, context, async signal => {
+        const result = await runTaskGraph(team, { ...options, signal });
+        stopped = signal.aborted;
+        return result;
+      });
+      response += summary.log;
+      response += formatTaskRunSummary(team, summary);
+    } else {
+      const timeout = (args.timeout ?? team.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+      team.results = new Map();
+      response += await withTeamRun(team, context, async signal => {
+        const results = await executeAllAgents(team, team.task, timeout, signal);
+        let r = formatExecutionResults(team, results, args.resultMode);
+        stopped = signal.aborted;
+        if (stopped) {
+          r += formatStopped(abortReason(signal), results.filter(res => res.skipped).map(res => res.name));
         }
-      }
+        return r;
+      });
+    }
+
+    if (stopped) {
+      response += `\nThe re-run was stopped, so no diff was made. Run \`/team-rerun teamId="${parent.id}"\` again.\n`;
+    } else {
+      response += formatRunDiff(parent, team, diffTeamRuns(parent, team));
+    }
+    return response;
+  },
+});
 
-      saveTeam(team);
-      executable = getExecutableTasks(team);
+const taskGraphTool = tool({
+  description: "Render the task dependency graph as Mermaid, Graphviz DOT or an ASCII tree, with status colors and the critical path",
+  args: {
+    teamId: z.string().describe("Team ID"),
+    format: z.enum(["mermaid", "dot", "ascii"]).optional().describe("Output format (default: mermaid)"),
+  },
+  async execute(args) {
+    const team = teamStore.get(args.teamId);
+    if (!team) {
+      return `Error: Team ${args.teamId} not found`;
     }
 
-    if (iterations >= maxIterations && executable.length > 0) {
-      response += `\n[WARN] Maximum iterations reached. Possible deadlock.\n`;
+    if (!team.tasks || team.tasks.size === 0) {
+      return "No tasks. Use `/task-create` to add tasks.";
     }
 
-    const remaining = Array.from(team.tasks.values())
-      .filter(t => t.status === "pending" || t.status === "blocked").length;
+    const format = args.format ?? "mermaid";
+    const { graph, content } = renderTaskGraph(team, format);
+    const fence = format === "ascii" ? "" : format;
 
-    response += `\n---\n`;
-    response += `**Completed**: ${totalCompleted}\n`;
-    response += `**Failed**: ${totalFailed}\n`;
-    response += `**Remaining**: ${remaining}\n`;
+    let response = `## Task Graph: ${team.name} (${graph.tasks.length} tasks, ${graph.edges.length} dependencies)\n\n`;
+    response += `\`\`\`${fence}\n${content}\`\`\`\n`;
+
+    if (graph.critical.length > 0) {
+      const durations = graph.critical.map(id => taskDurationMs(team.tasks.get(id)!));
+      const measured = durations.every(d => d !== undefined)
+        ? ` (${formatDuration(durations.reduce((a, b) => a! + b!, 0)!)})`
+        : "";
+      response += `\n**Critical path**${measured}: ${graph.critical.map(id => graphLabel(team.tasks.get(id)!)).join(" → ")}\n`;
+    }
+    if (graph.cyclic.size > 0) {
+      response += `\n**Cyclic dependencies**: ${Array.from(graph.cyclic).join(", ")}\n`;
+    }
+    if (format === "ascii") {
+      response += `\nLegend: ${Object.entries(TASK_STATUS_ICONS).map(([status, icon]) => `${icon} ${status}`).join(", ")}; * critical path; ↑ shown above\n`;
+    }
 
     return response;
   }
@@ -1134,7 +4997,7 @@ const taskListTool = tool({
     teamId: z.string().describe("Team ID")
   },
   async execute(args) {
-    const team = teams.get(args.teamId);
+    const team = teamStore.get(args.teamId);
     if (!team) {
       return `Error: Team ${args.teamId} not found`;
     }
@@ -1145,24 +5008,37 @@ const taskListTool = tool({
 
     let response = `## Tasks (${team.tasks.size})\n\n`;
 
-    const statusIcon: Record<TaskStatus, string> = {
-      pending: "[ ]",
-      in_progress: "[>]",
-      completed: "[OK]",
-      blocked: "[!]",
-      error: "[X]"
-    };
-
     for (const [, task] of team.tasks) {
-      const icon = statusIcon[task.status];
+      const icon = TASK_STATUS_ICONS[task.status];
       response += `${icon} **${task.subject}** (${task.id})\n`;
       response += `   - Status: ${task.status}\n`;
-      response += `   - Owner: ${task.owner || "Unassigned"}\n`;
+      response += `   - Owner: ${task.owner || (task.claimable ? "Unassigned (open to claim)" : "Unassigned")}\n`;
+      if (task.createdBy) {
+        response += `   - Created by: ${task.createdBy}\n`;
+      }
+      if (task.report) {
+        response += `   - Reported: ${task.report.summary}\n`;
+      }
       if (task.blockedBy.length > 0) {
-        response += `   - Blocked by: ${task.blockedBy.length} tasks\n`;
+        const deps = task.blockedBy.map(id => team.tasks.get(id)?.key ?? id);
+        response += `   - Blocked by: ${deps.join(", ")}\n`;
+      }
+      if (task.blockedReason) {
+        response += `   - Reason: ${task.blockedReason}\n`;
+      }
+      if (task.error) {
+        response += `   - Error: ${task.error}\n`;
+      }
+      if (task.usage) {
+        response += `   - Usage: ${formatUsage(task.usage)}\n`;
+      }
+      if (task.attempts && task.attempts > 1) {
+        response += `   - Attempts: ${task.attempts}${task.retry ? `/${task.retry.maxAttempts}` : ""}\n`;
       }
     }
 
+    response += `\nUse \`/task-graph teamId="${team.id}"\` to see the dependency graph.\n`;
+
     return response;
   }
 });
@@ -1172,13 +5048,17 @@ const taskUpdateTool = tool({
   args: {
     teamId: z.string().describe("Team ID"),
     taskId: z.string().describe("Task ID to update"),
-    status: z.enum(["pending", "in_progress", "completed", "blocked", "error"]).optional().describe("New status"),
+    status: z.enum(["pending", "in_progress", "completed", "blocked", "error", "cancelled"]).optional().describe("New status"),
     owner: z.string().optional().describe("New owner (agent name)"),
     addBlockedBy: z.string().optional().describe("Comma-separated task IDs to add as dependencies"),
-    addBlocks: z.string().optional().describe("Comma-separated task IDs that this task blocks")
+    addBlocks: z.string().optional().describe("Comma-separated task IDs that this task blocks"),
+    includeUpstream: z.boolean().optional().describe("Include results of blockedBy tasks in the prompt"),
+    maxAttempts: z.number().optional().describe("Total attempts before the task fails (1 disables retries)"),
+    retryBackoff: z.number().optional().describe("Initial retry backoff in seconds"),
+    retryOn: z.enum(["any", "timeout"]).optional().describe("Retry on any error or only on timeouts")
   },
   async execute(args) {
-    const team = teams.get(args.teamId);
+    const team = teamStore.get(args.teamId);
     if (!team) {
       return `Error: Team ${args.teamId} not found`;
     }
@@ -1195,6 +5075,9 @@ const taskUpdateTool = tool({
     // Update status
     if (args.status) {
       task.status = args.status;
+      if (args.status !== "blocked") {
+        task.blockedReason = undefined;
+      }
       if (args.status === "completed") {
         task.completedAt = new Date();
       }
@@ -1205,6 +5088,18 @@ const taskUpdateTool = tool({
       task.owner = args.owner || undefined;
     }
 
+    if (args.includeUpstream !== undefined) {
+      task.includeUpstream = args.includeUpstream;
+    }
+
+    if (args.maxAttempts !== undefined || args.retryBackoff !== undefined || args.retryOn !== undefined) {
+      task.retry = buildRetryPolicy(
+        args.maxAttempts ?? task.retry?.maxAttempts,
+        args.retryBackoff ?? (task.retry ? task.retry.backoffMs / 1000 : undefined),
+        args.retryOn ?? task.retry?.retryOn
+      );
+    }
+
     // Add blockedBy dependencies
     if (args.addBlockedBy) {
       const newDeps = args.addBlockedBy.split(",").map(s => s.trim()).filter(Boolean);
@@ -1235,7 +5130,7 @@ const taskUpdateTool = tool({
       }
     }
 
-    saveTeam(team);
+    teamStore.save(team);
 
     let response = `## Task Updated\n\n`;
     response += `**Task ID**: ${task.id}\n`;
@@ -1256,19 +5151,52 @@ const taskUpdateTool = tool({
 const plugin: Plugin = async (input: PluginInput) => {
   globalClient = input.client;
   loadOpenCodeAgents();
+  // git 저장소가 아니면 worktree는 "/"
+  await teamStore.flush(); // 다시 초기화되면 이전 저장소의 쓰기를 마친 뒤 교체
+  configureStorage(input.worktree && input.worktree !== "/" ? input.worktree : input.directory);
+  teamStore.restore();
+  enforceMaxTeams();
 
   return {
+    event: async ({ event }) => {
+      handleSessionEvent(event);
+      // 종료 전에 비동기로 쓰는 팀 저장을 마침
+      if (event.type === "server.instance.disposed") await teamStore.flush();
+    },
     tool: {
       "team-spawn": teamSpawnTool,
       "team-execute": teamExecuteTool,
       "team-discuss": teamDiscussTool,
+      "team-debate": teamDebateTool,
       "team-status": teamStatusTool,
       "team-shutdown": teamShutdownTool,
+      "team-cancel": teamCancelTool,
+      "team-report": teamReportTool,
+      "team-history": teamHistoryTool,
+      "team-search": teamSearchTool,
+      "team-findings": teamFindingsTool,
+      "team-result": teamResultTool,
+      "team-budget": teamBudgetTool,
+      "team-message": teamMessageTool,
+      "team-inbox": teamInboxTool,
       "team-auto": teamAutoTool,
+      "team-resume": teamResumeTool,
+      "team-rerun": teamRerunTool,
+      "preset-list": presetListTool,
       "task-create": taskCreateTool,
       "task-update": taskUpdateTool,
       "task-execute": taskExecuteTool,
+      "task-retry": taskRetryTool,
       "task-list": taskListTool,
+      "task-handoff": taskHandoffTool,
+      "task-claim": taskClaimTool,
+      "task-complete": taskCompleteTool,
+      "shutdown-respond": shutdownRespondTool,
+      "finding-report": findingReportTool,
+      "task-graph": taskGraphTool,
+      "task-import": taskImportTool,
+      "task-export": taskExportTool,
+      "team-plan": teamPlanTool,
     },
   };
 };
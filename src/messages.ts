@@ -0,0 +1,66 @@
+import type { Message as SessionMessage, Part } from "@opencode-ai/sdk";
+import type { Message } from "./index";
+
+// ============================================================================
+// MESSAGE PROTOCOL
+// ============================================================================
+
+export const messageQueue = new Map<string, Message[]>();
+
+// 큐 키는 팀 단위로 분리: "{teamId}:{recipient}" 또는 "{teamId}:broadcast"
+const queueKey = (teamId: string, recipient: string): string => `${teamId}:${recipient}`;
+
+export function sendMessage(message: Message): void {
+  const key = queueKey(message.teamId, message.recipient || "broadcast");
+  const queue = messageQueue.get(key) || [];
+  queue.push(message);
+  messageQueue.set(key, queue);
+}
+
+export function getMessages(teamId: string, recipient: string, since?: Date): Message[] {
+  const queue = messageQueue.get(queueKey(teamId, recipient)) || [];
+  const broadcast = (messageQueue.get(queueKey(teamId, "broadcast")) || [])
+    .filter(m => m.sender !== recipient);
+  const all = [...queue, ...broadcast]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (since) {
+    return all.filter(m => m.timestamp > since);
+  }
+  return all;
+}
+
+// ============================================================================
+// SESSION MESSAGES
+// ============================================================================
+
+// TextPart 타입 가드
+export const isTextPart = (p: Part): p is Part & { type: "text"; text: string } =>
+  p.type === "text" && "text" in p;
+
+// 마지막 user 메시지 이후의 assistant 메시지들 = 최종 턴
+export function finalAssistantTurn(
+  messages: Array<{ info: SessionMessage; parts?: Part[] }>
+): { text: string; complete: boolean } | null {
+  let lastUserIndex = -1;
+  messages.forEach((m, index) => {
+    if (m.info.role === "user") lastUserIndex = index;
+  });
+
+  const turn = messages
+    .slice(lastUserIndex + 1)
+    .filter(m => m.info.role === "assistant");
+  if (turn.length === 0) return null;
+
+  const last = turn[turn.length - 1].info;
+  // 완료 시각이 없거나 도구 호출 단계로 끝났으면 아직 진행 중
+  const complete = last.role === "assistant"
+    && last.time.completed !== undefined
+    && last.finish !== "tool-calls";
+
+  const text = turn
+    .flatMap(m => (m.parts ?? []).filter(isTextPart))
+    .map(p => p.text)
+    .join("\n");
+
+  return { text, complete };
+}
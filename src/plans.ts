@@ -0,0 +1,156 @@
+import path from "path";
+import type { RetryOn } from "./index";
+
+// ============================================================================
+// PLAN FILES
+// ============================================================================
+
+export type PlanFormat = "yaml" | "json" | "markdown";
+
+// FindingInput과 같은 이유로 직접 선언
+export interface PlanTask {
+  key: string;
+  subject: string;
+  description?: string;
+  owner?: string;
+  needs?: string | string[];
+  includeUpstream?: boolean;
+  maxAttempts?: number;
+  retryBackoff?: number;
+  retryOn?: RetryOn;
+}
+
+export function detectPlanFormat(filePath: string | undefined, content: string): PlanFormat {
+  const ext = filePath ? path.extname(filePath).toLowerCase() : "";
+  if (ext === ".json") return "json";
+  if (ext === ".yaml" || ext === ".yml") return "yaml";
+  if (ext === ".md" || ext === ".markdown") return "markdown";
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return "json";
+  return /^\s*[-*] \[[ xX]\]/m.test(content) ? "markdown" : "yaml";
+}
+
+// Markdown 항목의 실행 옵션 ("maxAttempts: 3 retryOn: timeout", needs: 앞에 기록)
+export const MARKDOWN_PLAN_OPTIONS = ["includeUpstream", "maxAttempts", "retryBackoff", "retryOn"] as const;
+
+const MARKDOWN_PLAN_OPTION_PATTERN = new RegExp(`(?:^|\\s)(${MARKDOWN_PLAN_OPTIONS.join("|")}):\\s*(\\S+)`, "g");
+
+// 숫자/불리언이 아닌 값은 그대로 두어 PlanSchema 검증에서 걸러짐
+function parseMarkdownPlanOption(name: string, value: string): unknown {
+  if (name === "retryOn") return value;
+  if (name === "includeUpstream") return value === "true" ? true : value === "false" ? false : value;
+  return Number(value);
+}
+
+// Markdown 체크리스트: "- [ ] key: subject @owner maxAttempts: 3 needs: a, b"
+// 들여쓴 항목은 상위 항목에 의존하고, 항목 아래 들여쓴 일반 줄은 description이 됨
+export function parseMarkdownPlan(content: string): { tasks: Array<Record<string, unknown>> } {
+  const tasks: Array<{
+    key: string;
+    subject: string;
+    owner?: string;
+    needs: string[];
+    options: Record<string, unknown>;
+    description: string[];
+  }> = [];
+  const stack: Array<{ indent: number; key: string }> = [];
+  let current: (typeof tasks)[number] | null = null;
+  let currentIndent = -1;
+
+  for (const line of content.split("\n")) {
+    const item = line.match(/^(\s*)[-*] \[[ xX]\]\s+(.+)$/);
+    if (!item) {
+      // 항목보다 깊게 들여쓴 줄만 설명으로 취급 (제목/빈 줄은 무시)
+      const indent = line.length - line.trimStart().length;
+      if (current && line.trim() && indent > currentIndent) {
+        current.description.push(line.trim());
+      }
+      continue;
+    }
+
+    const indent = item[1].replace(/\t/g, "  ").length;
+    let body = item[2].trim();
+    const needs: string[] = [];
+
+    const needsMatch = body.match(/\s*\bneeds:\s*(.+)$/);
+    if (needsMatch) {
+      needs.push(...needsMatch[1].split(",").map(s => s.trim()).filter(Boolean));
+      body = body.slice(0, needsMatch.index).trim();
+    }
+
+    const options: Record<string, unknown> = {};
+    body = body.replace(MARKDOWN_PLAN_OPTION_PATTERN, (_, name: string, value: string) => {
+      options[name] = parseMarkdownPlanOption(name, value);
+      return "";
+    }).trim();
+
+    const ownerMatch = body.match(/(?:^|\s)@([\w.-]+)/);
+    const owner = ownerMatch?.[1];
+    if (ownerMatch) {
+      body = (body.slice(0, ownerMatch.index) + body.slice(ownerMatch.index! + ownerMatch[0].length)).trim();
+    }
+
+    const keyMatch = body.match(/^([\w.-]+):\s+(.+)$/);
+    const subject = keyMatch ? keyMatch[2].trim() : body;
+    const key = keyMatch?.[1] ?? slugify(subject, tasks.map(t => t.key));
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent && !needs.includes(parent.key)) needs.unshift(parent.key);
+
+    current = { key, subject, owner, needs, options, description: [] };
+    currentIndent = indent;
+    tasks.push(current);
+    stack.push({ indent, key });
+  }
+
+  return {
+    tasks: tasks.map(({ description, options, ...t }) => ({
+      ...t,
+      ...options,
+      description: description.length > 0 ? description.join("\n") : undefined,
+    })),
+  };
+}
+
+function slugify(subject: string, taken: string[]): string {
+  const base = subject.toLowerCase().replace(/[^\w]+/g, "-").replace(/^-+|-+$/g, "") || "task";
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) key = `${base}-${i}`;
+  return key;
+}
+
+export const planNeeds = (task: PlanTask): string[] =>
+  typeof task.needs === "string"
+    ? task.needs.split(",").map(s => s.trim()).filter(Boolean)
+    : task.needs ?? [];
+
+// ============================================================================
+// PLANNER
+// ============================================================================
+
+// 응답에서 JSON 추출: 코드 블록 우선, 없으면 첫 { ~ 마지막 }
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?[^\n]*\n([\s\S]*?)```/);
+  if (fenced) return fenced[1];
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
+
+// 실행 단계: 의존성이 없는 태스크는 1단계, 나머지는 가장 늦은 선행 태스크 + 1
+export function planStages(tasks: PlanTask[]): Map<string, number> {
+  const byKey = new Map(tasks.map(t => [t.key, t]));
+  const stages = new Map<string, number>();
+  const stageOf = (key: string): number => {
+    if (stages.has(key)) return stages.get(key)!;
+    stages.set(key, 1); // 순환 방어 (검증된 계획에는 순환 없음)
+    const needs = planNeeds(byKey.get(key)!).filter(n => byKey.has(n));
+    const stage = needs.length > 0 ? Math.max(...needs.map(stageOf)) + 1 : 1;
+    stages.set(key, stage);
+    return stage;
+  };
+  for (const task of tasks) stageOf(task.key);
+  return stages;
+}
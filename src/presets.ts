@@ -0,0 +1,182 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PresetScore {
+  preset: string;
+  score: number;
+  matched: string[];
+}
+
+export interface PresetDetection {
+  preset: string;
+  presets: string[];
+  scores: PresetScore[];
+  confidence: number;
+  method: "keywords" | "classifier" | "default";
+  reason: string;
+}
+
+// 점수화에 필요한 프리셋 정보 (PresetDefinition의 일부)
+export interface PresetKeywords {
+  keywords: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_PRESET = "review";
+export const COMBINE_SCORE_RATIO = 0.75; // 1위 점수의 이 비율 이상인 프리셋은 에이전트 결합
+const MAX_COMBINED_PRESETS = 2;
+const MIN_STEM_LENGTH = 4; // 이보다 짧은 키워드(ai, pr, rag)는 복수형 s만 허용
+
+export const PRESET_KEYWORDS: Record<string, string[]> = {
+  security: ["security", "vulnerability", "cve", "xss", "injection", "보안", "취약점"],
+  debug: ["debug", "bug", "error", "crash", "버그", "에러", "오류", "디버그"],
+  planning: ["planning", "plan", "design", "architecture", "계획", "설계", "아키텍처"],
+  implementation: ["implement", "develop", "development", "build feature", "구현", "개발"],
+  research: ["research", "explore", "investigate", "조사", "탐색", "분석"],
+  review: ["review", "code review", "pr", "리뷰", "검토"],
+  fullstack: ["fullstack", "full-stack", "full stack", "end-to-end", "풀스택"],
+  ai: ["ai", "llm", "rag", "embedding", "인공지능"],
+};
+
+// ============================================================================
+// KEYWORD MATCHING
+// ============================================================================
+
+const HANGUL = /[\u3131-\uD79D]/;
+
+export const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// 마지막 단어의 어형 변화: s/es/ed/ing/er(s), e 탈락(investigate → investigating),
+// y → ies/ied, 단모음+자음 끝의 자음 중복(debug → debugged)
+function inflections(word: string): string {
+  const escaped = escapeRegExp(word);
+  if (word.length < MIN_STEM_LENGTH) return `${escaped}s?`;
+  if (word.endsWith("e")) return `${escapeRegExp(word.slice(0, -1))}(?:e|es|ed|er|ers|ing)`;
+  if (/[^aeiou]y$/.test(word)) return `${escapeRegExp(word.slice(0, -1))}(?:y|ies|ied|ying)`;
+  const doubled = /[^aeiou][aeiou][b-df-hj-np-tvz]$/.test(word) ? `${word.slice(-1)}?` : "";
+  return `${escaped}(?:s|es|${doubled}(?:ed|er|ers|ing))?`;
+}
+
+// 영어: 단어 경계에서 시작/끝나는 일치, 마지막 단어만 정해진 어미 허용 - plan이 planet에 걸리지 않도록
+// 한국어: 조사/복합어가 붙으므로 부분 문자열 일치 (보안을, 코드보안)
+export function keywordPattern(keyword: string): RegExp {
+  const kw = keyword.toLowerCase().trim();
+  if (HANGUL.test(kw)) {
+    return new RegExp(escapeRegExp(kw));
+  }
+
+  const words = kw.split(/\s+/);
+  const last = inflections(words.pop()!);
+  return new RegExp(`(?<![a-z0-9])${[...words.map(escapeRegExp), last].join("[\\s-]+")}(?![a-z0-9])`);
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+// 모든 프리셋을 점수화: 키워드당 1점 (여러 단어 키워드 2점), 가장 먼저 언급된 프리셋에 0.5점 가산
+// 같은 위치에 겹치는 키워드(plan/planning)는 긴 키워드 하나만 점수에 반영
+export function scorePresets(request: string, registry: ReadonlyMap<string, PresetKeywords>): PresetScore[] {
+  const lowerRequest = request.toLowerCase();
+  const scores: Array<PresetScore & { firstIndex: number }> = [];
+
+  for (const [preset, definition] of registry) {
+    const keywords = Array.from(new Set([preset, ...definition.keywords]))
+      .sort((a, b) => b.length - a.length);
+    const matched: string[] = [];
+    const spans: Array<[number, number]> = [];
+    let score = 0;
+    let firstIndex = Infinity;
+
+    for (const kw of keywords) {
+      const match = keywordPattern(kw).exec(lowerRequest);
+      if (!match) continue;
+      const start = match.index;
+      const end = start + match[0].length;
+      if (spans.some(([s, e]) => start < e && end > s)) continue;
+      spans.push([start, end]);
+      matched.push(kw);
+      score += /\s/.test(kw.trim()) ? 2 : 1;
+      firstIndex = Math.min(firstIndex, match.index);
+    }
+
+    if (score > 0) {
+      scores.push({ preset, score, matched, firstIndex });
+    }
+  }
+
+  const earliest = Math.min(...scores.map(s => s.firstIndex));
+  for (const entry of scores) {
+    if (entry.firstIndex === earliest) entry.score += 0.5;
+  }
+
+  return scores
+    .sort((a, b) => b.score - a.score || a.firstIndex - b.firstIndex)
+    .map(({ preset, score, matched }) => ({ preset, score, matched }));
+}
+
+export function detectPreset(request: string, registry: ReadonlyMap<string, PresetKeywords>): PresetDetection {
+  const scores = scorePresets(request, registry);
+
+  if (scores.length === 0) {
+    return {
+      preset: DEFAULT_PRESET,
+      presets: [DEFAULT_PRESET],
+      scores,
+      confidence: 0,
+      method: "default",
+      reason: "No preset keywords matched",
+    };
+  }
+
+  const [best, second] = scores;
+  const confidence = second ? (best.score - second.score) / best.score : 1;
+  const presets = [best.preset, ...scores
+    .slice(1)
+    .filter(s => s.score >= best.score * COMBINE_SCORE_RATIO)
+    .map(s => s.preset)]
+    .slice(0, MAX_COMBINED_PRESETS);
+
+  let reason = `Matched ${best.matched.map(k => `"${k}"`).join(", ")} (score ${best.score})`;
+  if (second) {
+    reason += `; runner-up ${second.preset} (score ${second.score})`;
+  }
+
+  return { preset: best.preset, presets, scores, confidence, method: "keywords", reason };
+}
+
+// ============================================================================
+// DEVIL'S ADVOCATE
+// ============================================================================
+
+export const DEVILS_ADVOCATE_AGENT = "devil-s-advocate";
+
+// Devil's Advocate 이름 매칭 (여러 변형 지원)
+const DEVILS_ADVOCATE_NAMES = [
+  "devil-s-advocate",
+  "devils-advocate",
+  "devil_advocate",
+  "devilsadvocate",
+  "devil-sadvocate"
+];
+
+export function isDevilsAdvocate(agentName: string): boolean {
+  const normalized = agentName.toLowerCase().replace(/[_-]/g, "");
+  return DEVILS_ADVOCATE_NAMES.some(
+    name => normalized === name.replace(/[_-]/g, "")
+  );
+}
+
+// devilsAdvocate 설정에 맞춰 DA 에이전트를 추가/제거
+export function presetAgents(agents: string[], devilsAdvocate: boolean): string[] {
+  const result = agents.filter(a => devilsAdvocate || !isDevilsAdvocate(a));
+  if (devilsAdvocate && !result.some(isDevilsAdvocate)) {
+    result.push(DEVILS_ADVOCATE_AGENT);
+  }
+  return result;
+}
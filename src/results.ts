@@ -0,0 +1,125 @@
+import type { ProgressEntry, Team } from "./index";
+import { truncateText } from "./utils";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_RESULT_LENGTH = 2000; // summary 모드에서 에이전트별로 보여주는 길이
+const SEARCH_SNIPPET_RADIUS = 80; // 검색어 앞뒤로 보여주는 글자 수
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export type ResultMode = "summary" | "full";
+
+// summary 모드에서 잘린 결과에는 나머지를 읽는 명령을 덧붙임
+export function formatResultText(team: Team, text: string, mode: ResultMode, ref: string, maxLength: number = MAX_RESULT_LENGTH): string {
+  if (mode === "full" || text.length <= maxLength) return text;
+  return `${truncateText(text, maxLength)}\n\n_(${maxLength} of ${text.length} chars shown; continue with \`/team-result teamId="${team.id}" ${ref} offset=${maxLength}\`)_`;
+}
+
+// 에이전트/태스크/종합 결과 목록 (team-result에서 선택)
+// agent: 결과를 작성한 에이전트 (team-search의 agent 필터)
+export function resultSources(team: Team): Array<{ label: string; ref: string; text: string; agent?: string }> {
+  const sources: Array<{ label: string; ref: string; text: string; agent?: string }> = [];
+  for (const agent of team.agents.values()) {
+    if (agent.result) sources.push({ label: `Agent ${agent.name}`, ref: `agent="${agent.name}"`, text: agent.result, agent: agent.name });
+  }
+  for (const task of team.tasks.values()) {
+    if (task.result) sources.push({ label: `Task ${task.subject}`, ref: `task="${task.key ?? task.id}"`, text: task.result, agent: task.owner });
+  }
+  if (team.synthesis) {
+    sources.push({ label: `Synthesis (${team.synthesis.synthesizer})`, ref: `synthesis=true`, text: team.synthesis.content, agent: team.synthesis.synthesizer });
+  }
+  if (team.debate?.summary) {
+    sources.push({ label: `Debate summary (${team.debate.moderator})`, ref: `debate=true`, text: team.debate.summary, agent: team.debate.moderator });
+  }
+  return sources;
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+// 진행 로그의 마지막 lines줄
+export const tailLines = (content: string, lines: number): string[] =>
+  content.trimEnd().split("\n").filter(Boolean).slice(-lines);
+
+export const formatProgressLine = (entry: ProgressEntry): string =>
+  `${entry.at.toISOString()} ${entry.agent} ${entry.status}${entry.detail ? ` - ${entry.detail.replace(/\s+/g, " ")}` : ""}`;
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+// ISO 날짜 또는 상대 기간 (12h, 30d, 4w)
+export function parseHistoryDate(value: string, now = Date.now()): Date | null {
+  const relative = value.trim().match(/^(\d+)\s*([hdw])$/i);
+  if (relative) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[relative[2].toLowerCase() as "h" | "d" | "w"];
+    return new Date(now - Number(relative[1]) * hours * 60 * 60 * 1000);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function searchSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SEARCH_SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SEARCH_SNIPPET_RADIUS);
+  return `${start > 0 ? "..." : ""}${text.slice(start, end).replace(/\s+/g, " ").trim()}${end < text.length ? "..." : ""}`;
+}
+
+// 모든 검색어가 한 결과 안에 있어야 일치 (대소문자 무시), 스니펫은 첫 검색어 주변
+export function searchTeamResults(
+  teams: Team[],
+  query: string,
+  agent?: string
+): Array<{ team: Team; label: string; ref: string; snippet: string }> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const matches: Array<{ team: Team; label: string; ref: string; snippet: string }> = [];
+  for (const team of teams) {
+    for (const source of resultSources(team)) {
+      if (agent && source.agent !== agent) continue;
+      const lower = source.text.toLowerCase();
+      if (!terms.every(term => lower.includes(term))) continue;
+      const index = lower.indexOf(terms[0]);
+      matches.push({ team, label: source.label, ref: source.ref, snippet: searchSnippet(source.text, index, terms[0].length) });
+    }
+  }
+  return matches;
+}
+
+// ============================================================================
+// RERUN
+// ============================================================================
+
+// 순서와 무관한 줄 비교 (앞뒤 공백 무시, 빈 줄 제외, 같은 줄이 여러 번 나오면 횟수로 비교)
+export function diffResultLines(before: string, after: string): { removed: string[]; added: string[]; unchanged: number } {
+  const lines = (text: string) => text.split("\n").map(line => line.trim().replace(/\s+/g, " ")).filter(Boolean);
+  const remaining = new Map<string, number>();
+  for (const line of lines(before)) remaining.set(line, (remaining.get(line) ?? 0) + 1);
+
+  const added: string[] = [];
+  let unchanged = 0;
+  for (const line of lines(after)) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+      unchanged++;
+    } else {
+      added.push(line);
+    }
+  }
+
+  const removed = lines(before).filter(line => {
+    const count = remaining.get(line) ?? 0;
+    if (count === 0) return false;
+    remaining.set(line, count - 1);
+    return true;
+  });
+  return { removed, added, unchanged };
+}
@@ -0,0 +1,933 @@
+import { tool } from "@opencode-ai/plugin";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { randomUUID } from "crypto";
+import { Database } from "bun:sqlite";
+import type { Agent, Message, Task, Team } from "./index";
+
+const z = tool.schema;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StorageBackend = "fs" | "sqlite" | "memory";
+
+// 저장 형식: Date는 ISO 문자열 (Map은 SerializedTeam에서 배열로 바꿈)
+type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer U>
+    ? Array<Serialized<U>>
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+export type SerializedAgent = Serialized<Agent>;
+export type SerializedTask = Serialized<Task>;
+export type SerializedMessage = Serialized<Message>;
+
+export interface SerializedTeam extends Serialized<Omit<Team, "agents" | "tasks" | "results" | "revision">> {
+  schemaVersion: number;
+  revision: number;
+  agents: SerializedAgent[];
+  tasks: SerializedTask[];
+  messages: SerializedMessage[];
+}
+
+// 저장 백엔드: 직렬화된 팀 레코드(JSON)의 읽기/쓰기만 담당
+// 읽은 레코드는 검증 전이므로 unknown (마이그레이션과 검증은 parseTeamRecord)
+export interface TeamRecords {
+  location: string;
+  read(teamId: string): unknown; // 없으면 null
+  readAll(filter?: HistoryFilter): unknown[]; // 백엔드가 조건을 미리 적용할 수 있음 (sqlite)
+  // 잠금(또는 트랜잭션) 안에서 현재 레코드를 받아 새 레코드를 씀 (null이면 쓰지 않음)
+  update(teamId: string, fn: (current: unknown) => SerializedTeam | null): Promise<void>;
+}
+
+// team-history/team-search 조건 (name은 대소문자 무시 부분 일치)
+export interface HistoryFilter {
+  since?: Date;
+  until?: Date;
+  preset?: string;
+  name?: string;
+}
+
+// 팀 메시지 큐: 저장할 때 함께 직렬화하고 복원할 때 다시 적재
+export interface MessageLog {
+  list(teamId: string): Message[];
+  add(message: Message): void;
+}
+
+// 도구들이 사용하는 팀 저장소: 활성 팀(실행 중 직접 변경되는 객체)과 저장된 기록
+export interface TeamStore {
+  backend: StorageBackend;
+  location: string;
+  get(teamId: string): Team | undefined;
+  list(): Team[];
+  add(team: Team): void;
+  save(team: Team): void; // 팀별로 모아 비동기로 씀 (쓰는 중에 다시 저장하면 끝난 뒤 최신 상태로 한 번 더)
+  release(teamId: string): void; // 활성 목록에서만 제거, 저장된 기록은 유지
+  read(teamId: string): Team | null; // 읽기 전용 사본
+  activate(teamId: string): Team | null; // 저장된 팀을 메시지와 함께 활성 목록으로 복원
+  history(filter?: HistoryFilter): Team[]; // 종료/보관된 팀 포함
+  restore(): number;
+  flush(): Promise<void>; // 진행 중이거나 대기 중인 쓰기가 모두 끝날 때까지
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TEAM_SCHEMA_VERSION = 2;
+export const LOCK_TIMEOUT_MS = 5000;
+export const LOCK_STALE_MS = 30000; // 이보다 오래된 잠금은 죽은 인스턴스가 남긴 것으로 간주
+const LOCK_RETRY_MS = 25;
+
+// ============================================================================
+// FILES & LOCKING
+// ============================================================================
+
+// 기본 위치는 워크트리 안이므로 저장 파일이 git status에 나타나지 않도록 상위에 .gitignore
+export function ensureStorageDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+    const ignorePath = path.join(path.dirname(dir), ".gitignore");
+    if (!fs.existsSync(ignorePath)) {
+      fs.writeFileSync(ignorePath, "*\n");
+    }
+  }
+}
+
+// 임시 파일에 쓴 뒤 rename: 쓰는 도중 죽어도 기존 파일이 반쯤 쓰인 상태로 남지 않음
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+// writeFileAtomic의 비동기 버전 (팀 레코드 저장용)
+async function writeFileAtomicAsync(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, content);
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+const readTextFile = (filePath: string): Promise<string | null> =>
+  fs.promises.readFile(filePath, "utf-8").catch(error => {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  });
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: 다른 사용자의 프로세스지만 살아 있음
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// 잠금 파일의 주인이 죽었거나 너무 오래 잡고 있으면 해제 가능: 해제할 잠금의 내용을 반환 (아니면 null)
+async function readStaleLock(lockPath: string): Promise<string | null> {
+  const content = await readTextFile(lockPath).catch(() => null);
+  if (content === null) return null;
+  try {
+    const lock: unknown = JSON.parse(content);
+    if (!isRecord(lock) || typeof lock.acquiredAt !== "number") throw new Error("malformed lock");
+    if (Date.now() - lock.acquiredAt > LOCK_STALE_MS) return content;
+    const dead = lock.hostname === os.hostname() && typeof lock.pid === "number" && !isProcessAlive(lock.pid);
+    return dead ? content : null;
+  } catch {
+    // 생성 직후라 아직 비어 있을 수 있으므로 파일 시각으로 판단
+    try {
+      const stat = await fs.promises.stat(lockPath);
+      return Date.now() - stat.mtimeMs > LOCK_STALE_MS ? content : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// 오래된 잠금은 {file}.lock.break를 잡은 한 인스턴스만 치움
+// (break 잠금 안에서 다시 읽어 오래됐다고 판단한 그 잠금일 때만 삭제, 그 사이 새로 잡힌 잠금은 건드리지 않음)
+async function breakStaleLock(lockPath: string): Promise<boolean> {
+  const stale = await readStaleLock(lockPath);
+  if (stale === null) return false;
+
+  const breakPath = `${lockPath}.break`;
+  try {
+    await fs.promises.writeFile(breakPath, String(process.pid), { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    // 치우던 인스턴스가 종료돼 남은 break 잠금
+    const stat = await fs.promises.stat(breakPath).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      await fs.promises.rm(breakPath, { force: true });
+    }
+    return false;
+  }
+
+  try {
+    if (await readTextFile(lockPath).catch(() => null) !== stale) return false;
+    console.warn(`[squad] Removing stale lock ${lockPath}`);
+    await fs.promises.rm(lockPath, { force: true });
+    return true;
+  } finally {
+    await fs.promises.rm(breakPath, { force: true });
+  }
+}
+
+// 여러 OpenCode 인스턴스 사이의 권고 잠금: {file}.lock을 O_EXCL로 생성
+// 기다리는 동안 이벤트 루프를 막지 않음
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => T | Promise<T>,
+  timeoutMs: number = LOCK_TIMEOUT_MS
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + timeoutMs;
+  const token = randomUUID();
+  let owner = "";
+
+  while (true) {
+    try {
+      owner = JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now(), token });
+      await fs.promises.writeFile(lockPath, owner, { flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (await breakStaleLock(lockPath)) continue;
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // 너무 오래 잡고 있어 다른 인스턴스가 가져간 잠금은 지우지 않음
+    if (await readTextFile(lockPath).catch(() => null) === owner) {
+      await fs.promises.rm(lockPath, { force: true });
+    }
+  }
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// 배열의 객체 항목만 변환 (형식이 틀린 값은 그대로 두어 검증에서 걸러짐)
+const mapRecords = (value: unknown, fn: (item: UnknownRecord) => UnknownRecord): unknown =>
+  Array.isArray(value) ? value.map(item => (isRecord(item) ? fn(item) : item)) : value ?? [];
+
+// 스키마 마이그레이션: TEAM_MIGRATIONS[v]는 v → v+1 (schemaVersion이 없는 파일은 1)
+const TEAM_MIGRATIONS: Record<number, (data: UnknownRecord) => UnknownRecord> = {
+  // 1 → 2: 누락될 수 있던 배열 기본값과 리비전 추가
+  1: data => ({
+    ...data,
+    agents: mapRecords(data.agents, agent => ({ ...agent, sessionID: agent.sessionID ?? null })),
+    tasks: mapRecords(data.tasks, task => ({
+      ...task,
+      blockedBy: task.blockedBy ?? [],
+      blocks: task.blocks ?? []
+    })),
+    messages: data.messages ?? [],
+    revision: data.revision ?? 0
+  }),
+};
+
+export function migrateTeamData(data: UnknownRecord): UnknownRecord {
+  let version = typeof data.schemaVersion === "number" ? data.schemaVersion : 1;
+  if (version > TEAM_SCHEMA_VERSION) {
+    throw new Error(`Team ${String(data.id)} uses schema version ${version}; this plugin supports up to ${TEAM_SCHEMA_VERSION}`);
+  }
+  while (version < TEAM_SCHEMA_VERSION) {
+    data = TEAM_MIGRATIONS[version](data);
+    version++;
+  }
+  return { ...data, schemaVersion: version };
+}
+
+const DateString = z.string().refine(value => !Number.isNaN(Date.parse(value)), "expected an ISO date");
+
+// 역직렬화에 필요한 필드(식별자, 상태, 날짜, 배열)만 검증하고 나머지는 그대로 통과
+const SerializedAgentSchema = z.looseObject({
+  name: z.string(),
+  sessionID: z.string().nullish().transform(id => id ?? null),
+  role: z.string(),
+  status: z.enum(["idle", "thinking", "responding", "completed", "error", "cancelled"]),
+  inboxReadAt: DateString.optional(),
+  startedAt: DateString.optional(),
+  endedAt: DateString.optional(),
+});
+
+const SerializedTaskSchema = z.looseObject({
+  id: z.string(),
+  subject: z.string(),
+  description: z.string(),
+  status: z.enum(["pending", "in_progress", "completed", "blocked", "error", "cancelled"]),
+  blockedBy: z.array(z.string()).default([]),
+  blocks: z.array(z.string()).default([]),
+  report: z.looseObject({ reportedAt: DateString }).optional(),
+  createdAt: DateString,
+  startedAt: DateString.optional(),
+  completedAt: DateString.optional(),
+});
+
+const SerializedMessageSchema = z.looseObject({
+  type: z.enum(["message", "broadcast", "shutdown_request", "shutdown_response"]),
+  teamId: z.string(),
+  sender: z.string(),
+  content: z.string(),
+  timestamp: DateString,
+});
+
+const SerializedTeamSchema = z.looseObject({
+  schemaVersion: z.number().int(),
+  revision: z.number().int().nonnegative(),
+  id: z.string(),
+  name: z.string(),
+  preset: z.string(),
+  task: z.string(),
+  createdAt: DateString,
+  shutdownAt: DateString.optional(),
+  archivedAt: DateString.optional(),
+  git: z.looseObject({ capturedAt: DateString }).optional(),
+  synthesis: z.looseObject({ createdAt: DateString }).optional(),
+  debate: z.looseObject({ createdAt: DateString }).optional(),
+  plan: z.looseObject({ createdAt: DateString, approvedAt: DateString.optional() }).optional(),
+  agents: z.array(SerializedAgentSchema),
+  tasks: z.array(SerializedTaskSchema),
+  messages: z.array(SerializedMessageSchema),
+});
+
+// 저장된 레코드 → 최신 스키마로 마이그레이션 후 검증
+export function parseTeamRecord(raw: unknown): SerializedTeam {
+  if (!isRecord(raw)) {
+    throw new Error("Team record is not an object");
+  }
+  const parsed = SerializedTeamSchema.safeParse(migrateTeamData(raw));
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Team ${String(raw.id)} is not a valid team record: ${issues}`);
+  }
+  // 검증하지 않은 중첩 필드(usage, findings, budget ...)는 플러그인이 직접 쓴 값을 신뢰
+  return parsed.data as SerializedTeam;
+}
+
+const recordId = (raw: unknown): string =>
+  isRecord(raw) && typeof raw.id === "string" ? raw.id : "record";
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+// Team → 저장용 JSON (revision은 저장소가 채움)
+export function serializeTeam(team: Team, messages: Message[]): Omit<SerializedTeam, "revision"> {
+  return {
+    schemaVersion: TEAM_SCHEMA_VERSION,
+    id: team.id,
+    name: team.name,
+    preset: team.preset,
+    task: team.task,
+    timeout: team.timeout,
+    createdAt: team.createdAt.toISOString(),
+    shutdownAt: team.shutdownAt?.toISOString(),
+    archivedAt: team.archivedAt?.toISOString(),
+    parentId: team.parentId,
+    git: team.git && { ...team.git, capturedAt: team.git.capturedAt.toISOString() },
+    budget: team.budget,
+    elapsedMs: team.elapsedMs,
+    findings: team.findings,
+    synthesis: team.synthesis && {
+      ...team.synthesis,
+      createdAt: team.synthesis.createdAt.toISOString()
+    },
+    debate: team.debate && {
+      ...team.debate,
+      createdAt: team.debate.createdAt.toISOString()
+    },
+    plan: team.plan && {
+      ...team.plan,
+      createdAt: team.plan.createdAt.toISOString(),
+      approvedAt: team.plan.approvedAt?.toISOString()
+    },
+    agents: Array.from(team.agents.entries()).map(([name, agent]) => ({
+      name,
+      sessionID: agent.sessionID,
+      role: agent.role,
+      status: agent.status,
+      result: agent.result,
+      error: agent.error,
+      inboxReadAt: agent.inboxReadAt?.toISOString(),
+      startedAt: agent.startedAt?.toISOString(),
+      endedAt: agent.endedAt?.toISOString(),
+      usage: agent.usage,
+      findings: agent.findings
+    })),
+    tasks: Array.from(team.tasks.entries()).map(([id, task]) => ({
+      id,
+      subject: task.subject,
+      description: task.description,
+      status: task.status,
+      owner: task.owner,
+      blockedBy: task.blockedBy,
+      blocks: task.blocks,
+      result: task.result,
+      resultSummary: task.resultSummary,
+      error: task.error,
+      includeUpstream: task.includeUpstream,
+      retry: task.retry,
+      attempts: task.attempts,
+      blockedReason: task.blockedReason,
+      key: task.key,
+      createdBy: task.createdBy,
+      claimable: task.claimable,
+      report: task.report && {
+        ...task.report,
+        reportedAt: task.report.reportedAt.toISOString()
+      },
+      createdAt: task.createdAt.toISOString(),
+      startedAt: task.startedAt?.toISOString(),
+      completedAt: task.completedAt?.toISOString(),
+      usage: task.usage,
+      findings: task.findings
+    })),
+    messages: messages.map(m => ({
+      ...m,
+      timestamp: m.timestamp.toISOString()
+    }))
+  };
+}
+
+// 저장된 JSON → Team (메시지 큐는 건드리지 않음)
+export function deserializeTeam(data: SerializedTeam): Team {
+  const team: Team = {
+    id: data.id,
+    name: data.name,
+    preset: data.preset,
+    task: data.task,
+    timeout: data.timeout,
+    createdAt: new Date(data.createdAt),
+    shutdownAt: data.shutdownAt ? new Date(data.shutdownAt) : undefined,
+    archivedAt: data.archivedAt ? new Date(data.archivedAt) : undefined,
+    parentId: data.parentId,
+    git: data.git ? { ...data.git, capturedAt: new Date(data.git.capturedAt) } : undefined,
+    budget: data.budget,
+    elapsedMs: data.elapsedMs,
+    findings: data.findings,
+    revision: data.revision,
+    synthesis: data.synthesis
+      ? { ...data.synthesis, createdAt: new Date(data.synthesis.createdAt) }
+      : undefined,
+    debate: data.debate
+      ? { ...data.debate, createdAt: new Date(data.debate.createdAt) }
+      : undefined,
+    plan: data.plan
+      ? {
+          ...data.plan,
+          createdAt: new Date(data.plan.createdAt),
+          approvedAt: data.plan.approvedAt ? new Date(data.plan.approvedAt) : undefined
+        }
+      : undefined,
+    agents: new Map(),
+    tasks: new Map()
+  };
+
+  for (const agent of data.agents) {
+    team.agents.set(agent.name, {
+      name: agent.name,
+      sessionID: agent.sessionID,
+      role: agent.role,
+      status: agent.status,
+      result: agent.result,
+      error: agent.error,
+      inboxReadAt: agent.inboxReadAt ? new Date(agent.inboxReadAt) : undefined,
+      startedAt: agent.startedAt ? new Date(agent.startedAt) : undefined,
+      endedAt: agent.endedAt ? new Date(agent.endedAt) : undefined,
+      usage: agent.usage,
+      findings: agent.findings
+    });
+  }
+
+  for (const task of data.tasks) {
+    team.tasks.set(task.id, {
+      id: task.id,
+      subject: task.subject,
+      description: task.description,
+      status: task.status,
+      owner: task.owner,
+      blockedBy: task.blockedBy,
+      blocks: task.blocks,
+      result: task.result,
+      resultSummary: task.resultSummary,
+      error: task.error,
+      includeUpstream: task.includeUpstream,
+      retry: task.retry,
+      attempts: task.attempts,
+      blockedReason: task.blockedReason,
+      key: task.key,
+      createdBy: task.createdBy,
+      claimable: task.claimable,
+      report: task.report
+        ? { ...task.report, reportedAt: new Date(task.report.reportedAt) }
+        : undefined,
+      createdAt: new Date(task.createdAt),
+      startedAt: task.startedAt ? new Date(task.startedAt) : undefined,
+      completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+      usage: task.usage,
+      findings: task.findings
+    });
+  }
+
+  return team;
+}
+
+export function matchesHistoryFilter(team: Team, filter: HistoryFilter): boolean {
+  if (filter.since && team.createdAt < filter.since) return false;
+  if (filter.until && team.createdAt > filter.until) return false;
+  if (filter.preset && team.preset !== filter.preset) return false;
+  if (filter.name && !team.name.toLowerCase().includes(filter.name.toLowerCase())) return false;
+  return true;
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+type TeamRecord = Omit<SerializedTeam, "revision">;
+
+// 두 인스턴스가 같은 팀을 저장했을 때의 병합 결과
+export interface TeamRecordMerge {
+  record: TeamRecord;
+  theirs: string[]; // 다른 인스턴스의 값을 받은 단위 ("field:name", "agent:name", "task:id")
+  overwritten: string[]; // 양쪽이 다르게 바꿔 이쪽 값을 남긴 단위
+  messages: SerializedMessage[]; // 다른 인스턴스가 추가한 메시지
+}
+
+const RECORD_KEYS = ["schemaVersion", "revision", "id", "agents", "tasks", "messages"];
+
+// 키 순서와 무관한 비교용 JSON (undefined 필드는 생략)
+function stableJson(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  return JSON.stringify(value, (_, item: unknown) =>
+    isRecord(item) ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]])) : item
+  );
+}
+
+// 병합 단위: 팀 필드 하나, 에이전트 하나(이름), 태스크 하나(ID)
+function recordUnits(record: TeamRecord): Map<string, unknown> {
+  const units = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(record)) {
+    if (!RECORD_KEYS.includes(key) && value !== undefined) units.set(`field:${key}`, value);
+  }
+  for (const agent of record.agents) units.set(`agent:${agent.name}`, agent);
+  for (const task of record.tasks) units.set(`task:${task.id}`, task);
+  return units;
+}
+
+// 마지막으로 읽거나 쓴 기록(base) 기준 3-way 병합: 이쪽이 바꾼 단위는 이쪽 값, 다른 인스턴스만 바꾼 단위는 그쪽 값
+// 메시지는 합집합 (다른 인스턴스가 추가한 메시지를 뒤에 붙임)
+export function mergeTeamRecords(base: TeamRecord | undefined, ours: TeamRecord, theirs: TeamRecord): TeamRecordMerge {
+  const [baseUnits, ourUnits, theirUnits] = [base, ours, theirs].map(record => record ? recordUnits(record) : new Map<string, unknown>());
+  const merged = new Map<string, unknown>();
+  const taken: string[] = [];
+  const overwritten: string[] = [];
+
+  for (const key of new Set([...ourUnits.keys(), ...theirUnits.keys(), ...baseUnits.keys()])) {
+    const before = stableJson(baseUnits.get(key));
+    const mine = stableJson(ourUnits.get(key));
+    const other = stableJson(theirUnits.get(key));
+    if (mine === before && other !== before) {
+      taken.push(key);
+      if (theirUnits.has(key)) merged.set(key, theirUnits.get(key));
+    } else {
+      if (mine !== before && other !== before && mine !== other) overwritten.push(key);
+      if (ourUnits.has(key)) merged.set(key, ourUnits.get(key));
+    }
+  }
+
+  const known = new Set([...(base?.messages ?? []), ...ours.messages].map(message => stableJson(message)));
+  const messages = theirs.messages.filter(message => !known.has(stableJson(message)));
+  const unitsOf = (prefix: string) =>
+    Array.from(merged).filter(([key]) => key.startsWith(prefix)).map(([key, value]) => [key.slice(prefix.length), value] as const);
+
+  const record = {
+    ...Object.fromEntries(unitsOf("field:")),
+    schemaVersion: TEAM_SCHEMA_VERSION,
+    id: ours.id,
+    agents: unitsOf("agent:").map(([, agent]) => agent as SerializedAgent),
+    tasks: unitsOf("task:").map(([, task]) => task as SerializedTask),
+    messages: [...ours.messages, ...messages],
+  } as TeamRecord;
+  return { record, theirs: taken, overwritten, messages };
+}
+
+// Map 항목을 교체하지 않고 내용만 바꿈 (실행 중인 코드가 잡고 있는 Agent/Task 객체를 그대로 씀)
+function syncEntry<T extends object>(target: Map<string, T>, source: Map<string, T>, key: string): void {
+  const next = source.get(key);
+  const existing = target.get(key);
+  if (!next) {
+    target.delete(key);
+  } else if (!existing) {
+    target.set(key, next);
+  } else {
+    for (const field of Object.keys(existing)) {
+      if (!(field in next)) delete (existing as Record<string, unknown>)[field];
+    }
+    Object.assign(existing, next);
+  }
+}
+
+// ============================================================================
+// TEAM STORE
+// ============================================================================
+
+// 활성 팀은 메모리에 두고 (실행 중 직접 변경), 저장/조회는 백엔드에 위임
+export function createTeamStore(backend: StorageBackend, records: TeamRecords, messages: MessageLog): TeamStore {
+  const active = new Map<string, Team>();
+  const unsaved = new Map<string, Team>(); // save 후 아직 기록되지 않은 팀 (읽을 때 저장소보다 우선)
+  const queued = new Set<string>(); // 진행 중인 쓰기가 끝나면 다시 써야 하는 팀
+  const writing = new Map<string, Promise<void>>();
+  const bases = new WeakMap<Team, TeamRecord>(); // 팀 객체별로 마지막에 읽거나 쓴 기록 (병합 기준)
+
+  // 저장된 메시지를 큐에 복원 (이미 메모리에 큐가 있으면 중복 적재하지 않음)
+  const restoreMessages = (team: Team, data: SerializedTeam): void => {
+    if (messages.list(team.id).length > 0) return;
+    for (const message of data.messages) {
+      messages.add({ ...message, teamId: team.id, timestamp: new Date(message.timestamp) });
+    }
+  };
+
+  const snapshot = (team: Team): SerializedTeam =>
+    ({ ...serializeTeam(team, messages.list(team.id)), revision: team.revision ?? 0 });
+
+  const load = (teamId: string): SerializedTeam | null => {
+    const pending = unsaved.get(teamId);
+    if (pending) return snapshot(pending);
+    try {
+      const raw = records.read(teamId);
+      return raw ? parseTeamRecord(raw) : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`[squad] Failed to load team ${teamId}: ${errorMessage}`);
+      return null;
+    }
+  };
+
+  const read = (teamId: string): Team | null => {
+    const data = load(teamId);
+    if (!data) return null;
+    const team = deserializeTeam(data);
+    bases.set(team, data);
+    return team;
+  };
+
+  const activate = (teamId: string): Team | null => {
+    // 아직 기록 중인 팀은 같은 객체를 되살림 (새 사본은 리비전이 뒤처져 다음 저장이 거부됨)
+    const pending = unsaved.get(teamId);
+    const data = pending ? null : load(teamId);
+    if (!pending && !data) return null;
+    const team = pending ?? deserializeTeam(data!);
+    team.shutdownAt = undefined;
+    team.archivedAt = undefined;
+    if (data) {
+      bases.set(team, data);
+      restoreMessages(team, data);
+    }
+    active.set(team.id, team);
+    return team;
+  };
+
+  // 병합 결과 중 다른 인스턴스에서 온 단위를 실행 중인 팀 객체에 반영
+  // (쓰는 동안 이쪽에서 또 바뀐 단위는 건드리지 않음: 다음 저장에서 이쪽 변경으로 기록됨)
+  const applyMerge = (team: Team, written: TeamRecord, merge: TeamRecordMerge): void => {
+    const current = recordUnits(serializeTeam(team, messages.list(team.id)));
+    const before = recordUnits(written);
+    const merged = deserializeTeam({ ...merge.record, revision: team.revision ?? 0 });
+    const target = team as unknown as Record<string, unknown>;
+    const source = merged as unknown as Record<string, unknown>;
+    for (const key of merge.theirs) {
+      if (stableJson(current.get(key)) !== stableJson(before.get(key))) continue;
+      const separator = key.indexOf(":");
+      const kind = key.slice(0, separator);
+      const name = key.slice(separator + 1);
+      if (kind === "agent") {
+        syncEntry(team.agents, merged.agents, name);
+      } else if (kind === "task") {
+        syncEntry(team.tasks, merged.tasks, name);
+      } else if (source[name] === undefined) {
+        delete target[name];
+      } else {
+        target[name] = source[name];
+      }
+    }
+    for (const message of merge.messages) {
+      messages.add({ ...message, teamId: team.id, timestamp: new Date(message.timestamp) });
+    }
+    if (merge.overwritten.length > 0) {
+      console.warn(`[squad] Team ${team.id} was also changed by another OpenCode instance; merged, keeping this instance's ${merge.overwritten.join(", ")}`);
+    }
+  };
+
+  // 다른 인스턴스가 먼저 저장했으면 덮어쓰지 않고 병합한 기록을 씀
+  const write = async (team: Team): Promise<void> => {
+    try {
+      const serialized = serializeTeam(team, messages.list(team.id));
+      let revision: number | null = null;
+      let merge = null as TeamRecordMerge | null;
+      await records.update(team.id, current => {
+        const stored = isRecord(current) ? current : null;
+        const storedVersion = typeof stored?.schemaVersion === "number" ? stored.schemaVersion : 1;
+        if (stored && storedVersion > TEAM_SCHEMA_VERSION) {
+          throw new Error(`Team ${team.id} was written by a newer plugin version (schema ${storedVersion})`);
+        }
+        const storedRevision = typeof stored?.revision === "number" ? stored.revision : 0;
+        revision = storedRevision + 1;
+        if (storedRevision > (team.revision ?? 0)) {
+          merge = mergeTeamRecords(bases.get(team), serialized, parseTeamRecord(current));
+          return { ...merge.record, revision };
+        }
+        return { ...serialized, revision };
+      });
+      if (revision === null) return;
+      team.revision = revision;
+      bases.set(team, merge?.record ?? serialized);
+      if (merge) applyMerge(team, serialized, merge);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`[squad] Failed to save team: ${errorMessage}`);
+    }
+  };
+
+  const drain = async (teamId: string): Promise<void> => {
+    try {
+      while (queued.delete(teamId)) {
+        const team = unsaved.get(teamId);
+        if (!team) break;
+        await write(team);
+        if (!queued.has(teamId) && unsaved.get(teamId) === team) unsaved.delete(teamId);
+      }
+    } finally {
+      writing.delete(teamId);
+    }
+  };
+
+  const save = (team: Team): void => {
+    unsaved.set(team.id, team);
+    queued.add(team.id);
+    if (!writing.has(team.id)) {
+      writing.set(team.id, drain(team.id));
+    }
+  };
+
+  // 리포트용: 종료된 팀까지 포함한 저장 기록 (아직 기록 중이거나 활성인 팀이 더 최신이면 우선)
+  const history = (filter: HistoryFilter = {}): Team[] => {
+    const byId = new Map<string, Team>();
+    for (const raw of records.readAll(filter)) {
+      try {
+        const team = deserializeTeam(parseTeamRecord(raw));
+        byId.set(team.id, team);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[squad] Skipping unreadable team ${recordId(raw)}: ${errorMessage}`);
+      }
+    }
+    for (const team of unsaved.values()) byId.set(team.id, deserializeTeam(snapshot(team)));
+    for (const team of active.values()) byId.set(team.id, team);
+    return Array.from(byId.values()).filter(team => matchesHistoryFilter(team, filter));
+  };
+
+  // 시작 시 종료되지 않은 팀을 활성 목록으로 복원
+  const restore = (): number => {
+    let loaded = 0;
+    for (const raw of records.readAll()) {
+      try {
+        const data = parseTeamRecord(raw);
+        if (data.shutdownAt || data.archivedAt || active.has(data.id)) continue;
+        const team = deserializeTeam(data);
+        bases.set(team, data);
+        restoreMessages(team, data);
+        active.set(team.id, team);
+        loaded++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[squad] Failed to load team ${recordId(raw)}: ${errorMessage}`);
+      }
+    }
+    return loaded;
+  };
+
+  const flush = async (): Promise<void> => {
+    while (writing.size > 0) {
+      await Promise.all(writing.values());
+    }
+  };
+
+  return {
+    backend,
+    location: records.location,
+    get: teamId => active.get(teamId),
+    list: () => Array.from(active.values()),
+    add: team => {
+      active.set(team.id, team);
+    },
+    save,
+    release: teamId => {
+      active.delete(teamId);
+    },
+    read,
+    activate,
+    history,
+    restore,
+    flush
+  };
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+// 팀마다 {dir}/{teamId}.json; 쓰기는 파일 잠금 + 원자적 교체
+export function createFileRecords(dir: string): TeamRecords {
+  const filePath = (teamId: string): string => path.join(dir, `${teamId}.json`);
+  const readFile = (file: string): unknown => JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  return {
+    location: dir,
+    read: teamId => (fs.existsSync(filePath(teamId)) ? readFile(filePath(teamId)) : null),
+    readAll: () => {
+      if (!fs.existsSync(dir)) return [];
+      const all: unknown[] = [];
+      for (const file of fs.readdirSync(dir).filter(f => f.endsWith(".json"))) {
+        try {
+          all.push(readFile(path.join(dir, file)));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.warn(`[squad] Skipping unreadable team file ${file}: ${errorMessage}`);
+        }
+      }
+      return all;
+    },
+    update: async (teamId, fn) => {
+      ensureStorageDir(dir);
+      const file = filePath(teamId);
+      await withFileLock(file, async () => {
+        const content = await readTextFile(file);
+        const next = fn(content === null ? null : JSON.parse(content));
+        if (next) await writeFileAtomicAsync(file, JSON.stringify(next, null, 2));
+      });
+    }
+  };
+}
+
+// 한 파일에 모든 팀: 조회용 컬럼 + 전체 JSON, 인스턴스 간 동시성은 SQLite 잠금에 맡김
+// 잠금을 기다리는 동안 이벤트 루프를 막지 않도록 busy_timeout 대신 SQLITE_BUSY를 비동기로 재시도
+export function createSqliteRecords(dbPath: string): TeamRecords {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`CREATE TABLE IF NOT EXISTS teams (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    preset TEXT NOT NULL,
+    task TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    shutdown_at TEXT,
+    schema_version INTEGER NOT NULL,
+    revision INTEGER NOT NULL,
+    data TEXT NOT NULL
+  )`);
+  db.exec("CREATE INDEX IF NOT EXISTS teams_created_at ON teams (created_at)");
+
+  const selectOne = db.query<{ data: string }, [string]>("SELECT data FROM teams WHERE id = ?");
+  const upsert = db.query(`INSERT INTO teams (id, name, preset, task, created_at, shutdown_at, schema_version, revision, data)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET name = excluded.name, preset = excluded.preset, task = excluded.task,
+      created_at = excluded.created_at, shutdown_at = excluded.shutdown_at,
+      schema_version = excluded.schema_version, revision = excluded.revision, data = excluded.data`);
+
+  // BEGIN IMMEDIATE: 다른 인스턴스의 쓰기가 읽기와 쓰기 사이에 끼어들지 않도록
+  const update = db.transaction((teamId: string, fn: (current: unknown) => SerializedTeam | null) => {
+    const row = selectOne.get(teamId);
+    const next = fn(row ? JSON.parse(row.data) : null);
+    if (!next) return;
+    upsert.run(
+      teamId, next.name, next.preset, next.task, next.createdAt, next.shutdownAt ?? null,
+      next.schemaVersion, next.revision, JSON.stringify(next)
+    );
+  });
+
+  return {
+    location: dbPath,
+    read: teamId => {
+      const row = selectOne.get(teamId);
+      return row ? JSON.parse(row.data) : null;
+    },
+    readAll: (filter = {}) => {
+      const where: string[] = [];
+      const params: string[] = [];
+      if (filter.since) { where.push("created_at >= ?"); params.push(filter.since.toISOString()); }
+      if (filter.until) { where.push("created_at <= ?"); params.push(filter.until.toISOString()); }
+      if (filter.preset) { where.push("preset = ?"); params.push(filter.preset); }
+      if (filter.name) { where.push("instr(lower(name), lower(?)) > 0"); params.push(filter.name); }
+      const sql = `SELECT data FROM teams${where.length > 0 ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY created_at`;
+      return db.query<{ data: string }, string[]>(sql).all(...params).map((row): unknown => JSON.parse(row.data));
+    },
+    update: async (teamId, fn) => {
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+      while (true) {
+        try {
+          update.immediate(teamId, fn);
+          return;
+        } catch (error) {
+          const busy = (error as { code?: string }).code === "SQLITE_BUSY";
+          if (!busy || Date.now() >= deadline) throw error;
+          await sleep(LOCK_RETRY_MS);
+        }
+      }
+    }
+  };
+}
+
+// 프로세스 메모리에만 보관 (테스트용); JSON 문자열로 저장해 다른 백엔드와 같은 복사 시맨틱 유지
+export function createMemoryRecords(): TeamRecords {
+  const records = new Map<string, string>();
+  return {
+    location: "memory",
+    read: teamId => {
+      const record = records.get(teamId);
+      return record ? JSON.parse(record) : null;
+    },
+    readAll: () => Array.from(records.values(), (record): unknown => JSON.parse(record)),
+    update: async (teamId, fn) => {
+      const record = records.get(teamId);
+      const next = fn(record ? JSON.parse(record) : null);
+      if (next) records.set(teamId, JSON.stringify(next));
+    }
+  };
+}
@@ -0,0 +1,149 @@
+import type { RetryOn, RetryPolicy, Task, Team } from "./index";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_RETRY_BACKOFF_SECONDS = 5;
+export const MAX_RETRY_ATTEMPTS = 5;
+
+// ============================================================================
+// TASK MANAGEMENT
+// ============================================================================
+
+// 팀에 추가하지 않은 새 태스크 (importPlan이 검증을 마친 뒤에 한꺼번에 추가)
+export function newTask(subject: string, description: string, owner?: string, blockedBy: string[] = [], blocks: string[] = []): Task {
+  return {
+    id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    subject,
+    description,
+    status: "pending",
+    owner,
+    blockedBy,
+    blocks,
+    createdAt: new Date()
+  };
+}
+
+export function canExecuteTask(team: Team, task: Task): boolean {
+  return task.blockedBy.every(depId => {
+    const depTask = team.tasks.get(depId);
+    return depTask?.status === "completed";
+  });
+}
+
+export function getExecutableTasks(team: Team): Task[] {
+  return Array.from(team.tasks.values())
+    .filter(t => t.status === "pending" && canExecuteTask(team, t));
+}
+
+// 순환 의존성 감지
+export function detectCyclicDependency(team: Pick<Team, "tasks">, taskId: string, visited: Set<string> = new Set()): boolean {
+  if (visited.has(taskId)) return true;
+  visited.add(taskId);
+
+  const task = team.tasks.get(taskId);
+  if (!task) return false;
+
+  for (const depId of task.blockedBy) {
+    if (detectCyclicDependency(team, depId, visited)) {
+      return true;
+    }
+  }
+
+  visited.delete(taskId);
+  return false;
+}
+
+// 모든 순환 의존성 감지
+export function findCyclicDependencies(team: Pick<Team, "tasks">): string[] {
+  const cyclic: string[] = [];
+  for (const [id] of team.tasks) {
+    if (detectCyclicDependency(team, id)) {
+      cyclic.push(id);
+    }
+  }
+  return cyclic;
+}
+
+// blockedBy 또는 blocks로 연결된 직접 후속 태스크
+function getDependents(team: Team, taskId: string): Task[] {
+  const task = team.tasks.get(taskId);
+  return Array.from(team.tasks.values()).filter(
+    t => t.blockedBy.includes(taskId) || Boolean(task?.blocks.includes(t.id))
+  );
+}
+
+// 실패한 태스크의 모든 후속 태스크(전이적)를 blocked로 표시
+export function blockDependents(team: Team, failed: Task): Task[] {
+  const blocked: Task[] = [];
+  const queue = [failed.id];
+  const seen = new Set<string>(queue);
+
+  while (queue.length > 0) {
+    for (const dependent of getDependents(team, queue.shift()!)) {
+      if (seen.has(dependent.id)) continue;
+      seen.add(dependent.id);
+      queue.push(dependent.id);
+
+      if (dependent.status === "pending" || dependent.status === "blocked") {
+        dependent.status = "blocked";
+        dependent.blockedReason = `Upstream task failed: ${failed.subject} (${failed.id})`;
+        blocked.push(dependent);
+      }
+    }
+  }
+
+  return blocked;
+}
+
+// 실패한 태스크와 그 하위 그래프를 pending으로 되돌림 (완료된 태스크는 유지)
+export function resetSubtree(team: Team, root: Task): Task[] {
+  const reset: Task[] = [];
+  const queue = [root.id];
+  const seen = new Set<string>(queue);
+
+  while (queue.length > 0) {
+    const task = team.tasks.get(queue.shift()!);
+    if (!task) continue;
+
+    if (task.status !== "completed" && task.status !== "in_progress") {
+      task.status = "pending";
+      task.error = undefined;
+      task.blockedReason = undefined;
+      task.attempts = 0;
+      reset.push(task);
+    }
+
+    for (const dependent of getDependents(team, task.id)) {
+      if (!seen.has(dependent.id)) {
+        seen.add(dependent.id);
+        queue.push(dependent.id);
+      }
+    }
+  }
+
+  return reset;
+}
+
+export function buildRetryPolicy(
+  maxAttempts: number | undefined,
+  backoffSeconds: number | undefined,
+  retryOn: RetryOn | undefined
+): RetryPolicy | undefined {
+  if (maxAttempts === undefined || maxAttempts <= 1) return undefined;
+  return {
+    maxAttempts: Math.min(Math.floor(maxAttempts), MAX_RETRY_ATTEMPTS),
+    backoffMs: Math.max(0, backoffSeconds ?? DEFAULT_RETRY_BACKOFF_SECONDS) * 1000,
+    retryOn: retryOn ?? "any",
+  };
+}
+
+const isTimeoutError = (error: string | undefined): boolean =>
+  /timeout/i.test(error ?? "");
+
+export function shouldRetry(task: Task, error: string | undefined): boolean {
+  const policy = task.retry;
+  if (!policy || (task.attempts ?? 0) >= policy.maxAttempts) return false;
+  return policy.retryOn === "any" || isTimeoutError(error);
+}
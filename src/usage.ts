@@ -0,0 +1,113 @@
+import type { Budget, Team, Usage, UsageSummary } from "./index";
+
+// 예산 한도와 비교하는 사용량 (실행 중인 세션 포함)
+export interface BudgetUsage {
+  tokens: number;
+  cost: number;
+  wallClockMs: number;
+}
+
+// ============================================================================
+// USAGE ACCOUNTING
+// ============================================================================
+
+export const emptyUsage = (): Usage => ({
+  input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, cost: 0, durationMs: 0,
+});
+
+export function addUsage(total: Usage | undefined, delta: Usage | undefined): Usage {
+  const sum = { ...emptyUsage(), ...total };
+  if (!delta) return sum;
+  for (const key of Object.keys(sum) as Array<keyof Usage>) {
+    sum[key] += delta[key] ?? 0;
+  }
+  return sum;
+}
+
+// 캐시 토큰은 별도 표시 (과금 단위가 다름)
+export const totalTokens = (usage: Usage): number => usage.input + usage.output + usage.reasoning;
+
+export function teamUsage(team: Team): Usage {
+  let usage = emptyUsage();
+  for (const agent of team.agents.values()) usage = addUsage(usage, agent.usage);
+  usage = addUsage(usage, team.plan?.usage);
+  usage = addUsage(usage, team.debate?.usage);
+  return addUsage(usage, team.synthesis?.usage);
+}
+
+// 첫 에이전트 시작부터 마지막 에이전트 종료까지 (실행 중이면 현재까지)
+export function teamWallClockMs(team: Team): number {
+  const agents = Array.from(team.agents.values()).filter(a => a.startedAt);
+  if (agents.length === 0) return 0;
+  const start = Math.min(...agents.map(a => a.startedAt!.getTime()));
+  const running = agents.some(a => a.status === "thinking" || a.status === "responding");
+  const end = running ? Date.now() : Math.max(...agents.map(a => (a.endedAt ?? a.startedAt!).getTime()));
+  return end - start;
+}
+
+export function summarizeUsage(
+  entries: Array<{ key: string; usage: Usage; wallClockMs: number; error: boolean }>
+): Map<string, UsageSummary> {
+  const summaries = new Map<string, UsageSummary>();
+  for (const entry of entries) {
+    const summary = summaries.get(entry.key) ?? { runs: 0, usage: emptyUsage(), wallClockMs: 0, errors: 0 };
+    summary.runs++;
+    summary.usage = addUsage(summary.usage, entry.usage);
+    summary.wallClockMs += entry.wallClockMs;
+    if (entry.error) summary.errors++;
+    summaries.set(entry.key, summary);
+  }
+  return summaries;
+}
+
+// 주 단위 집계 키 (월요일 날짜, UTC)
+export function weekStart(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+export const formatTokenCount = (n: number): string =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(4)}`;
+
+export const formatDuration = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+export function formatUsage(usage: Usage): string {
+  return `${formatTokenCount(totalTokens(usage))} tokens `
+    + `(in ${formatTokenCount(usage.input)} / out ${formatTokenCount(usage.output)}), `
+    + `${formatCost(usage.cost)}, ${formatDuration(usage.durationMs)}`;
+}
+
+// ============================================================================
+// BUDGET
+// ============================================================================
+
+export function buildBudget(maxTokens?: number, maxCost?: number, maxWallClock?: number, base?: Budget): Budget | undefined {
+  const budget: Budget = {
+    maxTokens: maxTokens ?? base?.maxTokens,
+    maxCost: maxCost ?? base?.maxCost,
+    maxWallClockSeconds: maxWallClock ?? base?.maxWallClockSeconds,
+  };
+  // 0 이하는 해당 한도 해제
+  for (const key of Object.keys(budget) as Array<keyof Budget>) {
+    if (budget[key] === undefined || budget[key]! <= 0) delete budget[key];
+  }
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}
+
+// 한도의 ratio 이상 사용한 첫 항목 설명 (없으면 null)
+export function budgetExceededBy(budget: Budget | undefined, used: BudgetUsage, ratio: number = 1): string | null {
+  if (!budget) return null;
+  if (budget.maxTokens !== undefined && used.tokens >= budget.maxTokens * ratio) {
+    return `tokens ${formatTokenCount(used.tokens)} / ${formatTokenCount(budget.maxTokens)}`;
+  }
+  if (budget.maxCost !== undefined && used.cost >= budget.maxCost * ratio) {
+    return `cost ${formatCost(used.cost)} / ${formatCost(budget.maxCost)}`;
+  }
+  if (budget.maxWallClockSeconds !== undefined && used.wallClockMs >= budget.maxWallClockSeconds * 1000 * ratio) {
+    return `wall-clock ${formatDuration(used.wallClockMs)} / ${budget.maxWallClockSeconds}s`;
+  }
+  return null;
+}
@@ -0,0 +1,31 @@
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_CONTEXT_LENGTH = 500;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+export const truncateText = (text: string, maxLength: number): string =>
+  text.length > maxLength ? text.slice(0, maxLength) + "..." : text;
+
+export const extractRoleFromDescription = (description: string | undefined, fallback: string): string =>
+  description?.split(".")[0] ?? fallback;
+
+// 취소 시 즉시 깨어나는 sleep
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
@@ -4,6 +4,11 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFileSync } from "child_process";
+import plugin from "../src/index";
 
 // ============================================================================
 // MOCK TYPES
@@ -119,6 +124,197 @@ class MockOpencodeClient implements MockClient {
   };
 }
 
+// ============================================================================
+// PLUGIN HARNESS
+// ============================================================================
+
+// 실제 플러그인(src/index.ts)을 구동하는 가짜 OpenCode 클라이언트.
+// promptAsync 직후 응답을 만들고, 응답이 끝나면 session.idle 이벤트를 보냄
+interface FakeSession {
+  id: string;
+  agent?: string;
+  prompt: string;
+  reply?: string;
+  busy: boolean;
+}
+
+type FakeReply = (session: FakeSession) => string | Promise<string>;
+
+class FakeOpencodeClient {
+  sessions: Map<string, FakeSession> = new Map();
+  sessionCounter = 0;
+  running: Map<string, number> = new Map(); // 에이전트별 동시에 응답 중인 세션 수
+  maxRunning: Map<string, number> = new Map();
+  peak = 0; // 전체 동시 응답 세션 수의 최댓값
+  events: string[] = []; // "start:{agent}" / "end:{agent}"
+  onEvent: (event: unknown) => Promise<void> = async () => {};
+
+  constructor(private reply: FakeReply = session => `Done by ${session.agent ?? "lead"}`) {}
+
+  session = {
+    create: async () => {
+      const id = `fake-session-${++this.sessionCounter}`;
+      this.sessions.set(id, { id, prompt: "", busy: false });
+      return { data: { id } };
+    },
+
+    promptAsync: async (opts: any) => {
+      const session = this.sessions.get(opts.path.id)!;
+      session.agent = opts.body.agent;
+      session.prompt = opts.body.parts.map((p: { text: string }) => p.text).join("\n");
+      session.busy = true;
+      const agent = session.agent ?? "lead";
+      const running = (this.running.get(agent) ?? 0) + 1;
+      this.running.set(agent, running);
+      this.maxRunning.set(agent, Math.max(running, this.maxRunning.get(agent) ?? 0));
+      this.peak = Math.max(this.peak, Array.from(this.sessions.values()).filter(s => s.busy).length);
+      this.events.push(`start:${agent}`);
+
+      setTimeout(async () => {
+        session.reply = await this.reply(session);
+        session.busy = false;
+        this.running.set(agent, (this.running.get(agent) ?? 1) - 1);
+        this.events.push(`end:${agent}`);
+        await this.onEvent({ type: "session.idle", properties: { sessionID: session.id } });
+      }, 5);
+    },
+
+    messages: async (opts: any) => {
+      const session = this.sessions.get(opts.path.id);
+      if (!session) return { data: [] };
+      const user = { info: { role: "user" }, parts: [{ type: "text", text: session.prompt }] };
+      if (session.reply === undefined) return { data: [user] };
+      const assistant = {
+        info: {
+          role: "assistant",
+          time: { created: Date.now(), completed: Date.now() },
+          finish: "stop",
+          tokens: { input: 10, output: 5, reasoning: 0, cache: { read: 0, write: 0 } },
+          cost: 0
+        },
+        parts: [{ type: "text", text: session.reply }]
+      };
+      return { data: [user, assistant] };
+    },
+
+    status: async () => ({
+      data: Object.fromEntries(
+        Array.from(this.sessions.values()).map(s => [s.id, { type: s.busy ? "busy" : "idle" }])
+      )
+    }),
+
+    get: async (opts: any) => ({ data: this.sessions.get(opts.path.id) }),
+
+    abort: async (opts: any) => {
+      const session = this.sessions.get(opts.path.id);
+      if (session) session.busy = false;
+    },
+
+    delete: async (opts: any) => {
+      this.sessions.delete(opts.path.id);
+    }
+  };
+
+  tui = {
+    showToast: async () => {}
+  };
+}
+
+type PluginHooks = Awaited<ReturnType<typeof plugin>>;
+
+let startedHooks: PluginHooks | null = null;
+
+// 플러그인 초기화 = OpenCode 시작 (저장소 구성 + 저장된 팀 복원)
+async function startPlugin(worktree: string, client: FakeOpencodeClient = new FakeOpencodeClient()): Promise<PluginHooks> {
+  const hooks = await plugin({ client, worktree, directory: worktree } as any);
+  client.onEvent = event => hooks.event!({ event } as any);
+  startedHooks = hooks;
+  return hooks;
+}
+
+// 비동기로 쓰는 팀 저장을 모두 마침 (OpenCode 종료 이벤트와 같은 경로)
+async function flushSaves(worktree: string): Promise<void> {
+  await startedHooks?.event!({ event: { type: "server.instance.disposed", properties: { directory: worktree } } } as any);
+}
+
+// 저장된 팀 파일 내용
+async function storedTeamFile(worktree: string, teamId: string): Promise<string> {
+  await flushSaves(worktree);
+  return fs.readFileSync(path.join(worktree, ".opencode", "squad", "teams", `${teamId}.json`), "utf-8");
+}
+
+// OpenCode 종료와 같음: 비동기로 쓰는 팀 저장을 마친 뒤 임시 워크트리 삭제
+async function removeWorktree(worktree: string): Promise<void> {
+  await flushSaves(worktree);
+  startedHooks = null;
+  fs.rmSync(worktree, { recursive: true, force: true });
+}
+
+// sessionID를 주면 팀 에이전트 세션이 호출한 도구 (task-handoff, task-claim ...)
+async function runTool(
+  hooks: PluginHooks,
+  name: string,
+  args: Record<string, unknown>,
+  directory: string,
+  sessionID: string = "lead-session"
+): Promise<string> {
+  const context = {
+    sessionID,
+    messageID: "lead-message",
+    agent: "build",
+    directory,
+    worktree: directory,
+    abort: new AbortController().signal,
+    metadata: () => {},
+    ask: async () => {}
+  };
+  return (await hooks.tool![name].execute(args as any, context)) as string;
+}
+
+const teamIdOf = (output: string): string => output.match(/\*\*Team ID\*\*: (\S+)/)![1];
+const taskIdOf = (output: string): string => output.match(/\*\*Task ID\*\*: (\S+)/)![1];
+
+// task-list 출력에서 태스크 상태
+const taskStatusIn = (list: string, subject: string): string | undefined =>
+  list.match(new RegExp(`\\*\\*${subject}\\*\\* \\([^)]+\\)\\n\\s+- Status: (\\w+)`))?.[1];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 쉼표로 구분한 에이전트로 팀 생성
+async function spawnCustomTeam(hooks: PluginHooks, worktree: string, agents: string): Promise<string> {
+  return teamIdOf(await runTool(hooks, "team-spawn", { preset: agents, teamName: "Scheduler", task: "Build it" }, worktree));
+}
+
+// 설명은 "Do {subject}" (가짜 응답이 태스크를 구분하는 데 사용)
+async function createTaskIn(
+  hooks: PluginHooks,
+  worktree: string,
+  teamId: string,
+  subject: string,
+  owner?: string,
+  blockedBy?: string,
+  extra: Record<string, unknown> = {}
+): Promise<string> {
+  const args = { teamId, subject, description: `Do ${subject}`, owner, blockedBy, ...extra };
+  return taskIdOf(await runTool(hooks, "task-create", args, worktree));
+}
+
+// 다른 OpenCode 인스턴스(또는 이전 실행)가 남긴 팀 파일
+function writeTeamFile(worktree: string, team: Record<string, unknown>): void {
+  const dir = path.join(worktree, ".opencode", "squad", "teams");
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${team.id}.json`), JSON.stringify({
+    schemaVersion: 2,
+    revision: 1,
+    preset: "debug",
+    task: "Find the crash",
+    createdAt: new Date().toISOString(),
+    tasks: [],
+    messages: [],
+    ...team
+  }));
+}
+
 // ============================================================================
 // INTEGRATION TEST UTILITIES
 // ============================================================================
@@ -782,6 +978,770 @@ describe("Integration Tests: Persistence", () => {
     expect(team.tasks.size).toBe(1);
     expect(team.tasks.get("task-1")?.subject).toBe("Review code");
   });
+
+  it("should rehydrate persisted teams except shut-down ones", async () => {
+    const worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-restore-"));
+    try {
+      const client = new FakeOpencodeClient();
+      client.sessions.set("ses-1", { id: "ses-1", prompt: "Find the crash", reply: "Null check missing", busy: false });
+      writeTeamFile(worktree, {
+        id: "team-live",
+        name: "Live Team",
+        agents: [{ name: "debugger", sessionID: "ses-1", role: "Debugger", status: "responding" }]
+      });
+      writeTeamFile(worktree, {
+        id: "team-closed",
+        name: "Closed Team",
+        shutdownAt: "2024-01-02T00:00:00Z",
+        agents: []
+      });
+
+      const hooks = await startPlugin(worktree, client);
+
+      const active = await runTool(hooks, "team-status", {}, worktree);
+      expect(active).toContain("team-live");
+      expect(active).not.toContain("team-closed");
+
+      // 보존된 세션 ID로 재연결 (재실행이면 새 세션이 생김)
+      const resumed = await runTool(hooks, "team-resume", { teamId: "team-live" }, worktree);
+      expect(resumed).toContain("**debugger** (reattached)");
+      expect(client.sessionCounter).toBe(0);
+    } finally {
+      await removeWorktree(worktree);
+    }
+  });
+
+  it("should not archive a team while it has a run in progress", async () => {
+    const worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-archive-"));
+    try {
+      let finish = () => {};
+      const gate = new Promise<void>(resolve => { finish = resolve; });
+      const client = new FakeOpencodeClient(async () => { await gate; return "Done"; });
+      for (let i = 0; i < 50; i++) {
+        const id = `team-${String(i).padStart(2, "0")}`;
+        writeTeamFile(worktree, {
+          id,
+          name: `Team ${i}`,
+          createdAt: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString(),
+          agents: i === 0 ? [{ name: "debugger", role: "Debugger", status: "idle" }] : []
+        });
+      }
+      const hooks = await startPlugin(worktree, client);
+
+      const run = runTool(hooks, "team-execute", { teamId: "team-00" }, worktree);
+      await delay(20);
+      await runTool(hooks, "team-spawn", { preset: "debugger", teamName: "Newest", task: "Fix it" }, worktree);
+
+      // 가장 오래된 team-00은 실행 중이므로 다음으로 오래된 team-01이 보관됨
+      const active = await runTool(hooks, "team-status", {}, worktree);
+      expect(active).toContain("team-00");
+      expect(active).not.toContain("team-01");
+
+      finish();
+      await run;
+    } finally {
+      await removeWorktree(worktree);
+    }
+  });
+});
+
+describe("Integration Tests: Task Scheduling", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-schedule-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  const spawnTeam = (hooks: PluginHooks, agents: string) => spawnCustomTeam(hooks, worktree, agents);
+  const createTask = (hooks: PluginHooks, teamId: string, subject: string, owner?: string, blockedBy?: string) =>
+    createTaskIn(hooks, worktree, teamId, subject, owner, blockedBy);
+
+  it("should run independent tasks of different agents concurrently", async () => {
+    const client = new FakeOpencodeClient(async session => {
+      await delay(20);
+      return `Done by ${session.agent}`;
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnTeam(hooks, "backend,frontend,tester");
+    await createTask(hooks, teamId, "api", "backend");
+    await createTask(hooks, teamId, "ui", "frontend");
+    await createTask(hooks, teamId, "tests", "tester");
+
+    const output = await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(output).toContain("**Completed**: 3");
+    expect(client.peak).toBe(3);
+  });
+
+  it("should respect max concurrency", async () => {
+    const client = new FakeOpencodeClient(async session => {
+      await delay(20);
+      return `Done by ${session.agent}`;
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnTeam(hooks, "x,y,z");
+    await createTask(hooks, teamId, "a", "x");
+    await createTask(hooks, teamId, "b", "y");
+    await createTask(hooks, teamId, "c", "z");
+
+    await runTool(hooks, "task-execute", { teamId, maxConcurrency: 2 }, worktree);
+    expect(client.peak).toBe(2);
+  });
+
+  it("should never run two tasks on the same agent at once", async () => {
+    const client = new FakeOpencodeClient(async session => {
+      await delay(20);
+      return `Done by ${session.agent}`;
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnTeam(hooks, "backend");
+    await createTask(hooks, teamId, "first", "backend");
+    await createTask(hooks, teamId, "second", "backend");
+
+    const output = await runTool(hooks, "task-execute", { teamId, maxConcurrency: 4 }, worktree);
+    expect(output).toContain("**Completed**: 2");
+    expect(client.maxRunning.get("backend")).toBe(1);
+  });
+
+  it("should start an unblocked task without waiting for the whole wave", async () => {
+    // a(짧음) -> c, b(김): c는 b가 끝나기 전에 시작되어야 함
+    const client = new FakeOpencodeClient(async session => {
+      await delay(session.agent === "y" ? 150 : 5);
+      return `Done by ${session.agent}`;
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnTeam(hooks, "x,y,z");
+    const a = await createTask(hooks, teamId, "a", "x");
+    await createTask(hooks, teamId, "b", "y");
+    await createTask(hooks, teamId, "c", "z", a);
+
+    await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(client.events.indexOf("start:z")).toBeLessThan(client.events.indexOf("end:y"));
+  });
+
+  it("should complete tasks without an owner and unblock their dependents", async () => {
+    const client = new FakeOpencodeClient();
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnTeam(hooks, "x");
+    const gate = await createTask(hooks, teamId, "gate");
+    await createTask(hooks, teamId, "after", "x", gate);
+
+    const output = await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(output).toContain("Marked complete (no owner)");
+    expect(output).toContain("**Completed**: 2");
+    expect(client.events).toEqual(["start:x", "end:x"]);
+  });
+
+  it("should stop starting tasks and mark in-flight ones cancelled on team-cancel", async () => {
+    let hooks: PluginHooks;
+    let teamId = "";
+    const client = new FakeOpencodeClient(async session => {
+      await runTool(hooks, "team-cancel", { teamId }, worktree);
+      return `Done by ${session.agent}`;
+    });
+    hooks = await startPlugin(worktree, client);
+    teamId = await spawnTeam(hooks, "x,y");
+    const a = await createTask(hooks, teamId, "a", "x");
+    await createTask(hooks, teamId, "b", "y", a);
+
+    const output = await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(output).toContain("**Cancelled**: 1");
+    expect(output).toContain("**Stopped**: Cancelled");
+
+    const list = await runTool(hooks, "task-list", { teamId }, worktree);
+    expect(taskStatusIn(list, "a")).toBe("cancelled");
+    // 취소는 실패가 아니므로 후속 태스크는 blocked가 아닌 pending
+    expect(taskStatusIn(list, "b")).toBe("pending");
+    expect(client.events).not.toContain("start:y");
+  });
+});
+
+describe("Integration Tests: Upstream Results", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-upstream-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  // 에이전트 y가 받은 프롬프트의 선행 태스크 결과 부분
+  const upstreamOf = (client: FakeOpencodeClient): string | undefined => {
+    const prompt = Array.from(client.sessions.values()).find(s => s.agent === "y")!.prompt;
+    return prompt.match(/## 선행 태스크 결과\n([\s\S]*?)\n\n## 팀 협업/)?.[1];
+  };
+
+  it("should include results of blockedBy tasks", async () => {
+    const client = new FakeOpencodeClient(session => session.agent === "x" ? "POST /users returns 201" : "ok");
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "x,y");
+    const design = await createTaskIn(hooks, worktree, teamId, "design", "x");
+    await createTaskIn(hooks, worktree, teamId, "impl", "y", design);
+
+    await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(upstreamOf(client)).toBe("### design (x)\nPOST /users returns 201");
+  });
+
+  it("should leave the prompt untouched when the task opts out or the budget is 0", async () => {
+    const client = new FakeOpencodeClient(session => session.agent === "x" ? "POST /users returns 201" : "ok");
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "x,y");
+    const design = await createTaskIn(hooks, worktree, teamId, "design", "x");
+    await createTaskIn(hooks, worktree, teamId, "impl", "y", design, { includeUpstream: false });
+
+    await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(upstreamOf(client)).toBeUndefined();
+
+    const other = new FakeOpencodeClient(session => session.agent === "x" ? "POST /users returns 201" : "ok");
+    const rehooks = await startPlugin(worktree, other);
+    const next = await spawnCustomTeam(rehooks, worktree, "x,y");
+    const dep = await createTaskIn(rehooks, worktree, next, "design", "x");
+    await createTaskIn(rehooks, worktree, next, "impl", "y", dep);
+
+    await runTool(rehooks, "task-execute", { teamId: next, upstreamBudget: 0 }, worktree);
+    expect(upstreamOf(other)).toBeUndefined();
+  });
+
+  it("should keep many dependencies within the budget and list the omitted ones", async () => {
+    const client = new FakeOpencodeClient(session => session.agent === "x" ? "r".repeat(5000) : "ok");
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "x,y");
+    const deps: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      deps.push(await createTaskIn(hooks, worktree, teamId, `dep${i}`, "x"));
+    }
+    await createTaskIn(hooks, worktree, teamId, "merge", "y", deps.join(","));
+
+    await runTool(hooks, "task-execute", { teamId, upstreamBudget: 6000 }, worktree);
+    const upstream = upstreamOf(client)!;
+    const [included, omitted] = upstream.split(/\n\n(?=\(upstreamBudget)/);
+    expect(included.length).toBeLessThanOrEqual(6000);
+    expect(included.match(/^### dep/gm)!.length).toBe(11);
+    expect(omitted.match(/dep\d+/g)!.length).toBe(9);
+  });
+
+  it("should give space left by short results to longer ones", async () => {
+    const client = new FakeOpencodeClient(session => {
+      if (session.prompt.startsWith("Do short")) return "s".repeat(100);
+      if (session.prompt.startsWith("Do long")) return "l".repeat(5000);
+      return "ok";
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "x,y");
+    const short = await createTaskIn(hooks, worktree, teamId, "short", "x");
+    const long = await createTaskIn(hooks, worktree, teamId, "long", "x");
+    await createTaskIn(hooks, worktree, teamId, "merge", "y", `${short},${long}`);
+
+    await runTool(hooks, "task-execute", { teamId, upstreamBudget: 2000 }, worktree);
+    const upstream = upstreamOf(client)!;
+    expect(upstream).toContain("s".repeat(100));
+    expect(upstream.length).toBeLessThanOrEqual(2000);
+    expect(upstream.length).toBeGreaterThan(1900);
+    expect(upstream).toContain("...");
+  });
+
+  // 요약 세션과 태스크 세션 모두 y가 실행하므로 태스크 프롬프트는 선행 결과가 든 세션에서 찾음
+  const taskPromptOf = (client: FakeOpencodeClient): string =>
+    Array.from(client.sessions.values()).find(s => s.agent === "y" && s.prompt.includes("## 선행 태스크 결과"))!.prompt;
+  const progressLogOf = (teamId: string): string =>
+    fs.readFileSync(path.join(worktree, ".opencode", "squad", "teams", `${teamId}.progress.log`), "utf-8");
+
+  it("should summarize long results on the owner agent and record its usage", async () => {
+    const client = new FakeOpencodeClient(session => {
+      if (session.agent === "x") return "r".repeat(5000);
+      return session.prompt.startsWith("다음은") ? "Short summary" : "ok";
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "x,y");
+    const design = await createTaskIn(hooks, worktree, teamId, "design", "x");
+    await createTaskIn(hooks, worktree, teamId, "impl", "y", design);
+
+    await runTool(hooks, "task-execute", { teamId, upstreamBudget: 1000, summarizeUpstream: true }, worktree);
+    expect(taskPromptOf(client)).toContain("### design (x)\nShort summary");
+
+    const stored = JSON.parse(await storedTeamFile(worktree, teamId));
+    const y = stored.agents.find((a: { name: string }) => a.name === "y");
+    expect(y.usage.input).toBe(20); // 요약 세션 + 태스크 세션
+    expect(y.status).toBe("completed");
+    expect(progressLogOf(teamId)).toContain("y thinking - summarizing design");
+    expect(progressLogOf(teamId)).toContain("summarized design");
+  });
+
+  it("should record a failed summary on the agent and fall back to truncation", async () => {
+    const client: FakeOpencodeClient = new FakeOpencodeClient(async session => {
+      if (session.agent === "x") return "r".repeat(5000);
+      if (session.prompt.startsWith("다음은")) {
+        await client.onEvent({ type: "session.error", properties: { sessionID: session.id, error: { name: "ProviderError" } } });
+      }
+      return "ok";
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "x,y");
+    const design = await createTaskIn(hooks, worktree, teamId, "design", "x");
+    await createTaskIn(hooks, worktree, teamId, "impl", "y", design);
+
+    const output = await runTool(hooks, "task-execute", { teamId, upstreamBudget: 1000, summarizeUpstream: true }, worktree);
+    expect(output).toContain("**Completed**: 2");
+    expect(taskPromptOf(client)).toContain("r...");
+    expect(progressLogOf(teamId)).toContain("y error - Summary of design failed: Session error: ProviderError");
+
+    // 이어진 태스크 실행이 에러를 지움
+    const stored = JSON.parse(await storedTeamFile(worktree, teamId));
+    const y = stored.agents.find((a: { name: string }) => a.name === "y");
+    expect(y.status).toBe("completed");
+    expect(y.error).toBeUndefined();
+  });
+});
+
+describe("Integration Tests: Agent Handoff", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-handoff-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  it("should start a handed-off task while the creating task is still running", async () => {
+    let hooks: PluginHooks;
+    let startedBeforeAuditEnded = false;
+    const client = new FakeOpencodeClient(async session => {
+      if (session.agent === "security-auditor") {
+        await runTool(hooks, "task-handoff", {
+          subject: "fix",
+          description: "Fix the injection",
+          owner: "backend-developer"
+        }, worktree, session.id);
+        for (let i = 0; i < 50 && !client.events.includes("start:backend-developer"); i++) {
+          await delay(10);
+        }
+        startedBeforeAuditEnded = client.events.includes("start:backend-developer");
+      }
+      return `Done by ${session.agent}`;
+    });
+    hooks = await startPlugin(worktree, client);
+    const teamId = teamIdOf(await runTool(hooks, "team-spawn", {
+      preset: "security-auditor,backend-developer",
+      teamName: "Handoff",
+      task: "Audit"
+    }, worktree));
+    await runTool(hooks, "task-create", { teamId, subject: "audit", description: "Audit", owner: "security-auditor" }, worktree);
+
+    const output = await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(startedBeforeAuditEnded).toBe(true);
+    expect(output).toContain("**Completed**: 2");
+
+    const list = await runTool(hooks, "task-list", { teamId }, worktree);
+    expect(taskStatusIn(list, "fix")).toBe("completed");
+    expect(list).toContain("Created by: security-auditor");
+  });
+
+  it("should leave claimable tasks pending until someone claims them", async () => {
+    let hooks: PluginHooks;
+    let teamId = "";
+    let statusBeforeClaim: string | undefined;
+    const client = new FakeOpencodeClient(async session => {
+      if (session.prompt.startsWith("Do impl")) {
+        const handoff = await runTool(hooks, "task-handoff", { subject: "docs", description: "Do docs" }, worktree, session.id);
+        await delay(20);
+        statusBeforeClaim = taskStatusIn(await runTool(hooks, "task-list", { teamId }, worktree), "docs");
+        await runTool(hooks, "task-claim", { taskId: taskIdOf(handoff) }, worktree, session.id);
+      }
+      return `Done by ${session.agent}`;
+    });
+    hooks = await startPlugin(worktree, client);
+    teamId = teamIdOf(await runTool(hooks, "team-spawn", { preset: "backend-developer", teamName: "Claim", task: "Ship" }, worktree));
+    await runTool(hooks, "task-create", { teamId, subject: "impl", description: "Do impl", owner: "backend-developer" }, worktree);
+
+    const output = await runTool(hooks, "task-execute", { teamId }, worktree);
+    expect(statusBeforeClaim).toBe("pending");
+    expect(output).toContain("**Completed**: 2");
+    const list = await runTool(hooks, "task-list", { teamId }, worktree);
+    expect(taskStatusIn(list, "docs")).toBe("completed");
+  });
+});
+
+describe("Integration Tests: Messaging", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-messages-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  it("should deliver inbox overflow on the next prompt instead of marking it read", async () => {
+    const client = new FakeOpencodeClient();
+    const hooks = await startPlugin(worktree, client);
+    const teamId = teamIdOf(await runTool(hooks, "team-spawn", { preset: "debugger", teamName: "Inbox", task: "Fix it" }, worktree));
+    for (let i = 1; i <= 25; i++) {
+      await runTool(hooks, "team-message", { teamId, to: "debugger", content: `message ${i}.` }, worktree);
+      await delay(2); // 읽음 표시는 시각 기준
+    }
+
+    await runTool(hooks, "team-execute", { teamId }, worktree);
+    const first = client.sessions.get("fake-session-1")!.prompt;
+    expect(first).toContain("## 받은 메시지 (20/25)");
+    expect(first).toContain("message 1.");
+    expect(first).toContain("message 20.");
+    expect(first).not.toContain("message 21.");
+
+    await runTool(hooks, "team-execute", { teamId }, worktree);
+    const second = client.sessions.get("fake-session-2")!.prompt;
+    expect(second).toContain("## 받은 메시지 (5/5)");
+    expect(second).toContain("message 21.");
+    expect(second).toContain("message 25.");
+  });
+
+  it("should only ask running agents to approve shutdown, in their live session", async () => {
+    let hooks: PluginHooks;
+    const asked: string[] = [];
+    const client = new FakeOpencodeClient(async session => {
+      asked.push(session.id);
+      await runTool(hooks, "shutdown-respond", { approve: true, reason: "Review is done" }, worktree, session.id);
+      return "Stopping";
+    });
+    writeTeamFile(worktree, {
+      id: "team-busy",
+      name: "Busy Team",
+      agents: [
+        { name: "debugger", sessionID: "ses-done", role: "Debugger", status: "completed", result: "Fixed" },
+        { name: "test-automator", sessionID: null, role: "Tester", status: "idle" },
+        { name: "code-reviewer", sessionID: "ses-running", role: "Reviewer", status: "responding" }
+      ]
+    });
+    hooks = await startPlugin(worktree, client);
+    client.sessions.set("ses-running", { id: "ses-running", agent: "code-reviewer", prompt: "Review it", busy: true });
+
+    const output = await runTool(hooks, "team-shutdown", { teamId: "team-busy" }, worktree);
+    expect(output).toContain("**debugger**: Not running (completed), approved automatically.");
+    expect(output).toContain("**test-automator**: Not running (idle), approved automatically.");
+    expect(output).toContain("[OK] **code-reviewer**: Review is done");
+    expect(output).toContain('Team "Busy Team" shut down.');
+    expect(asked).toEqual(["ses-running"]);
+    expect(client.sessionCounter).toBe(0);
+  });
+
+  it("should keep the team when a busy agent rejects shutdown", async () => {
+    let hooks: PluginHooks;
+    let finish = () => {};
+    const finished = new Promise<void>(resolve => { finish = resolve; });
+    const client = new FakeOpencodeClient(async session => {
+      if (session.prompt.includes("[shutdown_request]")) {
+        await runTool(hooks, "shutdown-respond", { approve: false, reason: "Still fixing the parser" }, worktree, session.id);
+        return "Continuing";
+      }
+      await finished;
+      return "Fixed the parser";
+    });
+    hooks = await startPlugin(worktree, client);
+    const teamId = teamIdOf(await runTool(hooks, "team-spawn", { preset: "debugger", teamName: "Busy", task: "Fix it" }, worktree));
+
+    const run = runTool(hooks, "team-execute", { teamId }, worktree);
+    await delay(20);
+    const output = await runTool(hooks, "team-shutdown", { teamId }, worktree);
+    finish();
+    await run;
+
+    expect(output).toContain("[REJECT] **debugger**: Still fixing the parser");
+    expect(output).toContain("Shutdown cancelled: rejected by debugger.");
+    expect(client.sessionCounter).toBe(1);
+    expect(client.sessions.get("fake-session-1")!.prompt).toContain(`Team "Busy" is shutting down.`);
+
+    const inbox = await runTool(hooks, "team-inbox", { teamId }, worktree);
+    expect(inbox).toContain("[shutdown_response]");
+    expect(inbox).toContain("Approved: no");
+  });
+
+  it("should not approve shutdown for a running agent that does not answer", async () => {
+    let finish = () => {};
+    const finished = new Promise<void>(resolve => { finish = resolve; });
+    const client = new FakeOpencodeClient(async () => {
+      await finished;
+      return "Done";
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = teamIdOf(await runTool(hooks, "team-spawn", { preset: "debugger", teamName: "Quiet", task: "Fix it" }, worktree));
+
+    const run = runTool(hooks, "team-execute", { teamId }, worktree);
+    await delay(20);
+    const output = await runTool(hooks, "team-shutdown", { teamId, timeout: 0.05 }, worktree);
+    finish();
+    await run;
+
+    expect(output).toContain("[REJECT] **debugger**: No answer (no answer after 0.05s), not approved.");
+    expect(output).toContain("Shutdown cancelled: rejected by debugger.");
+  });
+});
+
+describe("Integration Tests: Synthesis", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-synthesis-"));
+    leadPrompt = "";
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  // 종합 세션은 끝나면 삭제되므로 리드(agent 없음)에게 간 프롬프트를 응답 시점에 기록
+  let leadPrompt = "";
+  const leadReply = (session: FakeSession): string => {
+    leadPrompt = session.prompt;
+    return "Merged report";
+  };
+
+  it("should merge the agent results into one synthesis written by the lead", async () => {
+    const client = new FakeOpencodeClient(session => session.agent ? `Finding from ${session.agent}` : leadReply(session));
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "code-reviewer,devil-s-advocate");
+
+    const output = await runTool(hooks, "team-execute", { teamId, synthesize: true }, worktree);
+    expect(output).toContain("## Synthesis (lead)\n\nMerged report");
+
+    const prompt = leadPrompt;
+    expect(prompt).toContain("# 원래 작업\nBuild it");
+    expect(prompt).toContain("Finding from code-reviewer");
+    expect(prompt).toContain("## devil-s-advocate (");
+    expect(prompt).toContain("[DEVIL'S ADVOCATE]\nFinding from devil-s-advocate");
+
+    const stored = await runTool(hooks, "team-result", { teamId, synthesis: true }, worktree);
+    expect(stored).toContain("Merged report");
+  });
+
+  it("should list agents without results and fail when none succeeded", async () => {
+    const client = new FakeOpencodeClient(session =>
+      session.agent === "code-reviewer" ? new Promise<string>(() => {}) : session.agent ? "Looks fine" : leadReply(session)
+    );
+    const hooks = await startPlugin(worktree, client);
+
+    const partial = await spawnCustomTeam(hooks, worktree, "code-reviewer,devil-s-advocate");
+    const output = await runTool(hooks, "team-execute", { teamId: partial, synthesize: true, timeout: 1 }, worktree);
+    expect(output).toContain("## Synthesis (lead)\n\nMerged report");
+    expect(leadPrompt).toContain("(결과 없음: code-reviewer)");
+
+    const failed = await spawnCustomTeam(hooks, worktree, "code-reviewer");
+    const none = await runTool(hooks, "team-execute", { teamId: failed, synthesizer: "code-reviewer", timeout: 1 }, worktree);
+    expect(none).toContain("## Synthesis (code-reviewer)\n\n**[FAIL]** No successful agent results to synthesize");
+  });
+});
+
+describe("Integration Tests: Git Targets", () => {
+  let worktree: string;
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=squad", "-c", "user.email=squad@example.com", ...args], { cwd: worktree });
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-git-"));
+    git("init", "-q");
+    fs.writeFileSync(path.join(worktree, "auth.ts"), "export const check = () => false;\n");
+    git("add", "auth.ts");
+    git("commit", "-q", "-m", "init");
+    fs.writeFileSync(path.join(worktree, "auth.ts"), "export const check = () => true;\n");
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  it("should keep the diff out of the team record and reuse it on rerun", async () => {
+    const prompts: string[] = [];
+    const client = new FakeOpencodeClient(session => {
+      prompts.push(session.prompt);
+      return "Reviewed";
+    });
+    const hooks = await startPlugin(worktree, client);
+
+    const spawned = await runTool(hooks, "team-spawn", { preset: "code-reviewer", teamName: "Review", task: "Review it", target: "working" }, worktree);
+    expect(spawned).toContain("**Git target**: `working`: 1 files");
+    const teamId = teamIdOf(spawned);
+
+    await runTool(hooks, "team-execute", { teamId }, worktree);
+    await flushSaves(worktree);
+    const teamsDir = path.join(worktree, ".opencode", "squad", "teams");
+    expect(fs.readFileSync(path.join(teamsDir, `${teamId}.git.diff`), "utf-8")).toContain("+export const check = () => true;");
+    expect(fs.readFileSync(path.join(teamsDir, `${teamId}.json`), "utf-8")).not.toContain("export const check");
+
+    await runTool(hooks, "team-rerun", { teamId }, worktree);
+    expect(prompts).toHaveLength(2);
+    for (const prompt of prompts) {
+      expect(prompt).toContain("-export const check = () => false;\n+export const check = () => true;");
+    }
+  });
+
+  it("should return git errors without creating a team", async () => {
+    const hooks = await startPlugin(worktree);
+    const output = await runTool(hooks, "team-spawn", { preset: "code-reviewer", teamName: "Review", task: "Review it", target: "no-such-branch" }, worktree);
+    expect(output).toBe('Error: Unknown git revision "no-such-branch"');
+  });
+});
+
+describe("Integration Tests: Plan Files", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-plan-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  it("should leave the saved team unchanged after a dry run or a rejected import", async () => {
+    const hooks = await startPlugin(worktree);
+    const teamId = await spawnCustomTeam(hooks, worktree, "backend");
+    const before = await storedTeamFile(worktree, teamId);
+
+    const valid = JSON.stringify({ tasks: [{ key: "api", subject: "Build API", owner: "backend" }] });
+    const dryRun = await runTool(hooks, "task-import", { teamId, content: valid, dryRun: true }, worktree);
+    expect(dryRun).toContain("## Plan Valid");
+
+    const cyclic = JSON.stringify({ tasks: [{ key: "a", subject: "A", needs: "b" }, { key: "b", subject: "B", needs: "a" }] });
+    const rejected = await runTool(hooks, "task-import", { teamId, content: cyclic }, worktree);
+    expect(rejected).toContain("Cyclic dependencies");
+    expect(await storedTeamFile(worktree, teamId)).toBe(before);
+
+    // 이후 저장이 리비전 충돌로 버려지지 않음
+    await createTaskIn(hooks, worktree, teamId, "later", "backend");
+    expect(await storedTeamFile(worktree, teamId)).toContain("Do later");
+  });
+
+  it("should not write planned tasks into the saved team before approval", async () => {
+    const planJson = JSON.stringify({ tasks: [{ key: "api", subject: "Build API", owner: "backend" }] });
+    const client = new FakeOpencodeClient(() => `\`\`\`json\n${planJson}\n\`\`\``);
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "backend");
+
+    const preview = await runTool(hooks, "team-plan", { teamId }, worktree);
+    expect(preview).toContain("Approve with");
+    const stored = JSON.parse(await storedTeamFile(worktree, teamId));
+    expect(stored.tasks).toEqual([]);
+    expect(stored.plan.approvedAt).toBeUndefined();
+
+    const approved = await runTool(hooks, "team-plan", { teamId, approve: true }, worktree);
+    expect(approved).toContain("## Approved: 1 Tasks Created");
+    expect(JSON.parse(await storedTeamFile(worktree, teamId)).tasks).toHaveLength(1);
+  });
+});
+
+describe("Integration Tests: Rerun", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-rerun-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  it("should compare only the task results when the re-run executes the task graph", async () => {
+    const client = new FakeOpencodeClient(session => session.prompt.includes("Do api") ? "API is fine" : "Agent-wide note");
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, "backend");
+    await runTool(hooks, "team-execute", { teamId }, worktree);
+    await createTaskIn(hooks, worktree, teamId, "api", "backend");
+    await runTool(hooks, "task-execute", { teamId }, worktree);
+
+    const output = await runTool(hooks, "team-rerun", { teamId }, worktree);
+    expect(output).toContain("| backend | result lines | 0 | 0 | 1 |");
+    expect(output).not.toContain("Agent-wide note");
+  });
+});
+
+describe("Integration Tests: Debate", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-debate-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  const agreeWithAll = (agent: string, members: string[]): string =>
+    ["POSITION: Use an outbox table.", ...members.filter(m => m !== agent).map(m => `- ${m}: agree - fine`)].join("\n");
+
+  it("should converge only when every participant agrees with every other one", async () => {
+    const members = ["architect", "backend-developer", "qa-expert"];
+    const client = new FakeOpencodeClient(session =>
+      session.agent && members.includes(session.agent) ? agreeWithAll(session.agent, members) : "Summary"
+    );
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, members.join(","));
+
+    const output = await runTool(hooks, "team-debate", { teamId, topic: "Outbox?", maxRounds: 3 }, worktree);
+    expect(output).toContain("**Converged** after 2 rounds.");
+  });
+
+  it("should not converge while a participant gives no verdicts", async () => {
+    const members = ["architect", "backend-developer", "qa-expert"];
+    const client = new FakeOpencodeClient(session => {
+      if (session.agent === "qa-expert") return "Sounds reasonable to me.";
+      return session.agent && members.includes(session.agent) ? agreeWithAll(session.agent, members) : "Summary";
+    });
+    const hooks = await startPlugin(worktree, client);
+    const teamId = await spawnCustomTeam(hooks, worktree, members.join(","));
+
+    const output = await runTool(hooks, "team-debate", { teamId, topic: "Outbox?", maxRounds: 3 }, worktree);
+    expect(output).toContain("**Not converged** after 3 rounds.");
+  });
+});
+
+describe("Integration Tests: Cancellation", () => {
+  let worktree: string;
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), "squad-cancel-"));
+  });
+
+  afterEach(async () => {
+    await removeWorktree(worktree);
+  });
+
+  it("should report nothing running for statuses left behind by a crash", async () => {
+    writeTeamFile(worktree, {
+      id: "team-crashed",
+      name: "Crashed Team",
+      agents: [{ name: "debugger", sessionID: "ses-gone", role: "Debugger", status: "responding" }]
+    });
+    const hooks = await startPlugin(worktree);
+
+    const output = await runTool(hooks, "team-cancel", { teamId: "team-crashed" }, worktree);
+    expect(output).toContain("Nothing to cancel");
+
+    // 재연결할 수 있도록 상태는 그대로 둠
+    const status = await runTool(hooks, "team-status", { teamId: "team-crashed" }, worktree);
+    expect(status).toContain("responding");
+  });
+
+  it("should cancel agents whose sessions are still busy in another instance", async () => {
+    const client = new FakeOpencodeClient();
+    client.sessions.set("ses-live", { id: "ses-live", prompt: "", busy: true });
+    writeTeamFile(worktree, {
+      id: "team-elsewhere",
+      name: "Elsewhere Team",
+      agents: [{ name: "debugger", sessionID: "ses-live", role: "Debugger", status: "responding" }]
+    });
+    const hooks = await startPlugin(worktree, client);
+
+    const output = await runTool(hooks, "team-cancel", { teamId: "team-elsewhere" }, worktree);
+    expect(output).toContain("## Cancelled");
+    expect(output).toContain("**Agents**: debugger");
+    expect(client.sessions.get("ses-live")?.busy).toBe(false);
+  });
 });
 
 describe("Integration Tests: Error Handling", () => {
@@ -4,22 +4,62 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-
-// Import the functions we need to test
-// Since we're testing internal functions, we need to either:
-// 1. Export them for testing, or
-// 2. Test them through the public API
-// For now, we'll recreate the test scenarios
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createFileRecords,
+  createMemoryRecords,
+  createSqliteRecords,
+  createTeamStore,
+  LOCK_STALE_MS,
+  matchesHistoryFilter,
+  migrateTeamData,
+  parseTeamRecord,
+  serializeTeam,
+  TEAM_SCHEMA_VERSION,
+  withFileLock,
+  writeFileAtomic,
+  type MessageLog,
+  type StorageBackend,
+  type TeamRecords,
+} from "../src/store";
+import type { Budget, Debate, DebateTurn, DebateVerdict, Message, RetryPolicy, Usage } from "../src/index";
+import { debateConverged, parseDebateTurn } from "../src/debate";
+import { dedupeFindings, matchFindings, toFinding, toSarif, type Finding, type FindingInput } from "../src/findings";
+import { MAX_GIT_DIFF_LENGTH, budgetDiff, parseGitRange, parseNameStatus, readPathContents, splitDiffFiles } from "../src/git";
+import { buildTaskGraph, renderAscii, renderMermaid } from "../src/graph";
+import { finalAssistantTurn, getMessages, messageQueue, sendMessage } from "../src/messages";
+import { extractJson, parseMarkdownPlan, planStages } from "../src/plans";
+import { PRESET_KEYWORDS, detectPreset, isDevilsAdvocate, keywordPattern, presetAgents, scorePresets } from "../src/presets";
+import {
+  MAX_RESULT_LENGTH,
+  diffResultLines,
+  formatProgressLine,
+  formatResultText,
+  parseHistoryDate,
+  searchSnippet,
+  searchTeamResults,
+  tailLines,
+} from "../src/results";
+import { blockDependents, canExecuteTask, detectCyclicDependency, findCyclicDependencies, shouldRetry } from "../src/tasks";
+import { addUsage, budgetExceededBy, buildBudget, emptyUsage, summarizeUsage, weekStart } from "../src/usage";
+import { extractRoleFromDescription, truncateText } from "../src/utils";
+
+// 테스트 대상 함수는 src/의 모듈에서 가져옴 (index.ts는 플러그인과 타입만 내보냄)
 
 // ============================================================================
 // TEST UTILITIES
 // ============================================================================
 
+// 내장 프리셋 키워드 (loadPresets가 만드는 레지스트리에서 점수화에 쓰는 부분)
+const BUILT_IN_PRESETS = new Map(Object.entries(PRESET_KEYWORDS).map(([name, keywords]) => [name, { keywords }]));
+
 interface Agent {
   name: string;
   sessionID: string | null;
   role: string;
-  status: "idle" | "thinking" | "responding" | "completed" | "error";
+  status: "idle" | "thinking" | "responding" | "completed" | "error" | "cancelled";
   result?: string;
   error?: string;
 }
@@ -28,13 +68,17 @@ interface Task {
   id: string;
   subject: string;
   description: string;
-  status: "pending" | "in_progress" | "completed" | "blocked" | "error";
+  status: "pending" | "in_progress" | "completed" | "blocked" | "error" | "cancelled";
   owner?: string;
   blockedBy: string[];
   blocks: string[];
   result?: string;
   error?: string;
+  key?: string;
+  createdBy?: string;
+  claimable?: boolean;
   createdAt: Date;
+  startedAt?: Date;
   completedAt?: Date;
 }
 
@@ -49,85 +93,20 @@ interface Team {
   results?: Map<string, string>;
 }
 
-// ============================================================================
-// RECREATE FUNCTIONS FOR TESTING (since they're internal)
-// ============================================================================
-
-const DEVILS_ADVOCATE_NAMES = [
-  "devil-s-advocate",
-  "devils-advocate",
-  "devil_advocate",
-  "devilsadvocate",
-  "devil-sadvocate"
-];
-
-function isDevilsAdvocate(agentName: string): boolean {
-  const normalized = agentName.toLowerCase().replace(/[_-]/g, "");
-  return DEVILS_ADVOCATE_NAMES.some(
-    name => normalized === name.replace(/[_-]/g, "")
-  );
-}
-
-function truncateText(text: string, maxLength: number): string {
-  return text.length > maxLength ? text.slice(0, maxLength) + "..." : text;
-}
-
-function extractRoleFromDescription(description: string | undefined, fallback: string): string {
-  return description?.split(".")[0] ?? fallback;
-}
-
-function canExecuteTask(team: Team, task: Task): boolean {
-  return task.blockedBy.every(depId => {
-    const depTask = team.tasks.get(depId);
-    return depTask?.status === "completed";
-  });
-}
-
-function detectCyclicDependency(team: Team, taskId: string, visited: Set<string> = new Set()): boolean {
-  if (visited.has(taskId)) return true;
-  visited.add(taskId);
-
-  const task = team.tasks.get(taskId);
-  if (!task) return false;
-
-  for (const depId of task.blockedBy) {
-    if (detectCyclicDependency(team, depId, visited)) {
-      return true;
-    }
-  }
-
-  visited.delete(taskId);
-  return false;
-}
-
-function findCyclicDependencies(team: Team): string[] {
-  const cyclic: string[] = [];
-  for (const [id] of team.tasks) {
-    if (detectCyclicDependency(team, id)) {
-      cyclic.push(id);
-    }
-  }
-  return cyclic;
+function makeTask(id: string, owner: string, blockedBy: string[] = []): Task {
+  return { id, subject: id, description: id, status: "pending", owner, blockedBy, blocks: [], createdAt: new Date() };
 }
 
-function detectPreset(request: string): string {
-  const PRESET_KEYWORDS: Record<string, string[]> = {
-    security: ["security", "보안", "취약점"],
-    debug: ["debug", "버그", "에러"],
-    planning: ["planning", "계획", "설계"],
-    implementation: ["implement", "구현", "개발"],
-    research: ["research", "조사", "탐색"],
+function makeTeam(tasks: Task[]): Team {
+  return {
+    id: "team-1",
+    name: "Test Team",
+    preset: "implementation",
+    agents: new Map(),
+    tasks: new Map(tasks.map(t => [t.id, t])),
+    createdAt: new Date(),
+    task: "Test"
   };
-
-  const lowerRequest = request.toLowerCase();
-
-  for (const [preset, keywords] of Object.entries(PRESET_KEYWORDS)) {
-    if (keywords.some((kw) => lowerRequest.includes(kw))) {
-      return preset;
-    }
-  }
-
-  return "review";
 }
 
 // ============================================================================
@@ -745,47 +724,1218 @@ describe("Unit Tests: findCyclicDependencies", () => {
 
 describe("Unit Tests: detectPreset", () => {
   it("should return 'review' as default", () => {
-    expect(detectPreset("just some random text")).toBe("review");
+    expect(detectPreset("just some random text", BUILT_IN_PRESETS).preset).toBe("review");
   });
 
   it("should detect security preset", () => {
-    expect(detectPreset("Check security")).toBe("security");
-    expect(detectPreset("보안 검사")).toBe("security");
-    expect(detectPreset("Find 취약점")).toBe("security");
+    expect(detectPreset("Check security", BUILT_IN_PRESETS).preset).toBe("security");
+    expect(detectPreset("보안 검사", BUILT_IN_PRESETS).preset).toBe("security");
+    expect(detectPreset("Find 취약점", BUILT_IN_PRESETS).preset).toBe("security");
   });
 
   it("should detect debug preset", () => {
-    expect(detectPreset("Debug this code")).toBe("debug");
-    expect(detectPreset("Fix the 버그")).toBe("debug");
-    expect(detectPreset("There's an 에러")).toBe("debug");
+    expect(detectPreset("Debug this code", BUILT_IN_PRESETS).preset).toBe("debug");
+    expect(detectPreset("Fix the 버그", BUILT_IN_PRESETS).preset).toBe("debug");
+    expect(detectPreset("There's an 에러", BUILT_IN_PRESETS).preset).toBe("debug");
   });
 
   it("should detect planning preset", () => {
-    expect(detectPreset("Create a planning document")).toBe("planning");
-    expect(detectPreset("Make a 계획")).toBe("planning");
-    expect(detectPreset("Design and 설계")).toBe("planning");
+    expect(detectPreset("Create a planning document", BUILT_IN_PRESETS).preset).toBe("planning");
+    expect(detectPreset("Make a 계획", BUILT_IN_PRESETS).preset).toBe("planning");
+    expect(detectPreset("Design and 설계", BUILT_IN_PRESETS).preset).toBe("planning");
   });
 
   it("should detect implementation preset", () => {
-    expect(detectPreset("Implement this feature")).toBe("implementation");
-    expect(detectPreset("구현 the code")).toBe("implementation");
-    expect(detectPreset("개발 new feature")).toBe("implementation");
+    expect(detectPreset("Implement this feature", BUILT_IN_PRESETS).preset).toBe("implementation");
+    expect(detectPreset("구현 the code", BUILT_IN_PRESETS).preset).toBe("implementation");
+    expect(detectPreset("개발 new feature", BUILT_IN_PRESETS).preset).toBe("implementation");
   });
 
   it("should detect research preset", () => {
-    expect(detectPreset("Research this topic")).toBe("research");
-    expect(detectPreset("조사 the data")).toBe("research");
-    expect(detectPreset("탐색 new options")).toBe("research");
+    expect(detectPreset("Research this topic", BUILT_IN_PRESETS).preset).toBe("research");
+    expect(detectPreset("조사 the data", BUILT_IN_PRESETS).preset).toBe("research");
+    expect(detectPreset("탐색 new options", BUILT_IN_PRESETS).preset).toBe("research");
   });
 
   it("should be case insensitive", () => {
-    expect(detectPreset("SECURITY check")).toBe("security");
-    expect(detectPreset("DEBUG this")).toBe("debug");
+    expect(detectPreset("SECURITY check", BUILT_IN_PRESETS).preset).toBe("security");
+    expect(detectPreset("DEBUG this", BUILT_IN_PRESETS).preset).toBe("debug");
   });
 
   it("should return first matching preset", () => {
-    // Order in PRESET_KEYWORDS determines priority
-    expect(detectPreset("security planning")).toBe("security");
+    // 점수가 같으면 먼저 언급된 프리셋
+    expect(detectPreset("security planning", BUILT_IN_PRESETS).preset).toBe("security");
+  });
+});
+
+describe("Unit Tests: getMessages", () => {
+  beforeEach(() => {
+    messageQueue.clear();
+  });
+
+  it("should deliver direct and broadcast messages to a recipient", () => {
+    sendMessage({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "a", timestamp: new Date(1000) });
+    sendMessage({ type: "broadcast", teamId: "team-1", sender: "planner", content: "b", timestamp: new Date(2000) });
+
+    const messages = getMessages("team-1", "debugger");
+    expect(messages.map(m => m.content)).toEqual(["a", "b"]);
+  });
+
+  it("should not deliver a broadcast back to its sender", () => {
+    sendMessage({ type: "broadcast", teamId: "team-1", sender: "planner", content: "b", timestamp: new Date(2000) });
+    expect(getMessages("team-1", "planner")).toHaveLength(0);
+  });
+
+  it("should isolate messages between teams", () => {
+    sendMessage({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "a", timestamp: new Date(1000) });
+    expect(getMessages("team-2", "debugger")).toHaveLength(0);
+  });
+
+  it("should only return messages after the read cursor", () => {
+    sendMessage({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "old", timestamp: new Date(1000) });
+    sendMessage({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "new", timestamp: new Date(3000) });
+
+    const messages = getMessages("team-1", "debugger", new Date(1000));
+    expect(messages.map(m => m.content)).toEqual(["new"]);
+  });
+});
+
+describe("Unit Tests: finalAssistantTurn", () => {
+  it("should return null before any assistant message", () => {
+    expect(finalAssistantTurn([
+      { info: { role: "user" }, parts: [{ type: "text", text: "hi" }] }
+    ])).toBeNull();
+  });
+
+  it("should not treat a tool-call step as complete", () => {
+    const turn = finalAssistantTurn([
+      { info: { role: "user" }, parts: [] },
+      { info: { role: "assistant", time: { completed: 1 }, finish: "tool-calls" }, parts: [{ type: "tool" }] }
+    ]);
+    expect(turn?.complete).toBe(false);
+  });
+
+  it("should not treat a streaming message as complete", () => {
+    const turn = finalAssistantTurn([
+      { info: { role: "user" }, parts: [] },
+      { info: { role: "assistant", time: {} }, parts: [{ type: "text", text: "partial" }] }
+    ]);
+    expect(turn?.complete).toBe(false);
+  });
+
+  it("should join text from every step of the final turn only", () => {
+    const turn = finalAssistantTurn([
+      { info: { role: "user" }, parts: [] },
+      { info: { role: "assistant", time: { completed: 1 }, finish: "stop" }, parts: [{ type: "text", text: "old" }] },
+      { info: { role: "user" }, parts: [] },
+      { info: { role: "assistant", time: { completed: 2 }, finish: "tool-calls" }, parts: [{ type: "text", text: "step 1" }] },
+      { info: { role: "assistant", time: { completed: 3 }, finish: "stop" }, parts: [{ type: "text", text: "final" }] }
+    ]);
+    expect(turn).toEqual({ text: "step 1\nfinal", complete: true });
+  });
+});
+
+describe("Unit Tests: blockDependents", () => {
+  it("should block transitive dependents with a reason naming the failed ancestor", () => {
+    const a = { ...makeTask("a", "x"), status: "error" as const };
+    const b = makeTask("b", "y", ["a"]);
+    const c = makeTask("c", "z", ["b"]);
+    const team = makeTeam([a, b, c]);
+
+    const blocked = blockDependents(team, a);
+
+    expect(blocked.map(t => t.id)).toEqual(["b", "c"]);
+    expect(blocked[1].blockedReason).toContain("(a)");
+  });
+
+  it("should not touch completed or unrelated tasks", () => {
+    const a = { ...makeTask("a", "x"), status: "error" as const };
+    const done = { ...makeTask("done", "y", ["a"]), status: "completed" as const };
+    const other = makeTask("other", "z");
+    const team = makeTeam([a, done, other]);
+
+    blockDependents(team, a);
+
+    expect(done.status).toBe("completed");
+    expect(other.status).toBe("pending");
+  });
+});
+
+describe("Unit Tests: shouldRetry", () => {
+  const attempt = (retry: RetryPolicy | undefined, attempts: number) =>
+    ({ ...makeTask("a", "x"), retry, attempts });
+
+  it("should not retry without a policy", () => {
+    expect(shouldRetry(attempt(undefined, 1), "boom")).toBe(false);
+  });
+
+  it("should stop once attempts are exhausted", () => {
+    expect(shouldRetry(attempt({ maxAttempts: 2, retryOn: "any" }, 1), "boom")).toBe(true);
+    expect(shouldRetry(attempt({ maxAttempts: 2, retryOn: "any" }, 2), "boom")).toBe(false);
+  });
+
+  it("should only retry timeouts when retryOn is timeout", () => {
+    const policy: RetryPolicy = { maxAttempts: 3, retryOn: "timeout" };
+    expect(shouldRetry(attempt(policy, 1), "Session timeout after 120s")).toBe(true);
+    expect(shouldRetry(attempt(policy, 1), "Session error: rate limited")).toBe(false);
+  });
+});
+
+describe("Unit Tests: presetAgents", () => {
+  it("should add the devil's advocate by default", () => {
+    expect(presetAgents(["backend-developer"], true)).toEqual(["backend-developer", "devil-s-advocate"]);
+  });
+
+  it("should not duplicate an existing devil's advocate variant", () => {
+    expect(presetAgents(["planner", "devils-advocate"], true)).toEqual(["planner", "devils-advocate"]);
+  });
+
+  it("should remove the devil's advocate when disabled", () => {
+    expect(presetAgents(["planner", "devil-s-advocate"], false)).toEqual(["planner"]);
+  });
+});
+
+describe("Unit Tests: scorePresets", () => {
+  it("should prefer the first-mentioned intent over iteration order", () => {
+    expect(scorePresets("debug the security planning doc", BUILT_IN_PRESETS)[0].preset).toBe("debug");
+  });
+
+  it("should count overlapping keywords once", () => {
+    const planning = scorePresets("planning session", BUILT_IN_PRESETS).find(s => s.preset === "planning");
+    expect(planning?.matched).toEqual(["planning"]);
+  });
+
+  it("should match inflected forms of the last keyword word", () => {
+    expect(scorePresets("reviewing the module", BUILT_IN_PRESETS)[0].preset).toBe("review");
+    expect(scorePresets("designed the schema", BUILT_IN_PRESETS)[0].preset).toBe("planning");
+    expect(scorePresets("investigating the outage", BUILT_IN_PRESETS)[0].preset).toBe("research");
+    expect(scorePresets("debugged the worker", BUILT_IN_PRESETS)[0].preset).toBe("debug");
+    expect(scorePresets("crashes in prod", BUILT_IN_PRESETS)[0].preset).toBe("debug");
+    expect(scorePresets("two code reviews", BUILT_IN_PRESETS)[0].matched).toContain("code review");
+  });
+
+  it("should limit keyword suffixes to known word endings", () => {
+    expect(keywordPattern("plan").test("planned the sprint")).toBe(true);
+    expect(keywordPattern("plan").test("render the planet")).toBe(false);
+    expect(keywordPattern("vulnerability").test("known vulnerabilities")).toBe(true);
+    expect(keywordPattern("explore").test("explorations")).toBe(false);
+    expect(keywordPattern("rag").test("ragged edges")).toBe(false);
+  });
+
+  it("should match listed word forms and plurals as whole words", () => {
+    expect(scorePresets("implementing the login flow", BUILT_IN_PRESETS)[0].preset).toBe("implementation");
+    expect(scorePresets("exploring the codebase", BUILT_IN_PRESETS)[0].preset).toBe("research");
+    expect(scorePresets("fix these bugs", BUILT_IN_PRESETS)[0].preset).toBe("debug");
+  });
+
+  it("should not match keywords inside other words", () => {
+    expect(scorePresets("maintain the paint tool", BUILT_IN_PRESETS).some(s => s.preset === "ai")).toBe(false);
+    expect(scorePresets("debugger output", BUILT_IN_PRESETS).some(s => s.preset === "review")).toBe(false);
+    expect(scorePresets("render the planet texture", BUILT_IN_PRESETS).some(s => s.preset === "planning")).toBe(false);
+    expect(scorePresets("redesigned the errorless parser", BUILT_IN_PRESETS)).toEqual([]);
+  });
+
+  it("should not pick the ai preset for generic agent or prompt wording", () => {
+    expect(scorePresets("add a prompt to the agent setup wizard", BUILT_IN_PRESETS)).toEqual([]);
+    expect(scorePresets("tune the embedding prompt", BUILT_IN_PRESETS)[0].preset).toBe("ai");
+  });
+
+  it("should match Korean keywords followed by particles", () => {
+    expect(scorePresets("취약점을 찾아줘", BUILT_IN_PRESETS)[0].preset).toBe("security");
+  });
+
+  it("should detect presets that previously had no keywords", () => {
+    expect(scorePresets("review this PR", BUILT_IN_PRESETS)[0].preset).toBe("review");
+    expect(scorePresets("tune the LLM prompt", BUILT_IN_PRESETS)[0].preset).toBe("ai");
+    expect(scorePresets("full-stack signup page", BUILT_IN_PRESETS)[0].preset).toBe("fullstack");
+  });
+
+  it("should return no scores when nothing matches", () => {
+    expect(scorePresets("hello there", BUILT_IN_PRESETS)).toEqual([]);
+  });
+});
+
+describe("Unit Tests: progress log", () => {
+  it("should format a status transition as one line", () => {
+    const at = new Date("2026-01-01T00:00:00.000Z");
+    expect(formatProgressLine({ at, agent: "debugger", status: "thinking" }))
+      .toBe("2026-01-01T00:00:00.000Z debugger thinking");
+    expect(formatProgressLine({ at, agent: "debugger", status: "error", detail: "Session timeout\nafter 90s" }))
+      .toBe("2026-01-01T00:00:00.000Z debugger error - Session timeout after 90s");
+  });
+
+  it("should return only the last lines of the log", () => {
+    const log = ["a thinking", "a responding", "a completed", "b thinking", ""].join("\n");
+    expect(tailLines(log, 2)).toEqual(["a completed", "b thinking"]);
+    expect(tailLines("", 10)).toEqual([]);
+  });
+});
+
+describe("Unit Tests: usage accounting", () => {
+  const usage = (input: number, output: number, cost: number): Usage =>
+    ({ ...emptyUsage(), input, output, cost, durationMs: 1000 });
+
+  it("should accumulate usage across runs", () => {
+    const total = addUsage(addUsage(undefined, usage(100, 50, 0.01)), usage(200, 25, 0.02));
+    expect(total.input).toBe(300);
+    expect(total.output).toBe(75);
+    expect(total.cost).toBeCloseTo(0.03);
+    expect(total.durationMs).toBe(2000);
+    expect(addUsage(total, undefined)).toEqual(total);
+  });
+
+  it("should group runs by key and count errors", () => {
+    const summaries = summarizeUsage([
+      { key: "review", usage: usage(100, 10, 0.1), wallClockMs: 5000, error: false },
+      { key: "review", usage: usage(300, 30, 0.3), wallClockMs: 7000, error: true },
+      { key: "debug", usage: usage(50, 5, 0.05), wallClockMs: 2000, error: false },
+    ]);
+
+    const review = summaries.get("review")!;
+    expect(review.runs).toBe(2);
+    expect(review.usage.input).toBe(400);
+    expect(review.usage.cost).toBeCloseTo(0.4);
+    expect(review.wallClockMs).toBe(12000);
+    expect(review.errors).toBe(1);
+    expect(summaries.get("debug")!.runs).toBe(1);
+  });
+
+  it("should bucket dates into weeks starting on Monday", () => {
+    expect(weekStart(new Date("2026-10-19T10:00:00Z"))).toBe("2026-10-19"); // 월요일
+    expect(weekStart(new Date("2026-10-25T23:00:00Z"))).toBe("2026-10-19"); // 일요일
+    expect(weekStart(new Date("2026-10-26T00:00:00Z"))).toBe("2026-10-26");
+  });
+});
+
+describe("Unit Tests: budget guardrails", () => {
+  it("should merge explicit limits over preset defaults and drop non-positive ones", () => {
+    const preset: Budget = { maxTokens: 100000, maxCost: 2 };
+    expect(buildBudget(undefined, 1, undefined, preset)).toEqual({ maxTokens: 100000, maxCost: 1 });
+    expect(buildBudget(0, undefined, 600, preset)).toEqual({ maxCost: 2, maxWallClockSeconds: 600 });
+    expect(buildBudget()).toBeUndefined();
+    expect(buildBudget(0, 0, 0, preset)).toBeUndefined();
+  });
+
+  it("should report the first exhausted limit", () => {
+    const budget: Budget = { maxTokens: 1000, maxCost: 0.5, maxWallClockSeconds: 60 };
+    expect(budgetExceededBy(budget, { tokens: 999, cost: 0.1, wallClockMs: 1000 })).toBeNull();
+    expect(budgetExceededBy(budget, { tokens: 1000, cost: 0.1, wallClockMs: 1000 })).toBe("tokens 1.0k / 1.0k");
+    expect(budgetExceededBy(budget, { tokens: 10, cost: 0.5, wallClockMs: 1000 })).toBe("cost $0.5000 / $0.5000");
+    expect(budgetExceededBy(budget, { tokens: 10, cost: 0.1, wallClockMs: 60000 })).toBe("wall-clock 60.0s / 60s");
+    expect(budgetExceededBy(undefined, { tokens: 1e9, cost: 1e9, wallClockMs: 1e9 })).toBeNull();
+  });
+
+  it("should warn before the hard limit", () => {
+    const budget: Budget = { maxCost: 1 };
+    expect(budgetExceededBy(budget, { tokens: 0, cost: 0.8, wallClockMs: 0 }, 0.8)).toBe("cost $0.8000 / $1.0000");
+    expect(budgetExceededBy(budget, { tokens: 0, cost: 0.8, wallClockMs: 0 })).toBeNull();
+  });
+});
+
+describe("Markdown plan parsing", () => {
+  it("should parse keys, owners and explicit needs", () => {
+    const plan = parseMarkdownPlan([
+      "# API plan",
+      "- [ ] design: Design API @planner",
+      "- [x] docs: Update docs @writer needs: design",
+    ].join("\n"));
+
+    expect(plan.tasks).toHaveLength(2);
+    expect(plan.tasks[0]).toMatchObject({ key: "design", subject: "Design API", owner: "planner", needs: [] });
+    expect(plan.tasks[1]).toMatchObject({ key: "docs", subject: "Update docs", owner: "writer", needs: ["design"] });
+  });
+
+  it("should make nested items need their parent", () => {
+    const plan = parseMarkdownPlan([
+      "- [ ] design: Design API",
+      "  - [ ] implement: Implement API",
+      "    - [ ] tests: Write Tests needs: lint",
+      "- [ ] lint: Lint",
+    ].join("\n"));
+
+    expect(plan.tasks.map(t => t.needs)).toEqual([[], ["design"], ["implement", "lint"], []]);
+  });
+
+  it("should collect deeper-indented lines as description", () => {
+    const plan = parseMarkdownPlan([
+      "- [ ] design: Design API",
+      "  Follow REST conventions.",
+      "  Version the routes.",
+      "",
+      "Footer text",
+    ].join("\n"));
+
+    expect(plan.tasks[0].description).toBe("Follow REST conventions.\nVersion the routes.");
+  });
+
+  it("should read upstream and retry options written by task-export", () => {
+    const plan = parseMarkdownPlan([
+      "- [ ] design: Design API @planner includeUpstream: false",
+      "- [ ] tests: Write Tests @tester maxAttempts: 3 retryBackoff: 2.5 retryOn: timeout needs: design",
+    ].join("\n"));
+
+    expect(plan.tasks[0]).toEqual({ key: "design", subject: "Design API", owner: "planner", needs: [], includeUpstream: false, description: undefined });
+    expect(plan.tasks[1]).toMatchObject({
+      key: "tests",
+      subject: "Write Tests",
+      owner: "tester",
+      needs: ["design"],
+      maxAttempts: 3,
+      retryBackoff: 2.5,
+      retryOn: "timeout",
+    });
+  });
+
+  it("should leave malformed option values for validation", () => {
+    const plan = parseMarkdownPlan("- [ ] lint: Lint maxAttempts: many includeUpstream: no");
+
+    expect(plan.tasks[0].subject).toBe("Lint");
+    expect(plan.tasks[0].maxAttempts).toBeNaN();
+    expect(plan.tasks[0].includeUpstream).toBe("no");
+  });
+
+  it("should derive unique keys from subjects when missing", () => {
+    const plan = parseMarkdownPlan("- [ ] Write Tests\n- [ ] Write Tests");
+
+    expect(plan.tasks.map(t => t.key)).toEqual(["write-tests", "write-tests-2"]);
+  });
+});
+
+describe("Planner output handling", () => {
+  it("should extract JSON from a fenced block", () => {
+    const text = 'Here is the plan:\n```json\n{"tasks": []}\n```\nDone.';
+    expect(extractJson(text)).toBe('{"tasks": []}\n');
+  });
+
+  it("should fall back to the outermost braces", () => {
+    const text = 'Plan: {"tasks": [{"key": "a"}]} - end';
+    expect(JSON.parse(extractJson(text))).toEqual({ tasks: [{ key: "a" }] });
+  });
+
+  it("should assign execution stages from dependencies", () => {
+    const stages = planStages([
+      { key: "design" },
+      { key: "api", needs: "design" },
+      { key: "ui", needs: ["design"] },
+      { key: "tests", needs: "api, ui" },
+      { key: "docs" },
+    ]);
+
+    expect(Object.fromEntries(stages)).toEqual({ design: 1, api: 2, ui: 2, tests: 3, docs: 1 });
+  });
+
+  it("should not loop forever on cyclic input", () => {
+    const stages = planStages([
+      { key: "a", needs: "b" },
+      { key: "b", needs: "a" },
+    ]);
+
+    expect(stages.size).toBe(2);
+  });
+});
+
+describe("Task graph rendering", () => {
+  function timed(task: Task, minutes: number): Task {
+    task.startedAt = new Date(0);
+    task.completedAt = new Date(minutes * 60000);
+    return task;
+  }
+
+  it("should follow the longest measured path as the critical path", () => {
+    const team = makeTeam([
+      timed(makeTask("design", "planner"), 5),
+      timed(makeTask("api", "backend", ["design"]), 30),
+      timed(makeTask("ui", "frontend", ["design"]), 10),
+      timed(makeTask("tests", "qa", ["api", "ui"]), 5),
+    ]);
+
+    expect(buildTaskGraph(team).critical).toEqual(["design", "api", "tests"]);
+  });
+
+  it("should count tasks when no durations are measured", () => {
+    const team = makeTeam([
+      makeTask("a", "x"),
+      makeTask("b", "x", ["a"]),
+      makeTask("c", "x", ["b"]),
+      makeTask("d", "x"),
+    ]);
+
+    expect(buildTaskGraph(team).critical).toEqual(["a", "b", "c"]);
+  });
+
+  it("should mark cyclic tasks and keep them out of the critical path", () => {
+    const team = makeTeam([
+      makeTask("a", "x", ["b"]),
+      makeTask("b", "x", ["a"]),
+      makeTask("c", "x"),
+    ]);
+
+    const graph = buildTaskGraph(team);
+    expect(Array.from(graph.cyclic).sort()).toEqual(["a", "b"]);
+    expect(graph.critical).toEqual(["c"]);
+    expect(renderAscii(graph)).toContain("a (a) @x (cycle)");
+  });
+
+  it("should render status classes and critical links in Mermaid", () => {
+    const team = makeTeam([makeTask("a", "x"), makeTask("b", "x", ["a"])]);
+    team.tasks.get("a")!.status = "completed";
+
+    const mermaid = renderMermaid(buildTaskGraph(team));
+    expect(mermaid).toContain('t1["a<br/>@x"]:::completed');
+    expect(mermaid).toContain("t1 --> t2");
+    expect(mermaid).toContain("class t1,t2 critical");
+    expect(mermaid).toContain("linkStyle 0 stroke:#dc2626");
+  });
+
+  it("should print shared dependents once in the ASCII tree", () => {
+    const team = makeTeam([
+      makeTask("a", "x"),
+      makeTask("b", "x", ["a"]),
+      makeTask("c", "x", ["a"]),
+      makeTask("d", "x", ["b", "c"]),
+    ]);
+
+    const lines = renderAscii(buildTaskGraph(team)).trimEnd().split("\n");
+    expect(lines[0]).toBe("[ ] a (a) @x *");
+    expect(lines.filter(l => l.includes("d (d)"))).toHaveLength(2);
+    expect(lines.filter(l => l.endsWith("↑"))).toHaveLength(1);
+  });
+});
+
+describe("Structured findings", () => {
+  const sqlInjection: FindingInput = {
+    file: "src/db.ts",
+    startLine: 40,
+    endLine: 44,
+    severity: "high",
+    category: "injection",
+    cwe: "89",
+    title: "SQL injection",
+    description: "User input is concatenated into the query.",
+  };
+
+  it("should normalize CWE ids and inverted line ranges", () => {
+    const finding = toFinding({ ...sqlInjection, startLine: 44, endLine: 40 }, "security-auditor");
+    expect(finding.cwe).toBe("CWE-89");
+    expect(finding.endLine).toBe(44);
+    expect(finding.reportedBy).toEqual(["security-auditor"]);
+  });
+
+  it("should merge overlapping findings across agents", () => {
+    const merged = dedupeFindings([
+      toFinding(sqlInjection, "security-auditor"),
+      toFinding({
+        ...sqlInjection,
+        file: "./src/db.ts",
+        startLine: 42,
+        endLine: 50,
+        severity: "critical",
+        cwe: "CWE-89",
+        description: "Query built with template literal from request params; exploitable without auth.",
+      }, "code-reviewer"),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].severity).toBe("critical");
+    expect(merged[0].startLine).toBe(40);
+    expect(merged[0].endLine).toBe(50);
+    expect(merged[0].reportedBy).toEqual(["security-auditor", "code-reviewer"]);
+    expect(merged[0].description).toContain("template literal");
+  });
+
+  it("should keep distinct findings and sort by severity then location", () => {
+    const merged = dedupeFindings([
+      toFinding({ ...sqlInjection, file: "src/b.ts", severity: "low", cwe: undefined, category: "style" }, "a"),
+      toFinding({ ...sqlInjection, file: "src/a.ts", startLine: 100, endLine: 101, severity: "low", cwe: undefined, category: "style" }, "a"),
+      toFinding(sqlInjection, "b"),
+      toFinding({ ...sqlInjection, startLine: 90, endLine: 91 }, "c"),
+    ]);
+
+    expect(merged.map(f => `${f.severity} ${f.file}:${f.startLine}`)).toEqual([
+      "high src/db.ts:40",
+      "high src/db.ts:90",
+      "low src/a.ts:100",
+      "low src/b.ts:40",
+    ]);
+  });
+
+  it("should export SARIF 2.1.0 with CWE rules and regions", () => {
+    const sarif = toSarif(dedupeFindings([
+      toFinding({ ...sqlInjection, suggestedFix: "Use parameterized queries." }, "security-auditor"),
+      toFinding({ file: "README.md", severity: "info", category: "Docs", title: "Typo", description: "Misspelled word." }, "code-reviewer"),
+    ])) as any;
+
+    expect(sarif.version).toBe("2.1.0");
+    const [run] = sarif.runs;
+    expect(run.tool.driver.rules.map((r: any) => r.id)).toEqual(["CWE-89", "docs"]);
+    expect(run.tool.driver.rules[0].properties["security-severity"]).toBe("8.0");
+    expect(run.results[0]).toMatchObject({
+      ruleId: "CWE-89",
+      level: "error",
+      locations: [{ physicalLocation: { artifactLocation: { uri: "src/db.ts" }, region: { startLine: 40, endLine: 44 } } }],
+    });
+    expect(run.results[0].message.text).toContain("Suggested fix: Use parameterized queries.");
+    expect(run.results[1].level).toBe("note");
+    expect(run.results[1].locations[0].physicalLocation.region).toBeUndefined();
+  });
+});
+
+describe("Result modes", () => {
+  const team: Team = {
+    id: "team-1",
+    name: "Test Team",
+    preset: "review",
+    agents: new Map(),
+    tasks: new Map(),
+    createdAt: new Date(),
+    task: "Test"
+  };
+
+  it("should keep short results intact in summary mode", () => {
+    expect(formatResultText(team, "short", "summary", 'agent="a"')).toBe("short");
+  });
+
+  it("should point to team-result when a summary is truncated", () => {
+    const text = "x".repeat(MAX_RESULT_LENGTH + 500);
+    const formatted = formatResultText(team, text, "summary", 'agent="code-reviewer"');
+
+    expect(formatted.startsWith("x".repeat(MAX_RESULT_LENGTH) + "...")).toBe(true);
+    expect(formatted).toContain(`${MAX_RESULT_LENGTH} of ${text.length} chars shown`);
+    expect(formatted).toContain(`/team-result teamId="team-1" agent="code-reviewer" offset=${MAX_RESULT_LENGTH}`);
+  });
+
+  it("should return the complete text in full mode", () => {
+    const text = "y".repeat(MAX_RESULT_LENGTH * 3);
+    expect(formatResultText(team, text, "full", 'agent="a"')).toBe(text);
+  });
+});
+
+describe("Debate mode", () => {
+  const members = ["architect", "backend-developer", "devil-s-advocate"];
+
+  function turn(agent: string, responses: Array<[string, DebateVerdict]>, error?: string): DebateTurn {
+    return { agent, round: 2, position: "p", responses: responses.map(([to, verdict]) => ({ to, verdict, reason: "" })), error };
+  }
+
+  it("should parse the final position and rebuttals", () => {
+    const text = [
+      "Event sourcing adds too much operational load for this team.",
+      "",
+      "**POSITION:** Use a plain Postgres outbox table.",
+      "- **backend-developer**: agree - fewer moving parts",
+      "- devil-s-advocate: disagree — throughput numbers are not that high",
+      "- architect: agree - self responses are ignored",
+      "- unknown-agent: agree - not a member",
+    ].join("\n");
+
+    const parsed = parseDebateTurn("architect", 2, text, members);
+    expect(parsed.position).toBe("Use a plain Postgres outbox table.");
+    expect(parsed.responses).toEqual([
+      { to: "backend-developer", verdict: "agree", reason: "fewer moving parts" },
+      { to: "devil-s-advocate", verdict: "disagree", reason: "throughput numbers are not that high" },
+    ]);
+  });
+
+  it("should fall back to the start of the reply without a POSITION line", () => {
+    const parsed = parseDebateTurn("architect", 1, "  Just use   Kafka.\nMore text", members);
+    expect(parsed.position).toBe("Just use Kafka. More text");
+    expect(parsed.responses).toEqual([]);
+  });
+
+  it("should converge when non-DA agents agree despite the devil's advocate", () => {
+    expect(debateConverged([
+      turn("architect", [["backend-developer", "agree"], ["devil-s-advocate", "disagree"]]),
+      turn("backend-developer", [["architect", "agree"], ["devil-s-advocate", "partial"]]),
+      turn("devil-s-advocate", [["architect", "disagree"], ["backend-developer", "disagree"]]),
+    ], members)).toBe(true);
+  });
+
+  it("should not converge on partial agreement or missing responses", () => {
+    expect(debateConverged([
+      turn("architect", [["backend-developer", "partial"]]),
+      turn("backend-developer", [["architect", "agree"]]),
+    ], members)).toBe(false);
+    expect(debateConverged([turn("architect", []), turn("backend-developer", [])], members)).toBe(false);
+  });
+
+  it("should not converge when a participant's turn failed or is missing", () => {
+    const team = ["architect", "backend-developer", "qa-expert"];
+    const agreeing = [
+      turn("architect", [["backend-developer", "agree"], ["qa-expert", "agree"]]),
+      turn("backend-developer", [["architect", "agree"], ["qa-expert", "agree"]]),
+    ];
+    expect(debateConverged([...agreeing, turn("qa-expert", [], "Session timeout")], team)).toBe(false);
+    expect(debateConverged(agreeing, team)).toBe(false);
+  });
+
+  it("should not converge when a participant answered only some of the others", () => {
+    const team = ["architect", "backend-developer", "qa-expert"];
+    expect(debateConverged([
+      turn("architect", [["backend-developer", "agree"], ["qa-expert", "agree"]]),
+      turn("backend-developer", [["architect", "agree"], ["qa-expert", "agree"]]),
+      turn("qa-expert", [["architect", "agree"]]),
+    ], team)).toBe(false);
+  });
+
+  it("should include the devil's advocate when only one other agent debates", () => {
+    expect(debateConverged([
+      turn("security-auditor", [["devil-s-advocate", "agree"]]),
+      turn("devil-s-advocate", [["security-auditor", "disagree"]]),
+    ], ["security-auditor", "devil-s-advocate"])).toBe(false);
+    expect(debateConverged([
+      turn("security-auditor", [["devil-s-advocate", "agree"]]),
+      turn("devil-s-advocate", [["security-auditor", "agree"]]),
+    ], ["security-auditor", "devil-s-advocate"])).toBe(true);
+  });
+});
+
+describe("Team file storage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "squad-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should replace files atomically without leaving temp files", () => {
+    const file = path.join(dir, "team-1.json");
+    writeFileAtomic(file, "{\"revision\":1}");
+    writeFileAtomic(file, "{\"revision\":2}");
+    expect(fs.readFileSync(file, "utf-8")).toBe("{\"revision\":2}");
+    expect(fs.readdirSync(dir)).toEqual(["team-1.json"]);
+  });
+
+  it("should hold the lock only while the callback runs", async () => {
+    const file = path.join(dir, "team-1.json");
+    const seen = await withFileLock(file, () => fs.existsSync(`${file}.lock`));
+    expect(seen).toBe(true);
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+
+    await expect(withFileLock(file, () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("should time out while another live process holds the lock without blocking the event loop", async () => {
+    const file = path.join(dir, "team-1.json");
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now() }));
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+    try {
+      await expect(withFileLock(file, () => "never", 200)).rejects.toThrow("Timed out waiting for lock");
+    } finally {
+      clearInterval(timer);
+    }
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it("should take over locks left by dead or stuck processes", async () => {
+    const file = path.join(dir, "team-1.json");
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: 2 ** 22 + 12345, hostname: os.hostname(), acquiredAt: Date.now() }));
+    expect(await withFileLock(file, () => "ok")).toBe("ok");
+
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, hostname: "other-host", acquiredAt: Date.now() - LOCK_STALE_MS - 1 }));
+    expect(await withFileLock(file, () => "ok")).toBe("ok");
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("should let only one of several waiters take over a stale lock", async () => {
+    const file = path.join(dir, "team-1.json");
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: 2 ** 22 + 12345, hostname: os.hostname(), acquiredAt: Date.now() }));
+    let holders = 0;
+    let peak = 0;
+    await Promise.all(Array.from({ length: 5 }, () => withFileLock(file, async () => {
+      peak = Math.max(peak, ++holders);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      holders--;
+    })));
+    expect(peak).toBe(1);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("should clear a break marker left by a crashed instance", async () => {
+    const file = path.join(dir, "team-1.json");
+    const old = new Date(Date.now() - LOCK_STALE_MS - 1000);
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: 2 ** 22 + 12345, hostname: os.hostname(), acquiredAt: Date.now() }));
+    fs.writeFileSync(`${file}.lock.break`, "1");
+    fs.utimesSync(`${file}.lock.break`, old, old);
+
+    expect(await withFileLock(file, () => "acquired")).toBe("acquired");
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("should not remove a lock that another process took over", async () => {
+    const file = path.join(dir, "team-1.json");
+    await withFileLock(file, () => {
+      fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now(), token: "other" }));
+    });
+    expect(fs.existsSync(`${file}.lock`)).toBe(true);
+  });
+
+  it("should migrate unversioned team files", () => {
+    const migrated = migrateTeamData({
+      id: "team-1",
+      agents: [{ name: "debugger" }],
+      tasks: [{ id: "task-1" }]
+    });
+    expect(migrated.schemaVersion).toBe(TEAM_SCHEMA_VERSION);
+    expect(migrated.revision).toBe(0);
+    expect(migrated.messages).toEqual([]);
+    expect(migrated.agents).toEqual([{ name: "debugger", sessionID: null }]);
+    expect(migrated.tasks).toEqual([{ id: "task-1", blockedBy: [], blocks: [] }]);
+  });
+
+  it("should leave current files alone and reject newer schemas", () => {
+    const current = { schemaVersion: TEAM_SCHEMA_VERSION, id: "team-1", revision: 7, agents: [], tasks: [] };
+    expect(migrateTeamData(current)).toEqual(current);
+    expect(() => migrateTeamData({ ...current, schemaVersion: TEAM_SCHEMA_VERSION + 1 }))
+      .toThrow("uses schema version");
+  });
+
+  it("should validate records before they become teams", () => {
+    const record = {
+      id: "team-1", name: "Team", preset: "review", task: "check", createdAt: "2026-01-01T00:00:00.000Z",
+      agents: [{ name: "debugger", role: "Debugger", status: "idle" }],
+      tasks: [{ id: "task-1", subject: "a", description: "a", status: "pending", createdAt: "2026-01-01T00:00:00.000Z" }]
+    };
+    const parsed = parseTeamRecord(record);
+    expect(parsed.revision).toBe(0);
+    expect(parsed.agents[0].sessionID).toBeNull();
+    expect(parsed.tasks[0].blockedBy).toEqual([]);
+
+    expect(() => parseTeamRecord("team-1")).toThrow("not an object");
+    expect(() => parseTeamRecord({ ...record, createdAt: "yesterday" })).toThrow("createdAt: expected an ISO date");
+    expect(() => parseTeamRecord({ ...record, agents: [{ name: "debugger", role: "Debugger", status: "asleep" }] }))
+      .toThrow("agents.0.status");
+    expect(() => parseTeamRecord({ ...record, tasks: "none" })).toThrow("tasks");
+  });
+});
+
+describe("Team store backends", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "squad-backend-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function makeStoredTeam(id: string, createdAt = "2026-01-01T00:00:00.000Z"): Team {
+    return { id, name: id, preset: "review", task: "check", agents: new Map(), tasks: new Map(), createdAt: new Date(createdAt) };
+  }
+
+  // 팀별 메시지 큐 (플러그인의 messageQueue 대신)
+  function makeMessageLog(): MessageLog & { messages: Message[] } {
+    const messages: Message[] = [];
+    return {
+      messages,
+      list: teamId => messages.filter(m => m.teamId === teamId),
+      add: message => {
+        messages.push(message);
+      }
+    };
+  }
+
+  const backends: Array<[StorageBackend, () => TeamRecords]> = [
+    ["memory", () => createMemoryRecords()],
+    ["sqlite", () => createSqliteRecords(path.join(dir, "teams.db"))],
+  ];
+
+  for (const [backend, open] of backends) {
+    it(`${backend}: should save, read back and bump the revision`, async () => {
+      const store = createTeamStore(backend, open(), makeMessageLog());
+      const team = makeStoredTeam("team-1");
+      team.agents.set("debugger", { name: "debugger", sessionID: "ses-1", role: "Debugger", status: "completed", result: "Found it" });
+      team.tasks.set("task-1", makeTask("task-1", "debugger"));
+      store.add(team);
+      store.save(team);
+      store.save(team);
+      await store.flush();
+
+      expect(team.revision).toBe(2);
+      expect(store.get("team-1")).toBe(team);
+      const copy = store.read("team-1")!;
+      expect(copy).not.toBe(team);
+      expect(copy).toEqual(team);
+    });
+
+    it(`${backend}: should keep both stores' completed results when they save the same team at once`, async () => {
+      const records = open();
+      const first = createTeamStore(backend, records, makeMessageLog());
+      const team = makeStoredTeam("team-1");
+      team.agents.set("backend", { name: "backend", sessionID: null, role: "Backend", status: "idle" });
+      team.agents.set("frontend", { name: "frontend", sessionID: null, role: "Frontend", status: "idle" });
+      team.tasks.set("task-a", makeTask("task-a", "backend"));
+      team.tasks.set("task-b", makeTask("task-b", "frontend"));
+      first.add(team);
+      first.save(team);
+      await first.flush();
+
+      const second = createTeamStore(backend, records, makeMessageLog());
+      const other = second.activate("team-1")!;
+      Object.assign(team.agents.get("backend")!, { status: "completed", result: "API done" });
+      Object.assign(team.tasks.get("task-a")!, { status: "completed", result: "API done" });
+      Object.assign(other.agents.get("frontend")!, { status: "completed", result: "UI done" });
+      Object.assign(other.tasks.get("task-b")!, { status: "completed", result: "UI done" });
+      first.save(team);
+      second.save(other);
+      await Promise.all([first.flush(), second.flush()]);
+
+      const stored = createTeamStore(backend, records, makeMessageLog()).read("team-1")!;
+      expect(stored.revision).toBe(3);
+      expect(stored.agents.get("backend")!.result).toBe("API done");
+      expect(stored.agents.get("frontend")!.result).toBe("UI done");
+      expect(stored.tasks.get("task-a")!.status).toBe("completed");
+      expect(stored.tasks.get("task-b")!.status).toBe("completed");
+    });
+
+    it(`${backend}: should restore only teams that were not shut down`, async () => {
+      const records = open();
+      const writer = createTeamStore(backend, records, makeMessageLog());
+      const active = makeStoredTeam("team-active", "2026-01-02T00:00:00.000Z");
+      const done = { ...makeStoredTeam("team-done"), shutdownAt: new Date() };
+      writer.save(active);
+      writer.save(done);
+      await writer.flush();
+
+      const reader = createTeamStore(backend, records, makeMessageLog());
+      expect(reader.restore()).toBe(1);
+      expect(reader.list().map(t => t.id)).toEqual(["team-active"]);
+      expect(reader.history().map(t => t.id).sort()).toEqual(["team-active", "team-done"]);
+    });
+
+    it(`${backend}: should keep the stored record after release`, async () => {
+      const store = createTeamStore(backend, open(), makeMessageLog());
+      const team = makeStoredTeam("team-1");
+      store.add(team);
+      store.save(team);
+      store.release("team-1");
+      await store.flush();
+
+      expect(store.get("team-1")).toBeUndefined();
+      expect(store.read("team-1")?.name).toBe("team-1");
+      expect(store.read("team-missing")).toBeNull();
+    });
+  }
+
+  it("should show saved state before the write finishes", async () => {
+    const store = createTeamStore("fs", createFileRecords(dir), makeMessageLog());
+    const team = makeStoredTeam("team-1");
+    store.add(team);
+    store.save(team);
+    team.shutdownAt = new Date();
+    store.save(team);
+    store.release("team-1");
+
+    expect(store.read("team-1")?.shutdownAt).toEqual(team.shutdownAt);
+    expect(store.history().map(t => t.id)).toEqual(["team-1"]);
+    await store.flush();
+    expect(team.revision).toBe(2);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, "team-1.json"), "utf-8")).shutdownAt).toBe(team.shutdownAt.toISOString());
+  });
+
+  it("should save messages with the team and restore them once", async () => {
+    const records = createMemoryRecords();
+    const log = makeMessageLog();
+    const timestamp = new Date("2026-01-01T00:00:00.000Z");
+    log.add({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "hi", timestamp });
+    const writer = createTeamStore("memory", records, log);
+    writer.save(makeStoredTeam("team-1"));
+    await writer.flush();
+
+    const restored = makeMessageLog();
+    const reader = createTeamStore("memory", records, restored);
+    reader.restore();
+    reader.activate("team-1");
+    expect(restored.messages).toEqual([{ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "hi", timestamp }]);
+  });
+
+  it("should skip invalid records when restoring and listing history", async () => {
+    const records = createMemoryRecords();
+    const store = createTeamStore("memory", records, makeMessageLog());
+    store.save(makeStoredTeam("team-good"));
+    await store.flush();
+    await records.update("team-bad", () => ({ ...serializeTeam(makeStoredTeam("team-bad"), []), createdAt: "not a date", revision: 1 }));
+
+    const reader = createTeamStore("memory", records, makeMessageLog());
+    expect(reader.restore()).toBe(1);
+    expect(reader.history().map(t => t.id)).toEqual(["team-good"]);
+    expect(reader.read("team-bad")).toBeNull();
+  });
+
+  it("should not overwrite records written by a newer schema", async () => {
+    const records = createMemoryRecords();
+    await records.update("team-1", () => ({ ...serializeTeam(makeStoredTeam("team-1"), []), schemaVersion: TEAM_SCHEMA_VERSION + 1, revision: 3 }));
+
+    const store = createTeamStore("memory", records, makeMessageLog());
+    store.save(makeStoredTeam("team-1"));
+    await store.flush();
+    expect((records.read("team-1") as { revision: number }).revision).toBe(3);
+    expect(store.read("team-1")).toBeNull();
+  });
+
+  it("should merge a newer revision from another store into the live team", async () => {
+    const dbPath = path.join(dir, "teams.db");
+    const first = createTeamStore("sqlite", createSqliteRecords(dbPath), makeMessageLog());
+    const second = createTeamStore("sqlite", createSqliteRecords(dbPath), makeMessageLog());
+    const team = makeStoredTeam("team-1");
+    team.tasks.set("task-a", makeTask("task-a", "backend"));
+    team.tasks.set("task-b", makeTask("task-b", "frontend"));
+    first.add(team);
+    first.save(team);
+    await first.flush();
+
+    const loaded = second.activate("team-1")!;
+    loaded.name = "Renamed elsewhere";
+    loaded.task = "other change";
+    Object.assign(loaded.tasks.get("task-b")!, { status: "completed", result: "UI done" });
+    second.save(loaded);
+    await second.flush();
+    expect(loaded.revision).toBe(2);
+
+    // first는 리비전 2를 모른 채 실행 중인 태스크를 완료
+    const running = team.tasks.get("task-a")!;
+    Object.assign(running, { status: "completed", result: "API done" });
+    team.task = "this change";
+    first.save(team);
+    await first.flush();
+
+    expect(team.revision).toBe(3);
+    expect(first.get("team-1")).toBe(team);
+    expect(team.tasks.get("task-a")).toBe(running);
+    expect(team.tasks.get("task-b")!.result).toBe("UI done");
+    expect(team.name).toBe("Renamed elsewhere");
+    expect(team.task).toBe("this change"); // 양쪽이 바꾼 필드는 이쪽 값
+
+    const stored = second.read("team-1")!;
+    expect(stored.revision).toBe(3);
+    expect(stored.tasks.get("task-a")!.result).toBe("API done");
+    expect(stored.tasks.get("task-b")!.result).toBe("UI done");
+    expect(stored.name).toBe("Renamed elsewhere");
+  });
+
+  it("should add messages saved by another store to the message log", async () => {
+    const records = createMemoryRecords();
+    const firstLog = makeMessageLog();
+    const secondLog = makeMessageLog();
+    const first = createTeamStore("memory", records, firstLog);
+    const second = createTeamStore("memory", records, secondLog);
+    const team = makeStoredTeam("team-1");
+    first.add(team);
+    first.save(team);
+    await first.flush();
+
+    const loaded = second.activate("team-1")!;
+    const timestamp = new Date("2026-01-01T00:00:00.000Z");
+    secondLog.add({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "from second", timestamp });
+    second.save(loaded);
+    await second.flush();
+
+    firstLog.add({ type: "message", teamId: "team-1", sender: "lead", recipient: "debugger", content: "from first", timestamp });
+    first.save(team);
+    await first.flush();
+
+    expect(firstLog.messages.map(m => m.content)).toEqual(["from first", "from second"]);
+    const stored = records.read("team-1") as { messages: Array<{ content: string }> };
+    expect(stored.messages.map(m => m.content)).toEqual(["from first", "from second"]);
+  });
+});
+
+describe("Team history and search", () => {
+  function makeHistoryTeam(id: string, name: string, preset: string, createdAt: string): Team {
+    return { id, name, preset, agents: new Map(), tasks: new Map(), createdAt: new Date(createdAt), task: "review" };
+  }
+
+  it("should filter teams by date range, preset and name", () => {
+    const team = makeHistoryTeam("team-1", "Auth Review", "security", "2026-09-20T00:00:00.000Z");
+    expect(matchesHistoryFilter(team, {})).toBe(true);
+    expect(matchesHistoryFilter(team, { since: new Date("2026-09-01"), until: new Date("2026-10-01") })).toBe(true);
+    expect(matchesHistoryFilter(team, { since: new Date("2026-10-01") })).toBe(false);
+    expect(matchesHistoryFilter(team, { preset: "review" })).toBe(false);
+    expect(matchesHistoryFilter(team, { name: "auth" })).toBe(true);
+    expect(matchesHistoryFilter(team, { name: "billing" })).toBe(false);
+  });
+
+  it("should parse relative periods and ISO dates", () => {
+    const now = Date.parse("2026-10-19T12:00:00.000Z");
+    expect(parseHistoryDate("12h", now)?.toISOString()).toBe("2026-10-19T00:00:00.000Z");
+    expect(parseHistoryDate("30d", now)?.toISOString()).toBe("2026-09-19T12:00:00.000Z");
+    expect(parseHistoryDate("2W", now)?.toISOString()).toBe("2026-10-05T12:00:00.000Z");
+    expect(parseHistoryDate("2026-09-01", now)?.toISOString()).toBe("2026-09-01T00:00:00.000Z");
+    expect(parseHistoryDate("last month", now)).toBeNull();
+  });
+
+  it("should find results containing every term and filter by agent", () => {
+    const team = makeHistoryTeam("team-1", "Auth Review", "security", "2026-09-20T00:00:00.000Z");
+    team.agents.set("security-auditor", {
+      name: "security-auditor", sessionID: null, role: "", status: "completed",
+      result: "Session tokens in Auth.ts are compared with ===, which leaks timing."
+    });
+    team.agents.set("code-reviewer", {
+      name: "code-reviewer", sessionID: null, role: "", status: "completed",
+      result: "auth.ts is fine, but naming is inconsistent."
+    });
+    const task = makeTask("task-1", "security-auditor");
+    task.key = "fix-auth";
+    task.result = "Switched auth.ts to a constant-time comparison of tokens.";
+    team.tasks.set(task.id, task);
+
+    expect(searchTeamResults([team], "AUTH.TS tokens").map(m => m.label))
+      .toEqual(["Agent security-auditor", "Task task-1"]);
+    expect(searchTeamResults([team], "auth.ts", "code-reviewer").map(m => m.ref)).toEqual(['agent="code-reviewer"']);
+    expect(searchTeamResults([team], "auth.ts", "security-auditor").map(m => m.ref))
+      .toEqual(['agent="security-auditor"', 'task="fix-auth"']);
+    expect(searchTeamResults([team], "   ")).toEqual([]);
+  });
+
+  it("should show the text around the first term", () => {
+    const text = `${"a".repeat(200)}\nauth.ts\nline  ${"b".repeat(200)}`;
+    const snippet = searchSnippet(text, text.indexOf("auth.ts"), "auth.ts".length);
+    expect(snippet.startsWith("...")).toBe(true);
+    expect(snippet.endsWith("...")).toBe(true);
+    expect(snippet).toContain(" auth.ts line ");
+    expect(searchSnippet("short auth.ts", 6, 7)).toBe("short auth.ts");
+  });
+});
+
+describe("Team re-run diff", () => {
+  function makeFinding(file: string, startLine: number | undefined, category: string, cwe?: string): Finding {
+    return { file, startLine, severity: "high", category, cwe, title: `${category} in ${file}`, description: "", reportedBy: ["security-auditor"] };
+  }
+
+  it("should split findings into resolved, new and unchanged", () => {
+    const before = [
+      makeFinding("src/auth.ts", 10, "injection", "CWE-89"),
+      makeFinding("src/auth.ts", 40, "crypto", "CWE-327"),
+    ];
+    const after = [
+      makeFinding("./src/auth.ts", 10, "injection", "CWE-89"),
+      makeFinding("src/session.ts", 5, "auth", "CWE-287"),
+    ];
+
+    const diff = matchFindings(before, after);
+    expect(diff.unchanged.map(f => f.cwe)).toEqual(["CWE-89"]);
+    expect(diff.resolved.map(f => f.cwe)).toEqual(["CWE-327"]);
+    expect(diff.added.map(f => f.cwe)).toEqual(["CWE-287"]);
+  });
+
+  it("should treat a finding whose lines moved as unchanged", () => {
+    const diff = matchFindings(
+      [makeFinding("src/auth.ts", 10, "injection", "CWE-89")],
+      [makeFinding("src/auth.ts", 25, "injection", "CWE-89")]
+    );
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.resolved).toEqual([]);
+    expect(diff.added).toEqual([]);
+  });
+
+  it("should pair repeated findings one-to-one", () => {
+    const diff = matchFindings(
+      [makeFinding("src/a.ts", 1, "xss"), makeFinding("src/a.ts", 50, "xss")],
+      [makeFinding("src/a.ts", 1, "xss")]
+    );
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.resolved.map(f => f.startLine)).toEqual([50]);
+  });
+
+  it("should diff result text by lines, ignoring order and whitespace", () => {
+    const before = "## Issues\n- SQL injection in login\n- Weak   hash\n\n- Weak hash";
+    const after = "## Issues\n- Weak hash\n- Missing rate limit";
+    expect(diffResultLines(before, after)).toEqual({
+      removed: ["- SQL injection in login", "- Weak hash"],
+      added: ["- Missing rate limit"],
+      unchanged: 2,
+    });
+    expect(diffResultLines("", "")).toEqual({ removed: [], added: [], unchanged: 0 });
+  });
+});
+
+describe("Git review targets", () => {
+  function fileDiff(file: string, lines: number): string {
+    const body = Array.from({ length: lines }, (_, i) => `+line ${i}`).join("\n");
+    return `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n@@ -0,0 +1,${lines} @@\n${body}\n`;
+  }
+
+  it("should parse ranges and single refs", () => {
+    expect(parseGitRange("main..feature")).toEqual({ base: "main", head: "feature", mergeBase: false });
+    expect(parseGitRange("main...feature")).toEqual({ base: "main", head: "feature", mergeBase: true });
+    expect(parseGitRange("v1.2.0..")).toEqual({ base: "v1.2.0", head: "HEAD", mergeBase: false });
+    expect(parseGitRange("main")).toEqual({ base: "main", head: "HEAD", mergeBase: true });
+  });
+
+  it("should parse name-status output including renames", () => {
+    expect(parseNameStatus("M\tsrc/a.ts\nR087\tsrc/old.ts\tsrc/new.ts\nA\tdocs/b.md\n")).toEqual([
+      { status: "M", path: "src/a.ts" },
+      { status: "R", path: "src/new.ts" },
+      { status: "A", path: "docs/b.md" },
+    ]);
+    expect(parseNameStatus("")).toEqual([]);
+  });
+
+  it("should split diffs and file contents per file", () => {
+    const diff = fileDiff("a.ts", 2) + fileDiff("b.ts", 3);
+    expect(splitDiffFiles(diff)).toHaveLength(2);
+    expect(splitDiffFiles("=== a.ts ===\nconst a = 1;\n=== b.ts ===\nconst b = 2;\n")).toEqual([
+      "=== a.ts ===\nconst a = 1;\n",
+      "=== b.ts ===\nconst b = 2;\n",
+    ]);
+  });
+
+  it("should skip files past the stored diff limit instead of reading them", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "squad-paths-"));
+    try {
+      fs.writeFileSync(path.join(root, "small.ts"), "const a = 1;\n");
+      fs.writeFileSync(path.join(root, "huge.ts"), "x".repeat(MAX_GIT_DIFF_LENGTH + 1));
+      fs.writeFileSync(path.join(root, "bin.dat"), "a\0b");
+      const files = ["small.ts", "huge.ts", "bin.dat"].map(file => ({ status: "", path: file }));
+
+      const { content, truncated } = await readPathContents(root, files);
+      expect(truncated).toBe(true);
+      expect(content).toContain("=== small.ts ===\nconst a = 1;\n");
+      expect(content).toContain(`=== huge.ts ===\n(skipped: ${MAX_GIT_DIFF_LENGTH + 1} bytes)\n`);
+      expect(content).toContain("=== bin.dat ===\n(binary file)\n");
+      expect(content.length).toBeLessThan(1000);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("should skip every file that no longer fits in the stored diff limit", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "squad-paths-"));
+    try {
+      const half = "y".repeat(MAX_GIT_DIFF_LENGTH / 2);
+      for (const file of ["a.ts", "b.ts", "c.ts"]) fs.writeFileSync(path.join(root, file), half);
+      const files = ["a.ts", "b.ts", "c.ts"].map(file => ({ status: "", path: file }));
+
+      const { content, truncated } = await readPathContents(root, files);
+      expect(truncated).toBe(true);
+      expect(content).toContain("=== a.ts ===");
+      expect(content).toContain("=== b.ts ===\n(skipped:");
+      expect(content).toContain("=== c.ts ===\n(skipped:");
+      expect(content.length).toBeLessThanOrEqual(MAX_GIT_DIFF_LENGTH);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("should return small diffs unchanged", () => {
+    const diff = fileDiff("a.ts", 3);
+    expect(budgetDiff(diff, 10000)).toBe(diff);
+  });
+
+  it("should keep small files whole and cut large ones within the budget", () => {
+    const small = fileDiff("small.ts", 2);
+    const large = fileDiff("large.ts", 500);
+    const budgeted = budgetDiff(large + small, 1000);
+
+    expect(budgeted.length).toBeLessThan(1100);
+    expect(budgeted.indexOf("diff --git a/large.ts")).toBeLessThan(budgeted.indexOf("diff --git a/small.ts"));
+    expect(budgeted).toContain(small);
+    expect(budgeted).toMatch(/\.\.\. \(\d+ more chars of this file omitted\)\n/);
   });
 });
 